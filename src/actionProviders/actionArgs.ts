@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { createError, ErrorCode } from "../common/errors";
+
+/**
+ * A single problem found while validating the arguments of an action.
+ */
+export interface ActionArgsIssue {
+  /**
+   * The dotted path of the offending field, e.g. `"amount"` or `"legs.0.token"`.
+   * Empty when the arguments as a whole are invalid.
+   */
+  path: string;
+
+  /**
+   * What is wrong with the field.
+   */
+  message: string;
+
+  /**
+   * The zod issue code, e.g. `"invalid_type"`.
+   */
+  code: string;
+}
+
+/**
+ * Details attached to the `INVALID_INPUT` error thrown for invalid action arguments.
+ */
+export interface ActionArgsValidationDetails {
+  /**
+   * The name of the action the arguments were meant for.
+   */
+  action: string;
+
+  /**
+   * Every problem found, in schema order.
+   */
+  issues: ActionArgsIssue[];
+}
+
+/**
+ * Validates and coerces the arguments of an action against its schema.
+ *
+ * @param action - The name of the action, used in the error message.
+ * @param schema - The schema of the action.
+ * @param args - The raw arguments, typically produced by an LLM.
+ * @returns The parsed arguments, with defaults and transforms applied.
+ *
+ * @throws INVALID_INPUT listing the path of every invalid field.
+ */
+export const parseActionArgs = <TSchema extends z.ZodSchema>(
+  action: string,
+  schema: TSchema,
+  args: unknown
+): z.infer<TSchema> => {
+  const parsed = schema.safeParse(args);
+
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const issues: ActionArgsIssue[] = parsed.error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+    code: issue.code,
+  }));
+
+  const details: ActionArgsValidationDetails = { action, issues };
+
+  throw createError(
+    `Invalid arguments for ${action}: ${issues
+      .map((issue) => `${issue.path || "(root)"}: ${issue.message}`)
+      .join("; ")}`,
+    ErrorCode.INVALID_INPUT,
+    details
+  );
+};
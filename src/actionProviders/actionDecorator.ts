@@ -3,10 +3,60 @@ import { WalletProvider } from "../walletProviders";
 
 import "reflect-metadata";
 
+/**
+ * How risky an action is for the funds of the wallet
+ */
+export type ActionRiskLevel = "none" | "low" | "medium" | "high";
+
+/**
+ * The relative cost of running an action, in gas and fees
+ */
+export type ActionCost = "free" | "low" | "medium" | "high";
+
+/**
+ * Classification of an action, used by hosts to select and constrain actions
+ */
+export interface ActionClassification {
+  /**
+   * Whether the action sends transactions or otherwise changes onchain state
+   */
+  mutatesState: boolean;
+
+  /**
+   * How risky the action is for the funds of the wallet
+   */
+  riskLevel: ActionRiskLevel;
+
+  /**
+   * Whether a human should approve the action before it runs
+   */
+  requiresApproval: boolean;
+
+  /**
+   * The relative cost of running the action
+   */
+  estimatedCost: ActionCost;
+
+  /**
+   * Free-form tags, e.g. `lending` or `swap`
+   */
+  tags: string[];
+
+  /**
+   * The protocol the action interacts with, if any, e.g. `morpho`
+   */
+  protocol?: string;
+}
+
 /**
  * Parameters for the create action decorator
+ *
+ * Classification fields are optional. An action that does not declare
+ * `mutatesState: false` is assumed to change state, with a `medium` risk and a
+ * `low` cost; read-only actions default to no risk and no cost.
  */
-export interface CreateActionDecoratorParams {
+export interface CreateActionDecoratorParams
+  extends Partial<ActionClassification> {
   /**
    * The name of the action
    */
@@ -57,6 +107,11 @@ export interface ActionMetadata {
    * The wallet provider to use for the action
    */
   walletProvider: boolean;
+
+  /**
+   * The classification of the action
+   */
+  classification: ActionClassification;
 }
 
 /**
@@ -88,30 +143,11 @@ export function CreateAction(params: CreateActionDecoratorParams) {
   ) => {
     const prefixedActionName = `${target.constructor.name}_${params.name}`;
 
-    const originalMethod = descriptor.value;
-
     const { isWalletProvider } = validateActionMethodArguments(
       target,
       propertyKey
     );
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    descriptor.value = function (...args: any[]) {
-      let walletMetrics: Record<string, string> = {};
-
-      if (isWalletProvider) {
-        walletMetrics = {
-          wallet_provider: args[0].getName(),
-          wallet_address: args[0].getAddress(),
-          network_id: args[0].getNetwork().networkId,
-          chain_id: args[0].getNetwork().chainId,
-          protocol_family: args[0].getNetwork().protocolFamily,
-        };
-      }
-
-      return originalMethod.apply(this, args);
-    };
-
     const existingMetadata: StoredActionMetadata =
       Reflect.getMetadata(ACTION_DECORATOR_KEY, target.constructor) ||
       new Map();
@@ -122,6 +158,7 @@ export function CreateAction(params: CreateActionDecoratorParams) {
       schema: params.schema,
       invoke: descriptor.value,
       walletProvider: isWalletProvider,
+      classification: resolveActionClassification(params),
     };
 
     existingMetadata.set(propertyKey, metaData);
@@ -136,6 +173,28 @@ export function CreateAction(params: CreateActionDecoratorParams) {
   };
 }
 
+/**
+ * Fills in the classification fields an action did not declare
+ *
+ * @param params - The classification fields declared by the action
+ * @returns The complete classification
+ */
+export function resolveActionClassification(
+  params: Partial<ActionClassification>
+): ActionClassification {
+  // An unclassified action may well write, so it must not pass as read-only.
+  const mutatesState = params.mutatesState ?? true;
+
+  return {
+    mutatesState,
+    riskLevel: params.riskLevel ?? (mutatesState ? "medium" : "none"),
+    requiresApproval: params.requiresApproval ?? false,
+    estimatedCost: params.estimatedCost ?? (mutatesState ? "low" : "free"),
+    tags: params.tags ?? [],
+    protocol: params.protocol,
+  };
+}
+
 /**
  * Validates the arguments of an action method
  *
@@ -0,0 +1,134 @@
+import { Action } from "./actionProvider";
+
+/**
+ * Selects a subset of actions.
+ *
+ * Every include list that is set must match (a list matches when any of its
+ * entries does), and an action matching any exclude list is dropped. Name and
+ * provider patterns are globs where `*` matches any run of characters and `?`
+ * matches a single one.
+ */
+export interface ActionFilter {
+  /**
+   * Action name patterns to keep, e.g. `MorphoReadActionProvider_*` or `*_get_*`.
+   */
+  names?: string[];
+
+  /**
+   * Action name patterns to drop.
+   */
+  excludeNames?: string[];
+
+  /**
+   * Provider name patterns to keep. A pattern also matches the providers nested
+   * under the one it names, e.g. `sushi_swap` matches `sushi_swap.quote`.
+   */
+  providers?: string[];
+
+  /**
+   * Provider name patterns to drop.
+   */
+  excludeProviders?: string[];
+
+  /**
+   * Tags to keep; actions with any of them are kept.
+   */
+  tags?: string[];
+
+  /**
+   * Tags to drop; actions with any of them are dropped.
+   */
+  excludeTags?: string[];
+
+  /**
+   * Keeps only read-only actions when true, only state-changing actions when false.
+   */
+  readOnly?: boolean;
+}
+
+/**
+ * Checks whether a value matches a glob pattern.
+ *
+ * @param value - The value to test.
+ * @param pattern - The pattern, where `*` matches any run of characters and `?` a single one.
+ * @returns True if the whole value matches the pattern.
+ */
+export const matchesGlob = (value: string, pattern: string): boolean => {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+        ? "."
+        : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+
+  return new RegExp(`^${source}$`).test(value);
+};
+
+/**
+ * Checks whether a provider name, or one of the providers it is nested under, matches a pattern.
+ *
+ * @param provider - The provider name, e.g. `sushi_swap.quote`.
+ * @param pattern - The provider pattern.
+ * @returns True if the provider or one of its parents matches.
+ */
+const matchesProvider = (provider: string, pattern: string): boolean => {
+  const segments = provider.split(".");
+
+  return segments.some((_, index) =>
+    matchesGlob(segments.slice(0, index + 1).join("."), pattern)
+  );
+};
+
+/**
+ * Checks whether an action passes a filter.
+ *
+ * @param action - The action to check.
+ * @param filter - The filter to apply.
+ * @returns True if the action is selected by the filter.
+ */
+export const matchesActionFilter = (
+  action: Action,
+  filter: ActionFilter
+): boolean => {
+  const { metadata } = action;
+  const anyName = (patterns: string[]) =>
+    patterns.some((pattern) => matchesGlob(action.name, pattern));
+  const anyProvider = (patterns: string[]) =>
+    patterns.some((pattern) => matchesProvider(action.provider, pattern));
+  const anyTag = (tags: string[]) =>
+    tags.some((tag) => metadata.tags.includes(tag));
+
+  if (filter.names && !anyName(filter.names)) return false;
+  if (filter.providers && !anyProvider(filter.providers)) return false;
+  if (filter.tags && !anyTag(filter.tags)) return false;
+  if (
+    filter.readOnly !== undefined &&
+    filter.readOnly === metadata.mutatesState
+  ) {
+    return false;
+  }
+
+  if (filter.excludeNames && anyName(filter.excludeNames)) return false;
+  if (filter.excludeProviders && anyProvider(filter.excludeProviders)) {
+    return false;
+  }
+  if (filter.excludeTags && anyTag(filter.excludeTags)) return false;
+
+  return true;
+};
+
+/**
+ * Selects the actions that pass a filter.
+ *
+ * @param actions - The actions to filter.
+ * @param filter - The filter to apply.
+ * @returns The selected actions, in their original order.
+ */
+export const filterActions = (
+  actions: Action[],
+  filter: ActionFilter
+): Action[] => actions.filter((action) => matchesActionFilter(action, filter));
@@ -1,16 +1,57 @@
 import { z } from "zod";
 import { WalletProvider } from "../walletProviders";
 import { Network } from "../network";
-import { StoredActionMetadata, ACTION_DECORATOR_KEY } from "./actionDecorator";
+import {
+  StoredActionMetadata,
+  ACTION_DECORATOR_KEY,
+  ActionClassification,
+} from "./actionDecorator";
+import {
+  ActionResult,
+  renderActionResult,
+  toActionResult,
+} from "./actionResult";
+import { parseActionArgs } from "./actionArgs";
+
+/**
+ * Per-invocation options, honored by the actions returned from `TensaiKit.getActions()`.
+ */
+export interface ActionInvokeOptions {
+  /**
+   * Simulates every transaction instead of broadcasting it and returns a
+   * dry-run report. Overrides the `dryRun` option of the kit.
+   */
+  dryRun?: boolean;
+
+  /**
+   * The ID of the registered wallet to run with. Overrides the wallet the
+   * actions were retrieved for.
+   */
+  walletId?: string;
+}
 
 /**
  * Action is the interface for all actions.
+ *
+ * `invokeWithResult` resolves to the structured result of the action, `invoke`
+ * resolves to the same result rendered as a string for LLM tools. Both validate
+ * and coerce their arguments against `schema` first, and throw `INVALID_INPUT`
+ * listing the invalid fields.
  */
 export interface Action<TActionSchema extends z.ZodSchema = z.ZodSchema> {
   name: string;
   description: string;
+  provider: string;
   schema: TActionSchema;
-  invoke: (args: z.infer<TActionSchema>) => Promise<string>;
+  metadata: ActionClassification;
+  invoke: (
+    args: z.infer<TActionSchema>,
+    options?: ActionInvokeOptions
+  ) => Promise<string>;
+  invokeWithResult: (
+    args: z.infer<TActionSchema>,
+    options?: ActionInvokeOptions
+  ) => Promise<ActionResult>;
 }
 
 /**
@@ -74,20 +115,35 @@ export abstract class ActionProvider<
       }
 
       for (const actionMetadata of actionsMetadataMap.values()) {
+        const invokeWithResult = async (schemaArgs: unknown) => {
+          const args: unknown[] = [];
+          if (actionMetadata.walletProvider) {
+            args[0] = walletProvider;
+          }
+
+          args.push(
+            parseActionArgs(
+              actionMetadata.name,
+              actionMetadata.schema,
+              schemaArgs
+            )
+          );
+
+          return toActionResult(
+            actionMetadata.name,
+            await actionMetadata.invoke.apply(actionProvider, args)
+          );
+        };
+
         actions.push({
           name: actionMetadata.name,
           description: actionMetadata.description,
+          provider: actionProvider.name,
           schema: actionMetadata.schema,
-          invoke: (schemaArgs) => {
-            const args: unknown[] = [];
-            if (actionMetadata.walletProvider) {
-              args[0] = walletProvider;
-            }
-
-            args.push(schemaArgs);
-
-            return actionMetadata.invoke.apply(actionProvider, args);
-          },
+          metadata: actionMetadata.classification,
+          invoke: async (schemaArgs) =>
+            renderActionResult(await invokeWithResult(schemaArgs)),
+          invokeWithResult,
         });
       }
     }
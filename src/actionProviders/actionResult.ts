@@ -0,0 +1,191 @@
+/**
+ * The outcome of an action invocation.
+ *
+ * - `success`: the action ran, and its transactions (if any) were sent.
+ * - `simulated`: the action ran in dry-run mode, nothing was broadcast.
+ * - `error`: the action did not complete, e.g. a middleware recovered from a failure.
+ */
+export type ActionResultStatus = "success" | "simulated" | "error";
+
+/**
+ * The structured result of an action.
+ */
+export interface ActionResult<TData = unknown> {
+  /**
+   * The qualified name of the action that produced the result, e.g. `erc20.transfer`.
+   */
+  action: string;
+
+  /**
+   * The outcome of the invocation.
+   */
+  status: ActionResultStatus;
+
+  /**
+   * A human readable summary of what happened.
+   */
+  summary: string;
+
+  /**
+   * The machine readable output of the action (amounts, addresses, quotes, ...).
+   */
+  data?: TData;
+
+  /**
+   * The hashes of the transactions the action sent, in order.
+   */
+  txHashes: string[];
+
+  /**
+   * Anything the caller should know about, even though the action completed.
+   */
+  warnings: string[];
+}
+
+/**
+ * Creates an action result.
+ *
+ * @param action - The qualified name of the action.
+ * @param result - The summary and, optionally, the data, tx hashes, warnings and status (defaults to `success`).
+ * @returns The action result.
+ */
+export const createActionResult = <TData = unknown>(
+  action: string,
+  result: Partial<Omit<ActionResult<TData>, "action" | "summary">> & {
+    summary: string;
+  }
+): ActionResult<TData> => ({
+  action,
+  status: result.status ?? "success",
+  summary: result.summary,
+  data: result.data,
+  txHashes: result.txHashes ?? [],
+  warnings: result.warnings ?? [],
+});
+
+/**
+ * Checks whether a value is an action result.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is an action result.
+ */
+export const isActionResult = (value: unknown): value is ActionResult =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as ActionResult).action === "string" &&
+  typeof (value as ActionResult).status === "string" &&
+  typeof (value as ActionResult).summary === "string" &&
+  Array.isArray((value as ActionResult).txHashes);
+
+/**
+ * Converts the output of an action into an action result.
+ *
+ * Actions that still return strings built by `wrapAndStringify` are unwrapped:
+ * a string payload becomes the summary, any other payload becomes the data.
+ * Outputs that are neither strings nor action results become the data. Legacy
+ * actions report failures as summaries starting with "Error", which get the
+ * `error` status.
+ *
+ * @param action - The name to report for outputs that don't carry one.
+ * @param output - The output of the action.
+ * @returns The action result.
+ */
+export const toActionResult = (
+  action: string,
+  output: unknown
+): ActionResult => {
+  if (isActionResult(output)) {
+    return output;
+  }
+
+  if (typeof output !== "string") {
+    return createActionResult(action, { summary: "", data: output });
+  }
+
+  try {
+    const parsed = JSON.parse(output);
+    if (
+      typeof parsed === "object" &&
+      parsed !== null &&
+      typeof parsed.action === "string" &&
+      "data" in parsed
+    ) {
+      return typeof parsed.data === "string"
+        ? fromSummary(parsed.action, parsed.data)
+        : createActionResult(parsed.action, { summary: "", data: parsed.data });
+    }
+  } catch {
+    // Not JSON, the whole output is the summary.
+  }
+
+  return fromSummary(action, output);
+};
+
+/**
+ * Creates the result of a legacy action that returned a summary string.
+ *
+ * @param action - The qualified name of the action.
+ * @param summary - The summary returned by the action.
+ * @returns The action result, with the `error` status if the summary reports an error.
+ */
+const fromSummary = (action: string, summary: string): ActionResult =>
+  createActionResult(action, {
+    summary,
+    status: /^Error\b/.test(summary.trimStart()) ? "error" : "success",
+  });
+
+/**
+ * Renders an action result as a JSON string, e.g. to hand it to an LLM.
+ *
+ * Empty fields are omitted and bigints are rendered as decimal strings.
+ *
+ * @param result - The action result.
+ * @returns The rendered result.
+ */
+export const renderActionResult = (result: ActionResult): string =>
+  JSON.stringify(
+    toJsonValue(
+      {
+        action: result.action,
+        status: result.status,
+        summary: result.summary || undefined,
+        data: result.data,
+        txHashes: result.txHashes.length ? result.txHashes : undefined,
+        warnings: result.warnings.length ? result.warnings : undefined,
+      },
+      new Set()
+    )
+  );
+
+/**
+ * Converts a value into one `JSON.stringify` can render, replacing bigints
+ * with decimal strings and cycles with "[Circular]".
+ *
+ * @param value - The value.
+ * @param ancestors - The objects being converted around the value. An object
+ * referenced twice outside of a cycle is rendered both times.
+ * @returns The converted value.
+ */
+const toJsonValue = (value: unknown, ancestors: Set<object>): unknown => {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value !== "object" || value === null) return value;
+  if (ancestors.has(value)) return "[Circular]";
+
+  const toJSON = (value as { toJSON?: () => unknown }).toJSON;
+  if (typeof toJSON === "function") {
+    return toJsonValue(toJSON.call(value), ancestors);
+  }
+
+  ancestors.add(value);
+  const converted = Array.isArray(value)
+    ? value.map((entry) => toJsonValue(entry, ancestors))
+    : Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [
+          key,
+          toJsonValue(entry, ancestors),
+        ])
+      );
+  ancestors.delete(value);
+
+  return converted;
+};
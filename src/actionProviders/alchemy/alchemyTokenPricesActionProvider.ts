@@ -2,7 +2,11 @@ import { z } from "zod";
 import { ActionProvider } from "../actionProvider";
 import { CreateAction } from "../actionDecorator";
 import { AlchemyTokenPricesBySymbolSchema } from "./schemas";
-import { wrapAndStringify } from "../../common/utils";
+import {
+  FetchFunction,
+  resolveFetch,
+  wrapAndStringify,
+} from "../../common/utils";
 import { handleError } from "../../common/errors";
 
 /**
@@ -13,6 +17,17 @@ export interface AlchemyTokenPricesActionProviderConfig {
    * Alchemy API Key used for authenticating requests to the Alchemy Prices API.
    */
   apiKey?: string;
+
+  /**
+   * Base URL of the Alchemy Prices API, e.g. a proxy or a local stand-in server.
+   * Defaults to `https://api.g.alchemy.com/prices/v1`.
+   */
+  baseUrl?: string;
+
+  /**
+   * The `fetch` implementation used for requests. Defaults to the global `fetch`.
+   */
+  fetch?: FetchFunction;
 }
 
 /**
@@ -22,11 +37,13 @@ export interface AlchemyTokenPricesActionProviderConfig {
 export class AlchemyTokenPricesActionProvider extends ActionProvider {
   private readonly apiKey: string;
   private readonly baseUrl: string;
+  private readonly fetch?: FetchFunction;
 
   /**
    * Creates a new AlchemyTokenPricesActionProvider instance.
    *
-   * @param config - Configuration including the Alchemy API key. Falls back to environment variable.
+   * @param config - Configuration including the Alchemy API key, which falls back to an environment
+   * variable, and optional base URL and `fetch` overrides.
    * @throws If no valid API key is provided via config or environment.
    */
   constructor(config: AlchemyTokenPricesActionProviderConfig = {}) {
@@ -37,7 +54,10 @@ export class AlchemyTokenPricesActionProvider extends ActionProvider {
       throw new Error("ALCHEMY_API_KEY is not configured.");
     }
     this.apiKey = config.apiKey;
-    this.baseUrl = "https://api.g.alchemy.com/prices/v1";
+    this.baseUrl = (
+      config.baseUrl ?? "https://api.g.alchemy.com/prices/v1"
+    ).replace(/\/+$/, "");
+    this.fetch = config.fetch;
   }
 
   /**
@@ -73,6 +93,9 @@ export class AlchemyTokenPricesActionProvider extends ActionProvider {
 	A failure response will return an error message with details.
     `,
     schema: AlchemyTokenPricesBySymbolSchema,
+    mutatesState: false,
+    tags: ["market_data", "prices"],
+    protocol: "alchemy",
   })
   async tokenPricesBySymbol(
     args: z.infer<typeof AlchemyTokenPricesBySymbolSchema>
@@ -86,7 +109,7 @@ export class AlchemyTokenPricesActionProvider extends ActionProvider {
       const url = `${this.baseUrl}/${
         this.apiKey
       }/tokens/by-symbol?${params.toString()}`;
-      const response = await fetch(url, {
+      const response = await resolveFetch(this.fetch)(url, {
         method: "GET",
         headers: {
           Accept: "application/json",
@@ -1,12 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import { z } from "zod";
-import { CreateAction } from "./actionDecorator";
+import { ActionClassification, CreateAction } from "./actionDecorator";
 import { ActionProvider } from "./actionProvider";
 import { Network } from "../network";
 import { WalletProvider } from "../walletProviders";
 
-interface CustomActionProviderOptions<TWalletProvider extends WalletProvider> {
+interface CustomActionProviderOptions<TWalletProvider extends WalletProvider>
+  extends Partial<ActionClassification> {
   name: string;
   description: string;
   schema: z.ZodSchema;
@@ -30,7 +31,9 @@ export class CustomActionProvider<
   constructor(actions: CustomActionProviderOptions<TWalletProvider>[]) {
     super("custom", []);
 
-    actions.forEach(({ name, description, schema, invoke }) => {
+    actions.forEach((action) => {
+      const { name, description, schema, invoke, ...classification } = action;
+
       // Check if the invoke function expects a wallet provider
       const takesWalletProvider = invoke.length === 2;
 
@@ -38,12 +41,10 @@ export class CustomActionProvider<
       Object.defineProperty(CustomActionProvider.prototype, name, {
         value: takesWalletProvider
           ? async function (walletProvider: WalletProvider, args: unknown) {
-              const parsedArgs = schema.parse(args);
-              return await (invoke as any)(walletProvider, parsedArgs);
+              return await (invoke as any)(walletProvider, args);
             }
           : async function (args: unknown) {
-              const parsedArgs = schema.parse(args);
-              return await (invoke as any)(parsedArgs);
+              return await (invoke as any)(args);
             },
         configurable: true,
         writable: true,
@@ -63,6 +64,7 @@ export class CustomActionProvider<
 
       // Apply the decorator using original name
       const decoratedMethod = CreateAction({
+        ...classification,
         name,
         description,
         schema,
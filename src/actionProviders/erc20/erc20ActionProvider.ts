@@ -8,6 +8,7 @@ import { encodeFunctionData, formatUnits, Hex } from "viem";
 import { EvmWalletProvider } from "../../walletProviders";
 import { wrapAndStringify } from "../../common/utils";
 import { handleError } from "../../common/errors";
+import { ActionResult, createActionResult } from "../actionResult";
 
 /**
  * ERC20ActionProvider provides actions to interact with ERC20 tokens such as
@@ -32,6 +33,9 @@ export class ERC20ActionProvider extends ActionProvider<EvmWalletProvider> {
     name: "get_balance",
     description: `This tool will get the balance of an ERC20 asset in the wallet. It takes the contract address as input.`,
     schema: GetBalanceSchema,
+    mutatesState: false,
+    tags: ["token", "balance"],
+    protocol: "erc20",
   })
   async getBalance(
     walletProvider: EvmWalletProvider,
@@ -69,7 +73,7 @@ export class ERC20ActionProvider extends ActionProvider<EvmWalletProvider> {
    *
    * @param walletProvider - The EVM-compatible wallet provider
    * @param args - Contains token contract address, destination, and amount
-   * @returns A success message including transaction hash, or an error message
+   * @returns The result of the transfer, including the transaction hash
    */
   @CreateAction({
     name: "transfer",
@@ -86,11 +90,16 @@ export class ERC20ActionProvider extends ActionProvider<EvmWalletProvider> {
     - When sending native assets (e.g. 'eth' on katana-network), ensure there is sufficient balance for the transfer itself AND the gas cost of this transfer
     `,
     schema: TransferSchema,
+    mutatesState: true,
+    riskLevel: "medium",
+    estimatedCost: "low",
+    tags: ["token", "transfer"],
+    protocol: "erc20",
   })
   async transfer(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof TransferSchema>
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const hash = await walletProvider.sendTransaction({
         to: args.contractAddress as Hex,
@@ -103,10 +112,16 @@ export class ERC20ActionProvider extends ActionProvider<EvmWalletProvider> {
 
       await walletProvider.waitForTransactionReceipt(hash);
 
-      return wrapAndStringify(
-        "erc20.transfer",
-        `Transferred ${args.amount} of ${args.contractAddress} to ${args.destination}.\nTransaction hash for the transfer: ${hash}`
-      );
+      return createActionResult("erc20.transfer", {
+        summary: `Transferred ${args.amount} of ${args.contractAddress} to ${args.destination}.\nTransaction hash for the transfer: ${hash}`,
+        data: {
+          contractAddress: args.contractAddress,
+          destination: args.destination,
+          amount: args.amount,
+          txHash: hash,
+        },
+        txHashes: [hash],
+      });
     } catch (error) {
       throw handleError("Error transferring the asset.", error);
     }
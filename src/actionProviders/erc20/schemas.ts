@@ -5,7 +5,18 @@ import { z } from "zod";
  */
 export const TransferSchema = z
   .object({
-    amount: z.custom<bigint>().describe("The amount of the asset to transfer"),
+    amount: z
+      .custom<bigint>(
+        (value) =>
+          typeof value === "bigint" ||
+          (typeof value === "number" &&
+            Number.isSafeInteger(value) &&
+            value >= 0) ||
+          (typeof value === "string" && /^\d+$/.test(value)),
+        "Must be a whole number of base units, e.g. \"1000000\""
+      )
+      .transform((value) => BigInt(value))
+      .describe("The amount of the asset to transfer, in base units"),
     contractAddress: z
       .string()
       .describe("The contract address of the token to transfer"),
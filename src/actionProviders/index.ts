@@ -1,5 +1,8 @@
 export * from "./actionDecorator";
 export * from "./actionProvider";
+export * from "./actionResult";
+export * from "./actionFilter";
+export * from "./actionArgs";
 
 export * from "./customActionProvider";
 
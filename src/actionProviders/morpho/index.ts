@@ -2,3 +2,4 @@ export * from "./schemas";
 export * from "./morphoReadActionProvider";
 export * from "./morphoWriteActionProvider";
 export * from "./morphoSubgraphActionProvider";
+export type { MorphoApiConfig } from "./utils";
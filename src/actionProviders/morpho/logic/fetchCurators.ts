@@ -1,7 +1,12 @@
 import { createError, ErrorCode, handleError } from "../../../common/errors";
 import { EvmWalletProvider } from "../../../walletProviders";
-import { MORPHO_GRAPH_API_URL, MORPHO_SUPPORTED_SUB_GRAPH } from "../utils";
-import { makeSubgraphQueryCall } from "../../../common/utils";
+import {
+  MorphoApiConfig,
+  MORPHO_SUPPORTED_SUB_GRAPH,
+  morphoApiUrl,
+  queryMorphoApi,
+} from "../utils";
+import { cachedRead } from "../../../cache";
 import { queryCurators } from "../query/morphoAPIQuery";
 
 /**
@@ -9,8 +14,10 @@ import { queryCurators } from "../query/morphoAPIQuery";
  *
  * This function queries the Morpho subgraph and retrieves metadata for each verified
  * or whitelisted curator (such as name, image, state, and verification status).
+ * The list is cached for 5 minutes by default.
  *
  * @param walletProvider - Connected EVM wallet instance.
+ * @param config - Optionally, the Morpho API URL and `fetch` implementation.
  *
  * @returns A Promise resolving to a list of curators with their metadata, or `null` if none found.
  *
@@ -19,7 +26,10 @@ import { queryCurators } from "../query/morphoAPIQuery";
  *  - The network is not supported by the Morpho subgraph.
  *  - The subgraph query fails or returns an invalid response.
  */
-export const fetchCurators = async (walletProvider: EvmWalletProvider) => {
+export const fetchCurators = async (
+  walletProvider: EvmWalletProvider,
+  config: MorphoApiConfig = {}
+) => {
   try {
     const network = walletProvider.getNetwork();
     const chainId = network.chainId;
@@ -35,9 +45,10 @@ export const fetchCurators = async (walletProvider: EvmWalletProvider) => {
       throw createError("Network not supported!", ErrorCode.INVALID_NETWORK);
     }
 
-    const response = await makeSubgraphQueryCall(
-      MORPHO_GRAPH_API_URL,
-      queryCurators({ chainId: Number(chainId) })
+    const response = await cachedRead(
+      "morphoListings",
+      `${morphoApiUrl(config)}:curators:${chainId}`,
+      () => queryMorphoApi(config, queryCurators({ chainId: Number(chainId) }))
     );
 
     if (!response || !response.curators) {
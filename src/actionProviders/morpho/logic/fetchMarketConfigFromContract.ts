@@ -3,8 +3,9 @@ import { EvmWalletProvider } from "../../../walletProviders";
 import { GetMarketInfoSchema } from "../schemas";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
 import { getMorphoBlueContractAddress } from "../utils";
-import { Hex } from "viem";
+import { Hex, isAddressEqual, zeroAddress } from "viem";
 import { MORPHO_BLUE_ABI } from "../abi/morphoBlueABI";
+import { cachedRead } from "../../../cache";
 
 /**
  * Fetches detailed market information for a given Morpho Blue market ID.
@@ -13,6 +14,8 @@ import { MORPHO_BLUE_ABI } from "../abi/morphoBlueABI";
  * using the provided EVM wallet provider to read the market parameters associated with
  * the specified `marketId`. These parameters include the loan token address, collateral
  * token address, oracle, interest rate model (IRM), and loan-to-value ratio (LLTV).
+ * Market params never change once a market is created, so they are cached permanently
+ * by default. Unknown markets are not cached.
  *
  * @param walletProvider - An instance of {@link EvmWalletProvider} connected to the user's wallet.
  * @param args - An object validated by {@link GetMarketInfoSchema}, containing:
@@ -49,12 +52,18 @@ export const fetchMarketConfigFromContract = async (
       Number(chainId)
     ) as Hex;
 
-    const marketResponse = await walletProvider.readContract({
-      address: morphoBlueContractAddress,
-      abi: MORPHO_BLUE_ABI,
-      functionName: "idToMarketParams",
-      args: [args.marketId],
-    });
+    const marketResponse = await cachedRead(
+      "morphoMarketParams",
+      `${chainId}:${args.marketId.toLowerCase()}`,
+      () =>
+        walletProvider.readContract({
+          address: morphoBlueContractAddress,
+          abi: MORPHO_BLUE_ABI,
+          functionName: "idToMarketParams",
+          args: [args.marketId],
+        }),
+      (params) => !!params && !isAddressEqual(params[0], zeroAddress)
+    );
 
     if (!marketResponse) {
       throw createError(
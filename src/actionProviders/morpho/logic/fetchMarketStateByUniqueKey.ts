@@ -2,8 +2,14 @@ import { z } from "zod";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
 import { EvmWalletProvider } from "../../../walletProviders";
 import { MarketStateByUniqueKeySchema } from "../schemas";
-import { MORPHO_GRAPH_API_URL, MORPHO_SUPPORTED_SUB_GRAPH } from "../utils";
-import { makeSubgraphQueryCall } from "../../../common/utils";
+import {
+  MorphoApiConfig,
+  MORPHO_SUPPORTED_SUB_GRAPH,
+  morphoApiUrl,
+  nullIfNotFound,
+  queryMorphoApi,
+} from "../utils";
+import { cachedRead } from "../../../cache";
 import { queryMarketStateByUniqueKey } from "../query/morphoAPIQuery";
 
 /**
@@ -11,9 +17,11 @@ import { queryMarketStateByUniqueKey } from "../query/morphoAPIQuery";
  *
  * This function queries the Morpho subgraph to retrieve the current market state
  * (liquidity, borrow/supply stats, APYs, etc.) associated with the provided `uniqueKey`.
+ * The state is cached for 30 seconds by default.
  *
  * @param walletProvider - Connected EVM wallet instance.
  * @param args - Object containing a valid `uniqueKey` (bytes32) to identify the market.
+ * @param config - Optionally, the Morpho API URL and `fetch` implementation.
  *
  * @returns A Promise resolving to the state of the specified market,
  *          or `null` if the market is not found or has no recorded state.
@@ -25,7 +33,8 @@ import { queryMarketStateByUniqueKey } from "../query/morphoAPIQuery";
  */
 export const fetchMarketStateByUniqueKey = async (
   walletProvider: EvmWalletProvider,
-  args: z.infer<typeof MarketStateByUniqueKeySchema>
+  args: z.infer<typeof MarketStateByUniqueKeySchema>,
+  config: MorphoApiConfig = {}
 ) => {
   try {
     const network = walletProvider.getNetwork();
@@ -42,12 +51,17 @@ export const fetchMarketStateByUniqueKey = async (
       throw createError("Network not supported!", ErrorCode.INVALID_NETWORK);
     }
 
-    const response = await makeSubgraphQueryCall(
-      MORPHO_GRAPH_API_URL,
-      queryMarketStateByUniqueKey({
-        chainId: Number(chainId),
-        uniqueKey: args.uniqueKey,
-      })
+    const response = await cachedRead(
+      "morphoMarketState",
+      `${morphoApiUrl(config)}:${chainId}:${args.uniqueKey.toLowerCase()}`,
+      () =>
+        queryMorphoApi(
+          config,
+          queryMarketStateByUniqueKey({
+            chainId: Number(chainId),
+            uniqueKey: args.uniqueKey,
+          })
+        ).catch(nullIfNotFound)
     );
 
     if (!response || !response.marketByUniqueKey) {
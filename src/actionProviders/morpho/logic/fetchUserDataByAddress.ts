@@ -1,8 +1,12 @@
 import { createError, ErrorCode, handleError } from "../../../common/errors";
-import { makeSubgraphQueryCall } from "../../../common/utils";
 import { EvmWalletProvider } from "../../../walletProviders";
 import { queryUserDataByAddress } from "../query/morphoAPIQuery";
-import { MORPHO_GRAPH_API_URL, MORPHO_SUPPORTED_SUB_GRAPH } from "../utils";
+import {
+  MorphoApiConfig,
+  MORPHO_SUPPORTED_SUB_GRAPH,
+  nullIfNotFound,
+  queryMorphoApi,
+} from "../utils";
 
 /**
  * Fetches Morpho Blue user data (positions, vaults, and transactions) by wallet address.
@@ -16,6 +20,7 @@ import { MORPHO_GRAPH_API_URL, MORPHO_SUPPORTED_SUB_GRAPH } from "../utils";
  * - Transaction history
  *
  * @param walletProvider - The connected EVM wallet provider instance.
+ * @param config - Optionally, the Morpho API URL and `fetch` implementation.
  *
  * @returns A user object from the subgraph including positions and transactions,
  *          or `null` if the user has no data or address is not found.
@@ -26,7 +31,8 @@ import { MORPHO_GRAPH_API_URL, MORPHO_SUPPORTED_SUB_GRAPH } from "../utils";
  *  - The subgraph query fails or returns invalid data.
  */
 export const fetchUserDataByAddress = async (
-  walletProvider: EvmWalletProvider
+  walletProvider: EvmWalletProvider,
+  config: MorphoApiConfig = {}
 ) => {
   try {
     const network = walletProvider.getNetwork();
@@ -43,13 +49,13 @@ export const fetchUserDataByAddress = async (
       throw createError("Network not supported!", ErrorCode.INVALID_NETWORK);
     }
 
-    const response = await makeSubgraphQueryCall(
-      MORPHO_GRAPH_API_URL,
+    const response = await queryMorphoApi(
+      config,
       queryUserDataByAddress({
         chainId: Number(chainId),
         address: walletProvider.getAddress(),
       })
-    );
+    ).catch(nullIfNotFound);
 
     if (!response || !response.userByAddress) {
       return null;
@@ -2,8 +2,13 @@ import { z } from "zod";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
 import { ActiveMarketsQuerySchema } from "../schemas";
 import { EvmWalletProvider } from "../../../walletProviders";
-import { MORPHO_GRAPH_API_URL, MORPHO_SUPPORTED_SUB_GRAPH } from "../utils";
-import { makeSubgraphQueryCall } from "../../../common/utils";
+import {
+  MorphoApiConfig,
+  MORPHO_SUPPORTED_SUB_GRAPH,
+  morphoApiUrl,
+  queryMorphoApi,
+} from "../utils";
+import { cachedRead } from "../../../cache";
 import { queryWhitelistedMarkets } from "../query/morphoAPIQuery";
 
 /**
@@ -11,11 +16,13 @@ import { queryWhitelistedMarkets } from "../query/morphoAPIQuery";
  *
  * This function queries the Morpho Blue subgraph for all active and whitelisted markets,
  * ordered by borrow APY (descending), using the provided pagination parameters.
+ * Each page is cached for 5 minutes by default.
  *
  * @param walletProvider - The connected EVM wallet provider instance.
  * @param args - An object conforming to `ActiveMarketsQuerySchema`:
  *   - `skip`: Number of items to skip for pagination.
  *   - `first`: Number of items to fetch (limit).
+ * @param config - Optionally, the Morpho API URL and `fetch` implementation.
  *
  * @returns A list of whitelisted Morpho Blue market objects if available, or `null` if none found.
  *
@@ -26,7 +33,8 @@ import { queryWhitelistedMarkets } from "../query/morphoAPIQuery";
  */
 export const fetchWhitelistedMarkets = async (
   walletProvider: EvmWalletProvider,
-  args: z.infer<typeof ActiveMarketsQuerySchema>
+  args: z.infer<typeof ActiveMarketsQuerySchema>,
+  config: MorphoApiConfig = {}
 ) => {
   try {
     const network = walletProvider.getNetwork();
@@ -43,13 +51,18 @@ export const fetchWhitelistedMarkets = async (
       throw createError("Network not supported!", ErrorCode.INVALID_NETWORK);
     }
 
-    const response = await makeSubgraphQueryCall(
-      MORPHO_GRAPH_API_URL,
-      queryWhitelistedMarkets({
-        chainId: Number(chainId),
-        first: args.first,
-        skip: args.skip,
-      })
+    const response = await cachedRead(
+      "morphoListings",
+      `${morphoApiUrl(config)}:markets:${chainId}:${args.skip}:${args.first}`,
+      () =>
+        queryMorphoApi(
+          config,
+          queryWhitelistedMarkets({
+            chainId: Number(chainId),
+            first: args.first,
+            skip: args.skip,
+          })
+        )
     );
 
     if (!response || !response.markets) {
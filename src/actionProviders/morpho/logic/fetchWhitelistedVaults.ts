@@ -2,8 +2,13 @@ import { z } from "zod";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
 import { EvmWalletProvider } from "../../../walletProviders";
 import { WhitelistedVaultsQuerySchema } from "../schemas";
-import { MORPHO_GRAPH_API_URL, MORPHO_SUPPORTED_SUB_GRAPH } from "../utils";
-import { makeSubgraphQueryCall } from "../../../common/utils";
+import {
+  MorphoApiConfig,
+  MORPHO_SUPPORTED_SUB_GRAPH,
+  morphoApiUrl,
+  queryMorphoApi,
+} from "../utils";
+import { cachedRead } from "../../../cache";
 import { queryWhitelistedVaults } from "../query/morphoAPIQuery";
 
 /**
@@ -11,12 +16,14 @@ import { queryWhitelistedVaults } from "../query/morphoAPIQuery";
  *
  * This function queries the Morpho Blue subgraph for vaults that are flagged as `whitelisted`,
  * ordered by total assets in USD (descending), using pagination inputs `skip` and `first`.
+ * Each page is cached for 5 minutes by default.
  *
  * @param walletProvider - The EVM wallet provider instance to determine the connected chain/network.
  * @param args - An object validated by `WhitelistedVaultsQuerySchema` containing:
  *  - `skip`: Number of items to skip for pagination.
  *  - `first`: Number of items to fetch (limit).
  *  - `chainId`: Chain ID to query the appropriate subgraph.
+ * @param config - Optionally, the Morpho API URL and `fetch` implementation.
  *
  * @returns A list of whitelisted vault objects if available, or `null` if no vaults are found.
  *
@@ -27,7 +34,8 @@ import { queryWhitelistedVaults } from "../query/morphoAPIQuery";
  */
 export const fetchWhitelistedVaults = async (
   walletProvider: EvmWalletProvider,
-  args: z.infer<typeof WhitelistedVaultsQuerySchema>
+  args: z.infer<typeof WhitelistedVaultsQuerySchema>,
+  config: MorphoApiConfig = {}
 ) => {
   try {
     const network = walletProvider.getNetwork();
@@ -44,13 +52,18 @@ export const fetchWhitelistedVaults = async (
       throw createError("Network not supported!", ErrorCode.INVALID_NETWORK);
     }
 
-    const response = await makeSubgraphQueryCall(
-      MORPHO_GRAPH_API_URL,
-      queryWhitelistedVaults({
-        chainId: Number(chainId),
-        first: args.first,
-        skip: args.skip,
-      })
+    const response = await cachedRead(
+      "morphoListings",
+      `${morphoApiUrl(config)}:vaults:${chainId}:${args.skip}:${args.first}`,
+      () =>
+        queryMorphoApi(
+          config,
+          queryWhitelistedVaults({
+            chainId: Number(chainId),
+            first: args.first,
+            skip: args.skip,
+          })
+        )
     );
 
     if (!response || !response.vaults) {
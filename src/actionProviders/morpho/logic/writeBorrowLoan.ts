@@ -1,12 +1,12 @@
 import { z } from "zod";
 import { EvmWalletProvider } from "../../../walletProviders";
-import { abi as ERC20_ABI } from "../../erc20/constants";
 import { BorrowSchema } from "../schemas";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
 import Decimal from "decimal.js";
 import { fetchMarketConfigFromContract } from "./fetchMarketConfigFromContract";
 import { encodeFunctionData, parseUnits } from "viem";
 import { MORPHO_BLUE_ABI } from "../abi/morphoBlueABI";
+import { tokenDecimals } from "../../../utils";
 
 /**
  * Borrows a specified amount of loanToken from a Morpho Blue market using the connected wallet.
@@ -63,12 +63,7 @@ export const writeBorrowLoan = async (
 
     const loanToken = marketResponse.loanToken;
 
-    const decimals = await walletProvider.readContract({
-      address: loanToken,
-      abi: ERC20_ABI,
-      functionName: "decimals",
-      args: [],
-    });
+    const decimals = await tokenDecimals(walletProvider, loanToken);
 
     const atomicAssets = parseUnits(args.assets, decimals);
 
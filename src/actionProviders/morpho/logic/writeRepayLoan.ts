@@ -1,12 +1,11 @@
 import { z } from "zod";
 import { EvmWalletProvider } from "../../../walletProviders";
-import { abi as ERC20_ABI } from "../../erc20/constants";
 import { RepaySchema } from "../schemas";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
 import { fetchMarketConfigFromContract } from "./fetchMarketConfigFromContract";
 import Decimal from "decimal.js";
 import { encodeFunctionData, parseUnits } from "viem";
-import { allowance, approve } from "../../../utils";
+import { allowance, approve, tokenDecimals } from "../../../utils";
 import { MORPHO_BLUE_ABI } from "../abi/morphoBlueABI";
 
 /**
@@ -63,12 +62,7 @@ export const writeRepayLoan = async (
 
     const loanToken = marketResponse.loanToken;
 
-    const decimals = await walletProvider.readContract({
-      address: loanToken,
-      abi: ERC20_ABI,
-      functionName: "decimals",
-      args: [],
-    });
+    const decimals = await tokenDecimals(walletProvider, loanToken);
     const atomicAssets = parseUnits(args.assets, decimals);
 
     const currentAllowance = await allowance(
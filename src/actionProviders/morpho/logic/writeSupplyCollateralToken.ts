@@ -1,13 +1,12 @@
 import { z } from "zod";
 import { EvmWalletProvider } from "../../../walletProviders";
-import { abi as ERC20_ABI } from "../../erc20/constants";
 import { SupplyCollateralSchema } from "../schemas";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
 import Decimal from "decimal.js";
 import { fetchMarketConfigFromContract } from "./fetchMarketConfigFromContract";
 import { MORPHO_BLUE_ABI } from "../abi/morphoBlueABI";
 import { encodeFunctionData, parseUnits } from "viem";
-import { allowance, approve } from "../../../utils";
+import { allowance, approve, tokenDecimals } from "../../../utils";
 
 /**
  * Supplies a specified amount of collateralToken into a Morpho Blue market using the connected wallet.
@@ -65,12 +64,7 @@ export const writeSupplyCollateralToken = async (
 
     const collateralToken = marketResponse.collateralToken;
 
-    const decimals = await walletProvider.readContract({
-      address: collateralToken,
-      abi: ERC20_ABI,
-      functionName: "decimals",
-      args: [],
-    });
+    const decimals = await tokenDecimals(walletProvider, collateralToken);
     const atomicAssets = parseUnits(args.assets, decimals);
 
     const currentAllowance = await allowance(
@@ -1,12 +1,12 @@
 import { z } from "zod";
 import { EvmWalletProvider } from "../../../walletProviders";
-import { abi as ERC20_ABI } from "../../erc20/constants";
 import { WithdrawSchema } from "../schemas";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
 import Decimal from "decimal.js";
 import { fetchMarketConfigFromContract } from "./fetchMarketConfigFromContract";
 import { encodeFunctionData, parseUnits } from "viem";
 import { MORPHO_BLUE_ABI } from "../abi/morphoBlueABI";
+import { tokenDecimals } from "../../../utils";
 
 /**
  * Withdraws a specified amount of previously supplied loanToken from a Morpho Blue market.
@@ -62,12 +62,7 @@ export const writeWithdrawLoanToken = async (
 
     const loanToken = marketResponse.loanToken;
 
-    const decimals = await walletProvider.readContract({
-      address: loanToken,
-      abi: ERC20_ABI,
-      functionName: "decimals",
-      args: [],
-    });
+    const decimals = await tokenDecimals(walletProvider, loanToken);
     const atomicAssets = parseUnits(args.assets, decimals);
 
     const data = encodeFunctionData({
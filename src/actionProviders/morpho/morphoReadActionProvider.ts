@@ -59,6 +59,9 @@ export class MorphoReadActionProvider extends ActionProvider<EvmWalletProvider>
     0x10b2d9edc87a5b62f8a6ac3a274b248e7219060d594617c41147c1ef116faee3
   `,
     schema: GetMarketInfoSchema,
+    mutatesState: false,
+    tags: ["lending", "market_data"],
+    protocol: "morpho",
   })
   async fetchMarketConfig(
     walletProvider: EvmWalletProvider,
@@ -126,6 +129,9 @@ export class MorphoReadActionProvider extends ActionProvider<EvmWalletProvider>
     0x10b2d9edc87a5b62f8a6ac3a274b248e7219060d594617c41147c1ef116faee3
   `,
     schema: GetMarketInfoSchema,
+    mutatesState: false,
+    tags: ["lending", "portfolio"],
+    protocol: "morpho",
   })
   async fetchWalletPosition(
     walletProvider: EvmWalletProvider,
@@ -198,6 +204,9 @@ export class MorphoReadActionProvider extends ActionProvider<EvmWalletProvider>
     0x10b2d9edc87a5b62f8a6ac3a274b248e7219060d594617c41147c1ef116faee3
   `,
     schema: GetMarketInfoSchema,
+    mutatesState: false,
+    tags: ["lending", "market_data"],
+    protocol: "morpho",
   })
   async fetchMarketState(
     walletProvider: EvmWalletProvider,
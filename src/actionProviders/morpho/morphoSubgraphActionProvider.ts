@@ -3,7 +3,7 @@ import { CreateAction } from "../actionDecorator";
 import { ActionProvider } from "../actionProvider";
 import { EvmWalletProvider } from "../../walletProviders";
 import { Network } from "../../network";
-import { MORPHO_SUPPORTED_SUB_GRAPH } from "./utils";
+import { MorphoApiConfig, MORPHO_SUPPORTED_SUB_GRAPH } from "./utils";
 import {
   ActiveMarketsQuerySchema,
   CuratorsQuerySchema,
@@ -24,11 +24,16 @@ import { fetchCurators } from "./logic/fetchCurators";
  * Includes interest rates, active markets, and account-level data queries.
  */
 export class MorphoSubgraphActionProvider extends ActionProvider<EvmWalletProvider> {
+  private readonly config: MorphoApiConfig;
+
   /**
    * Initializes the Morpho Subgraph Action Provider
+   *
+   * @param config - Optionally, the Morpho API URL and request options.
    */
-  constructor() {
+  constructor(config: MorphoApiConfig = {}) {
     super("morpho.subgraph", []);
+    this.config = config;
   }
 
   /**
@@ -67,13 +72,20 @@ export class MorphoSubgraphActionProvider extends ActionProvider<EvmWalletProvid
     - Utilization metrics, TVL, and APR rewards
   `,
     schema: ActiveMarketsQuerySchema,
+    mutatesState: false,
+    tags: ["lending", "market_data"],
+    protocol: "morpho",
   })
   async getActiveMarkets(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof ActiveMarketsQuerySchema>
   ): Promise<string> {
     try {
-      const response = await fetchWhitelistedMarkets(walletProvider, args);
+      const response = await fetchWhitelistedMarkets(
+        walletProvider,
+        args,
+        this.config
+      );
       return wrapAndStringify("morpho.subgraph.get_active_markets", response);
     } catch (error) {
       throw handleError("Error fetching Morpho markets", error);
@@ -110,13 +122,20 @@ export class MorphoSubgraphActionProvider extends ActionProvider<EvmWalletProvid
     - Whitelist and verification status
   `,
     schema: WhitelistedVaultsQuerySchema,
+    mutatesState: false,
+    tags: ["lending", "market_data"],
+    protocol: "morpho",
   })
   async getWhitelistedVaults(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof WhitelistedVaultsQuerySchema>
   ): Promise<string> {
     try {
-      const response = await fetchWhitelistedVaults(walletProvider, args);
+      const response = await fetchWhitelistedVaults(
+        walletProvider,
+        args,
+        this.config
+      );
       return wrapAndStringify(
         "morpho.subgraph.get_whitelisted_vaults",
         response
@@ -154,13 +173,20 @@ export class MorphoSubgraphActionProvider extends ActionProvider<EvmWalletProvid
     - Reward rates (APR)
   `,
     schema: MarketStateByUniqueKeySchema,
+    mutatesState: false,
+    tags: ["lending", "market_data"],
+    protocol: "morpho",
   })
   async getMarketStateByUniqueKey(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof MarketStateByUniqueKeySchema>
   ): Promise<string> {
     try {
-      const response = await fetchMarketStateByUniqueKey(walletProvider, args);
+      const response = await fetchMarketStateByUniqueKey(
+        walletProvider,
+        args,
+        this.config
+      );
       return wrapAndStringify(
         "morpho.subgraph.get_market_state_by_unique_key",
         response
@@ -195,12 +221,18 @@ export class MorphoSubgraphActionProvider extends ActionProvider<EvmWalletProvid
     - Recent transaction history (hash, type, timestamp)
   `,
     schema: UserDataQuerySchema,
+    mutatesState: false,
+    tags: ["lending", "portfolio"],
+    protocol: "morpho",
   })
   async getUserPortfolioData(
     walletProvider: EvmWalletProvider
   ): Promise<string> {
     try {
-      const response = await fetchUserDataByAddress(walletProvider);
+      const response = await fetchUserDataByAddress(
+        walletProvider,
+        this.config
+      );
       return wrapAndStringify(
         "morpho.subgraph.get_user_portfolio_data",
         response
@@ -235,10 +267,13 @@ export class MorphoSubgraphActionProvider extends ActionProvider<EvmWalletProvid
     - Verification status
   `,
     schema: CuratorsQuerySchema,
+    mutatesState: false,
+    tags: ["lending", "market_data"],
+    protocol: "morpho",
   })
   async getCurators(walletProvider: EvmWalletProvider): Promise<string> {
     try {
-      const response = await fetchCurators(walletProvider);
+      const response = await fetchCurators(walletProvider, this.config);
       return wrapAndStringify("morpho.subgraph.get_curators", response);
     } catch (error) {
       throw handleError("Error fetching curators", error);
@@ -250,5 +285,5 @@ export class MorphoSubgraphActionProvider extends ActionProvider<EvmWalletProvid
     MORPHO_SUPPORTED_SUB_GRAPH.includes(network.networkId!);
 }
 
-export const morphoSubgraphActionProvider = () =>
-  new MorphoSubgraphActionProvider();
+export const morphoSubgraphActionProvider = (config?: MorphoApiConfig) =>
+  new MorphoSubgraphActionProvider(config);
@@ -1,3 +1,4 @@
+import { TransactionReceipt } from "viem";
 import { z } from "zod";
 import { CreateAction } from "../actionDecorator";
 import { ActionProvider } from "../actionProvider";
@@ -12,9 +13,8 @@ import {
   WithdrawSchema,
 } from "./schemas";
 import { handleError } from "../../common/errors";
-import { objectToString } from "../../common/utils/objectToString";
 import { MORPHO_SUPPORTED_PROTOCOL } from "./utils";
-import { wrapAndStringify } from "../../common/utils";
+import { ActionResult, createActionResult } from "../actionResult";
 import {
   writeBorrowLoan,
   writeRepayLoan,
@@ -24,6 +24,18 @@ import {
   writeWithdrawLoanToken,
 } from "./logic";
 
+/**
+ * Picks the receipt fields worth reporting from a transaction receipt.
+ *
+ * @param receipt - The transaction receipt.
+ * @returns The status, block number and gas used of the transaction.
+ */
+const summarizeReceipt = (receipt: TransactionReceipt) => ({
+  status: receipt.status,
+  blockNumber: receipt.blockNumber,
+  gasUsed: receipt.gasUsed,
+});
+
 /**
  * MorphoWriteActionProvider is an action provider to write into Morpho Vault.
  */
@@ -44,7 +56,7 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
    *   - marketId: The unique bytes32 identifier for the Morpho market.
    *   - assets: The amount of loanToken to be supplied, provided as a decimal string (e.g., "1.0", "0.5").
    *
-   * @returns A string summarizing the transaction, including the hash and receipt.
+   * @returns The result of the transaction, including the hash and the receipt status.
    *
    * @throws Will throw an error if:
    *   - The asset amount is zero or negative.
@@ -70,22 +82,34 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
     - Make sure to use the exact amount provided. Do not convert units for assets for this action.
     - Please use a market id (example 0x65086b4f89ea71ea533af56a6b4075e0f16a52879e17b091f6658a18d96177e5) for the marketId field.`,
     schema: SupplySchema,
+    mutatesState: true,
+    riskLevel: "medium",
+    estimatedCost: "medium",
+    tags: ["lending", "supply"],
+    protocol: "morpho",
   })
   async supplyLoanAsset(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof SupplySchema>
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const response = await writeSupplyLoanToken(walletProvider, args);
 
-      return wrapAndStringify(
-        "morpho.write_action.supply_loan_asset",
-        `Deposited ${args.assets} tokens (loanToken: ${
+      return createActionResult("morpho.write_action.supply_loan_asset", {
+        summary: `Deposited ${args.assets} tokens (loanToken: ${
           response.loanToken
         }) to Morpho Market Id ${args.marketId} with transaction hash: ${
           response.txHash
-        }\nTransaction receipt: ${objectToString(response.receipt)}`
-      );
+        }`,
+        data: {
+          marketId: args.marketId,
+          loanToken: response.loanToken,
+          assets: args.assets,
+          txHash: response.txHash,
+          receipt: summarizeReceipt(response.receipt),
+        },
+        txHashes: [response.txHash],
+      });
     } catch (error) {
       throw handleError("Error supplying loan token to Morpho Vault", error);
     }
@@ -99,7 +123,7 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
    *   - marketId: The unique bytes32 identifier for the Morpho market.
    *   - assets: The amount of loanToken to be withdrawn, provided as a decimal string.
    *
-   * @returns A string summarizing the transaction, including the hash and receipt.
+   * @returns The result of the transaction, including the hash and the receipt status.
    *
    * @throws Will throw an error if:
    *   - The asset amount is zero or negative.
@@ -127,22 +151,34 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
     - Please use a valid market ID (example: 0x65086b4f89ea71ea533af56a6b4075e0f16a52879e17b091f6658a18d96177e5).
   `,
     schema: WithdrawSchema, // You may want to rename this to `WithdrawSchema` if it's a different zod schema
+    mutatesState: true,
+    riskLevel: "medium",
+    estimatedCost: "low",
+    tags: ["lending", "withdraw"],
+    protocol: "morpho",
   })
   async withdrawLoanAsset(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof WithdrawSchema> // Change to WithdrawSchema if separate
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const response = await writeWithdrawLoanToken(walletProvider, args);
 
-      return wrapAndStringify(
-        "morpho.write_action.withdraw_loan_asset",
-        `Withdrew  ${args.assets} tokens (loanToken: ${
+      return createActionResult("morpho.write_action.withdraw_loan_asset", {
+        summary: `Withdrew  ${args.assets} tokens (loanToken: ${
           response.loanToken
         }) from Morpho Market ID ${args.marketId} with transaction hash: ${
           response.txHash
-        }\nTransaction receipt: ${objectToString(response.receipt)}`
-      );
+        }`,
+        data: {
+          marketId: args.marketId,
+          loanToken: response.loanToken,
+          assets: args.assets,
+          txHash: response.txHash,
+          receipt: summarizeReceipt(response.receipt),
+        },
+        txHashes: [response.txHash],
+      });
     } catch (error) {
       throw handleError("Error withdrawing from Morpho Vault", error);
     }
@@ -156,7 +192,7 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
    *   - marketId: The unique bytes32 identifier for the Morpho market.
    *   - assets: The amount of collateralToken to be supplied, provided as a decimal string.
    *
-   * @returns A string summarizing the transaction, including the hash and receipt.
+   * @returns The result of the transaction, including the hash and the receipt status.
    *
    * @throws Will throw an error if:
    *   - The asset amount is zero or negative.
@@ -182,21 +218,36 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
     - Make sure to use the exact amount provided. Do not convert units for assets for this action.
     - Please use a market id (example 0x65086b4f89ea71ea533af56a6b4075e0f16a52879e17b091f6658a18d96177e5) for the marketId field.`,
     schema: SupplyCollateralSchema,
+    mutatesState: true,
+    riskLevel: "medium",
+    estimatedCost: "medium",
+    tags: ["lending", "collateral", "supply"],
+    protocol: "morpho",
   })
   async supplyCollateralLoanAsset(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof SupplyCollateralSchema>
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const response = await writeSupplyCollateralToken(walletProvider, args);
 
-      return wrapAndStringify(
+      return createActionResult(
         "morpho.write_action.supply_collateral_loan_asset",
-        `Supplied collateral ${args.assets} tokens (loanToken: ${
-          response.collateralToken
-        }) to Morpho Market Id ${args.marketId} with transaction hash: ${
-          response.txHash
-        }\nTransaction receipt: ${objectToString(response.receipt)}`
+        {
+          summary: `Supplied collateral ${args.assets} tokens (loanToken: ${
+            response.collateralToken
+          }) to Morpho Market Id ${args.marketId} with transaction hash: ${
+            response.txHash
+          }`,
+          data: {
+            marketId: args.marketId,
+            collateralToken: response.collateralToken,
+            assets: args.assets,
+            txHash: response.txHash,
+            receipt: summarizeReceipt(response.receipt),
+          },
+          txHashes: [response.txHash],
+        }
       );
     } catch (error) {
       throw handleError("Error supplying collateral to Morpho Vault", error);
@@ -211,7 +262,7 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
    *   - marketId: The unique bytes32 identifier for the Morpho market.
    *   - assets: The amount of collateralToken to be withdrawn, provided as a decimal string.
    *
-   * @returns A string summarizing the transaction, including the hash and receipt.
+   * @returns The result of the transaction, including the hash and the receipt status.
    *
    * @throws Will throw an error if:
    *   - The asset amount is zero or negative.
@@ -239,21 +290,39 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
     - Please use a valid market ID (example: 0x65086b4f89ea71ea533af56a6b4075e0f16a52879e17b091f6658a18d96177e5).
   `,
     schema: WithdrawCollateralSchema, // You may want to rename this to `WithdrawSchema` if it's a different zod schema
+    mutatesState: true,
+    riskLevel: "high",
+    requiresApproval: true,
+    estimatedCost: "low",
+    tags: ["lending", "collateral", "withdraw"],
+    protocol: "morpho",
   })
   async withdrawCollateralLoanAsset(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof WithdrawCollateralSchema> // Change to WithdrawSchema if separate
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const response = await writeWithdrawCollateralToken(walletProvider, args);
 
-      return wrapAndStringify(
+      return createActionResult(
         "morpho.write_action.withdraw_collateral_loan_asset",
-        `Withdrew collateral ${args.assets} tokens (collateralToken: ${
-          response.collateralToken
-        }) from Morpho Market ID ${args.marketId} with transaction hash: ${
-          response.txHash
-        }\nTransaction receipt: ${objectToString(response.receipt)}`
+        {
+          summary: `Withdrew collateral ${
+            args.assets
+          } tokens (collateralToken: ${
+            response.collateralToken
+          }) from Morpho Market ID ${args.marketId} with transaction hash: ${
+            response.txHash
+          }`,
+          data: {
+            marketId: args.marketId,
+            collateralToken: response.collateralToken,
+            assets: args.assets,
+            txHash: response.txHash,
+            receipt: summarizeReceipt(response.receipt),
+          },
+          txHashes: [response.txHash],
+        }
       );
     } catch (error) {
       throw handleError(
@@ -271,7 +340,7 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
    *   - marketId: The unique bytes32 identifier for the Morpho market.
    *   - assets: The amount of loanToken to be borrowed, provided as a decimal string.
    *
-   * @returns A string summarizing the transaction, including the hash and receipt.
+   * @returns The result of the transaction, including the hash and the receipt status.
    *
    * @throws Will throw an error if:
    *   - The asset amount is zero or negative.
@@ -298,22 +367,35 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
     - You pass a valid marketId (e.g. 0x65086b4f89ea71ea533af56a6b4075e0f16a52879e17b091f6658a18d96177e5).
   `,
     schema: BorrowSchema,
+    mutatesState: true,
+    riskLevel: "high",
+    requiresApproval: true,
+    estimatedCost: "low",
+    tags: ["lending", "borrow"],
+    protocol: "morpho",
   })
   async borrowLoanAsset(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof BorrowSchema>
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const response = await writeBorrowLoan(walletProvider, args);
 
-      return wrapAndStringify(
-        "morpho.write_action.borrow_loan_asset",
-        `Borrowed ${args.assets} tokens (loanToken: ${
+      return createActionResult("morpho.write_action.borrow_loan_asset", {
+        summary: `Borrowed ${args.assets} tokens (loanToken: ${
           response.loanToken
         }) from Morpho Market ID ${args.marketId} with transaction hash: ${
           response.txHash
-        }\nTransaction receipt: ${objectToString(response.receipt)}`
-      );
+        }`,
+        data: {
+          marketId: args.marketId,
+          loanToken: response.loanToken,
+          assets: args.assets,
+          txHash: response.txHash,
+          receipt: summarizeReceipt(response.receipt),
+        },
+        txHashes: [response.txHash],
+      });
     } catch (error) {
       throw handleError("Error borrowing from Morpho Vault", error);
     }
@@ -327,7 +409,7 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
    *   - marketId: The unique bytes32 identifier for the Morpho market.
    *   - assets: The amount of loanToken to be repaid, provided as a decimal string.
    *
-   * @returns A string summarizing the transaction, including the hash and receipt.
+   * @returns The result of the transaction, including the hash and the receipt status.
    *
    * @throws Will throw an error if:
    *   - The asset amount is zero or negative.
@@ -350,22 +432,34 @@ export class MorphoWriteActionProvider extends ActionProvider<EvmWalletProvider>
     - Example marketId: 0x65086b4f89ea71ea533af56a6b4075e0f16a52879e17b091f6658a18d96177e5
   `,
     schema: RepaySchema,
+    mutatesState: true,
+    riskLevel: "medium",
+    estimatedCost: "medium",
+    tags: ["lending", "repay"],
+    protocol: "morpho",
   })
   async repay(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof RepaySchema>
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const response = await writeRepayLoan(walletProvider, args);
 
-      return wrapAndStringify(
-        "morpho.write_action.repay_loan_asset",
-        `Repaid ${args.assets} of tokens (loanToken: ${
+      return createActionResult("morpho.write_action.repay_loan_asset", {
+        summary: `Repaid ${args.assets} of tokens (loanToken: ${
           response.loanToken
         }) from Morpho Market ID ${args.marketId} with transaction hash: ${
           response.txHash
-        }\nTransaction receipt: ${objectToString(response.receipt)}`
-      );
+        }`,
+        data: {
+          marketId: args.marketId,
+          loanToken: response.loanToken,
+          assets: args.assets,
+          txHash: response.txHash,
+          receipt: summarizeReceipt(response.receipt),
+        },
+        txHashes: [response.txHash],
+      });
     } catch (error) {
       throw handleError("Error repaying to Morpho Vault", error);
     }
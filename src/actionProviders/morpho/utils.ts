@@ -1,3 +1,11 @@
+import { CustomError } from "../../common/errors";
+import {
+  ApiCallFailedDetails,
+  makeSubgraphQueryCall,
+  requestOptions,
+  RequestOptions,
+} from "../../common/utils";
+
 // List of supported networks for Morpho Subgraph functionality
 export const MORPHO_SUPPORTED_SUB_GRAPH = ["katana-mainnet"];
 
@@ -24,3 +32,69 @@ export const getMorphoBlueContractAddress = (chainId: number) => {
 };
 
 export const MORPHO_GRAPH_API_URL = "https://api.morpho.org/graphql";
+
+/**
+ * Where and how the Morpho API is reached, e.g. a self-hosted mirror or a local
+ * stand-in server in CI, with the timeout, retry and `fetch` options of every
+ * request.
+ */
+export interface MorphoApiConfig extends RequestOptions {
+  /**
+   * The URL of the Morpho GraphQL API. Defaults to `https://api.morpho.org/graphql`.
+   */
+  apiUrl?: string;
+}
+
+/**
+ * Resolves the URL of the Morpho GraphQL API.
+ *
+ * @param config - The API config, possibly overriding the URL.
+ * @returns The URL, e.g. to scope cache keys with.
+ */
+export const morphoApiUrl = (config: MorphoApiConfig) =>
+  config.apiUrl ?? MORPHO_GRAPH_API_URL;
+
+/**
+ * Runs a query against the Morpho GraphQL API.
+ *
+ * @param config - The API config, possibly overriding the URL and request options.
+ * @param query - The query and its variables. Queries only read, so failed
+ * ones are retried.
+ * @returns The `data` of the response.
+ */
+export const queryMorphoApi = (
+  config: MorphoApiConfig,
+  query: { query: string; variables?: Record<string, any> }
+) =>
+  makeSubgraphQueryCall(
+    morphoApiUrl(config),
+    query,
+    undefined,
+    { ...requestOptions(config), idempotent: true }
+  );
+
+/**
+ * Handles a failed Morpho API query, resolving to `null` when the API reported
+ * that nothing matched the query, e.g. for a wallet without positions.
+ *
+ * @param error - The error of the query.
+ * @returns Null if nothing matched.
+ * @throws The error, in any other case.
+ */
+export const nullIfNotFound = (error: unknown): null => {
+  const errors =
+    error instanceof CustomError
+      ? (error.details as ApiCallFailedDetails | undefined)?.errors
+      : undefined;
+
+  if (
+    errors?.some(
+      (graphQLError) =>
+        (graphQLError as { status?: string })?.status === "NOT_FOUND"
+    )
+  ) {
+    return null;
+  }
+
+  throw error;
+};
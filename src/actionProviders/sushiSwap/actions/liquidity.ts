@@ -7,14 +7,21 @@ import { Network } from "../../../network";
 import { GetLiquidityProvidersSchema } from "../schemas";
 import { fetchLiquidityProviders } from "../logic";
 import { wrapAndStringify } from "../../../common/utils";
+import { SushiSwapApiConfig } from "../utlis";
 
 /**
  * This class provides SushiSwap liquidity-related actions.
  * Currently supports fetching available liquidity providers on a specific EVM chain.
  */
 export class SushiSwapLiquidityActions extends ActionProvider<EvmWalletProvider> {
-  constructor() {
+  private readonly config: SushiSwapApiConfig;
+
+  /**
+   * @param config - Optionally, where and how the SushiSwap APIs are reached.
+   */
+  constructor(config: SushiSwapApiConfig = {}) {
     super("sushi_swap.liquidity", []);
+    this.config = config;
   }
 
   /**
@@ -30,6 +37,9 @@ export class SushiSwapLiquidityActions extends ActionProvider<EvmWalletProvider>
       Retrieves all available liquidity providers on a specific chain.
   `,
     schema: GetLiquidityProvidersSchema,
+    mutatesState: false,
+    tags: ["swap", "liquidity"],
+    protocol: "sushiswap",
   })
   async getLiquidityProviders(
     walletProvider: EvmWalletProvider,
@@ -43,7 +53,7 @@ export class SushiSwapLiquidityActions extends ActionProvider<EvmWalletProvider>
           ErrorCode.INVALID_NETWORK
         );
       }
-      const response = await fetchLiquidityProviders(chainId);
+      const response = await fetchLiquidityProviders(chainId, this.config);
       return wrapAndStringify(
         "sushi_swap.liquidity.get_liquidity_providers",
         response
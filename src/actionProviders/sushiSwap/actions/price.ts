@@ -7,6 +7,7 @@ import { Network } from "../../../network";
 import { GetAllTokenPricesSchema, GetTokenPriceSchema } from "../schemas";
 import { fetchAllTokenPrices, fetchTokenPrice } from "../logic";
 import { wrapAndStringify } from "../../../common/utils";
+import { SushiSwapApiConfig } from "../utlis";
 
 /**
  * SushiSwapPriceActions provides methods to fetch token prices from SushiSwap.
@@ -21,8 +22,14 @@ import { wrapAndStringify } from "../../../common/utils";
  *
  */
 export class SushiSwapPriceActions extends ActionProvider<EvmWalletProvider> {
-  constructor() {
+  private readonly config: SushiSwapApiConfig;
+
+  /**
+   * @param config - Optionally, where and how the SushiSwap APIs are reached.
+   */
+  constructor(config: SushiSwapApiConfig = {}) {
     super("sushi_swap.price", []);
+    this.config = config;
   }
 
   /**
@@ -39,6 +46,9 @@ export class SushiSwapPriceActions extends ActionProvider<EvmWalletProvider> {
       Returns USD prices for all tokens on a specific chain.
   `,
     schema: GetAllTokenPricesSchema,
+    mutatesState: false,
+    tags: ["swap", "market_data", "prices"],
+    protocol: "sushiswap",
   })
   async getAllTokenPrices(
     walletProvider: EvmWalletProvider,
@@ -52,7 +62,7 @@ export class SushiSwapPriceActions extends ActionProvider<EvmWalletProvider> {
           ErrorCode.INVALID_NETWORK
         );
       }
-      const response = await fetchAllTokenPrices(chainId);
+      const response = await fetchAllTokenPrices(chainId, this.config);
       return wrapAndStringify(
         "sushi_swap.price.get_all_token_prices",
         response
@@ -82,6 +92,9 @@ export class SushiSwapPriceActions extends ActionProvider<EvmWalletProvider> {
     - Ensure the token address is valid and supported by SushiSwap.
   `,
     schema: GetTokenPriceSchema,
+    mutatesState: false,
+    tags: ["swap", "market_data", "prices"],
+    protocol: "sushiswap",
   })
   async getTokenPrice(
     walletProvider: EvmWalletProvider,
@@ -96,7 +109,11 @@ export class SushiSwapPriceActions extends ActionProvider<EvmWalletProvider> {
           ErrorCode.INVALID_NETWORK
         );
       }
-      const response = await fetchTokenPrice(chainId, tokenAddress);
+      const response = await fetchTokenPrice(
+        chainId,
+        tokenAddress,
+        this.config
+      );
       return wrapAndStringify(
         "sushi_swap.price.get_token_price",
         response.toString()
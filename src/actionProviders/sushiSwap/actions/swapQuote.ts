@@ -5,7 +5,7 @@ import { EvmWalletProvider } from "../../../walletProviders";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
 import { Network } from "../../../network";
 import { GetSwapQuoteSchema } from "../schemas";
-import { DEFAULT_MAX_SLIPPAGE } from "../utlis";
+import { DEFAULT_MAX_SLIPPAGE, SushiSwapApiConfig } from "../utlis";
 import { fetchSwapQuote } from "../logic";
 import { wrapAndStringify } from "../../../common/utils";
 
@@ -22,8 +22,14 @@ import { wrapAndStringify } from "../../../common/utils";
  *
  */
 export class SushiSwapQuoteActions extends ActionProvider<EvmWalletProvider> {
-  constructor() {
+  private readonly config: SushiSwapApiConfig;
+
+  /**
+   * @param config - Optionally, where and how the SushiSwap APIs are reached.
+   */
+  constructor(config: SushiSwapApiConfig = {}) {
     super("sushi_swap.quote", []);
+    this.config = config;
   }
 
   /**
@@ -50,6 +56,9 @@ export class SushiSwapQuoteActions extends ActionProvider<EvmWalletProvider> {
   - Ensure all addresses are checksummed and valid.
   `,
     schema: GetSwapQuoteSchema,
+    mutatesState: false,
+    tags: ["swap", "market_data"],
+    protocol: "sushiswap",
   })
   async getSwapQuote(
     walletProvider: EvmWalletProvider,
@@ -70,12 +79,11 @@ export class SushiSwapQuoteActions extends ActionProvider<EvmWalletProvider> {
         );
       }
 
-      const response = await fetchSwapQuote(chainId, {
-        tokenIn,
-        tokenOut,
-        amount,
-        maxSlippage,
-      });
+      const response = await fetchSwapQuote(
+        chainId,
+        { tokenIn, tokenOut, amount, maxSlippage },
+        this.config
+      );
       return wrapAndStringify("sushi_swap.quote.get_token_price", response);
     } catch (error) {
       throw handleError("Failed to generate swap quote", error);
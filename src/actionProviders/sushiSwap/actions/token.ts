@@ -7,6 +7,7 @@ import { Network } from "../../../network";
 import { GetTokenDetailsSchema, QueryGetSushiAllTokens } from "../schemas";
 import { wrapAndStringify } from "../../../common/utils";
 import { fetchAllTokensFromSubgraph, fetchTokenMetadata } from "../logic";
+import { SushiSwapApiConfig } from "../utlis";
 
 /**
  * SushiSwapTokenActions provides utilities for retrieving token metadata and listings from SushiSwap.
@@ -27,10 +28,16 @@ import { fetchAllTokensFromSubgraph, fetchTokenMetadata } from "../logic";
  */
 export class SushiSwapTokenActions extends ActionProvider<EvmWalletProvider> {
   private readonly subGraphApiKey: string;
+  private readonly config: SushiSwapApiConfig;
 
-  constructor(subGraphApiKey: string) {
+  /**
+   * @param subGraphApiKey - The subgraph API key.
+   * @param config - Optionally, where and how the SushiSwap APIs are reached.
+   */
+  constructor(subGraphApiKey: string, config: SushiSwapApiConfig = {}) {
     super("sushi_swap.token", []);
     this.subGraphApiKey = subGraphApiKey;
+    this.config = config;
   }
 
   /**
@@ -54,6 +61,9 @@ export class SushiSwapTokenActions extends ActionProvider<EvmWalletProvider> {
     - Ensure the token address is valid and supported by SushiSwap.
   `,
     schema: GetTokenDetailsSchema,
+    mutatesState: false,
+    tags: ["swap", "token"],
+    protocol: "sushiswap",
   })
   async getTokenDetails(
     walletProvider: EvmWalletProvider,
@@ -68,7 +78,11 @@ export class SushiSwapTokenActions extends ActionProvider<EvmWalletProvider> {
           ErrorCode.INVALID_NETWORK
         );
       }
-      const response = await fetchTokenMetadata(chainId, tokenAddress);
+      const response = await fetchTokenMetadata(
+        chainId,
+        tokenAddress,
+        this.config
+      );
       return wrapAndStringify("sushi_swap.token.get_token_details", response);
     } catch (error) {
       throw handleError("Failed to retrieve token details", error);
@@ -102,13 +116,20 @@ export class SushiSwapTokenActions extends ActionProvider<EvmWalletProvider> {
     - Make sure a valid subGraphApiKey is configured for authenticated access.
   `,
     schema: QueryGetSushiAllTokens,
+    mutatesState: false,
+    tags: ["swap", "token"],
+    protocol: "sushiswap",
   })
   async getAllSushiTokens(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof QueryGetSushiAllTokens>
   ): Promise<string> {
     try {
-      const response = await fetchAllTokensFromSubgraph(walletProvider, args);
+      const response = await fetchAllTokensFromSubgraph(
+        walletProvider,
+        args,
+        this.config
+      );
       return wrapAndStringify(
         "sushi_swap.token.get_all_sushi_tokens",
         response
@@ -1,3 +1,4 @@
 export * from "./sushiSwapActionProvider";
 export * from "./sushiSwapExecuteActionProvider";
 export * from "./logic";
+export type { SushiSwapApiConfig } from "./utlis";
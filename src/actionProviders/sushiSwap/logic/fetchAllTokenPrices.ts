@@ -1,18 +1,34 @@
 import { handleError } from "../../../common/errors";
-import { SushiSwapModule } from "../utlis";
+import { fetchFromApi, requestOptions } from "../../../common/utils";
+import {
+  SUSHI_PRICE_PATH,
+  sushiApiUrl,
+  SushiSwapApiConfig,
+} from "../utlis";
+import { cachedRead } from "../../../cache";
 
 /**
- * Fetches USD prices for all tokens available on the specified EVM chain via the SushiSwap module.
+ * Fetches USD prices for all tokens available on the specified EVM chain from SushiSwap's price API.
+ * Prices are cached for 30 seconds by default.
  *
  * @param chainId - The chain ID (as a string) representing the target blockchain network.
+ * @param config - Optionally, the Sushi API base URL and `fetch` implementation.
  * @returns A promise resolving to a map of token addresses to their current USD prices.
  * @throws Throws a formatted error if price fetching fails.
  */
-export const fetchAllTokenPrices = async (chainId: string) => {
+export const fetchAllTokenPrices = async (
+  chainId: string,
+  config: SushiSwapApiConfig = {}
+) => {
   try {
-    const sushiSwapModule = await SushiSwapModule();
-    const typedChainId = chainId as keyof typeof sushiSwapModule.prices;
-    return await sushiSwapModule.prices(typedChainId);
+    const url = sushiApiUrl(config, SUSHI_PRICE_PATH, chainId);
+
+    return await cachedRead("tokenPrices", url, () =>
+      fetchFromApi<Record<`0x${string}`, number>>(
+        url,
+        requestOptions(config)
+      )
+    );
   } catch (error: any) {
     throw handleError("Failed to fetch all token prices", error);
   }
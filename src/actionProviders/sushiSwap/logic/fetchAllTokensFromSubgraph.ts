@@ -1,23 +1,30 @@
 import { z } from "zod";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
-import { makeSubgraphQueryCall } from "../../../common/utils";
+import {
+  makeSubgraphQueryCall,
+  requestOptions,
+} from "../../../common/utils";
+import { cachedRead } from "../../../cache";
 import { EvmWalletProvider } from "../../../walletProviders";
 import { QueryGetSushiAllTokens } from "../schemas";
 import { querySushiSwapAllTokens } from "../subGraphQuery";
-import { SUSHI_SWAP_GRAPH_URL } from "../utlis";
+import { SUSHI_SWAP_GRAPH_URL, SushiSwapApiConfig } from "../utlis";
 
 /**
  * Fetches a paginated list of tokens from the SushiSwap subgraph for a given chain.
+ * Each page is cached for 5 minutes by default.
  *
  * @param args - An object containing pagination parameters:
  *   - skip: Number of items to skip (for pagination).
  *   - first: Number of items to fetch.
+ * @param config - Optionally, the Sushi GraphQL URL and `fetch` implementation.
  * @returns A promise resolving to an array of token objects, or a string message if no data is found.
  * @throws Throws a formatted error if the subgraph query fails.
  */
 export const fetchAllTokensFromSubgraph = async (
   walletProvider: EvmWalletProvider,
-  args: z.infer<typeof QueryGetSushiAllTokens>
+  args: z.infer<typeof QueryGetSushiAllTokens>,
+  config: SushiSwapApiConfig = {}
 ) => {
   try {
     const network = walletProvider.getNetwork();
@@ -30,13 +37,22 @@ export const fetchAllTokensFromSubgraph = async (
       );
     }
 
-    const response = await makeSubgraphQueryCall(
-      SUSHI_SWAP_GRAPH_URL,
-      querySushiSwapAllTokens({
-        skip: args.skip,
-        first: args.first,
-        chainId: Number(chainId),
-      })
+    const graphUrl = config.graphUrl ?? SUSHI_SWAP_GRAPH_URL;
+
+    const response = await cachedRead(
+      "sushiTokens",
+      `${graphUrl}:${chainId}:${args.skip}:${args.first}`,
+      () =>
+        makeSubgraphQueryCall(
+          graphUrl,
+          querySushiSwapAllTokens({
+            skip: args.skip,
+            first: args.first,
+            chainId: Number(chainId),
+          }),
+          undefined,
+          { ...requestOptions(config), idempotent: true }
+        )
     );
 
     if (!response || !response.tokenList) {
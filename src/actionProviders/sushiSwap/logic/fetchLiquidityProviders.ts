@@ -1,18 +1,30 @@
 import { handleError } from "../../../common/errors";
-import { fetchFromApi } from "../../../common/utils";
-import { SUSHI_LIQUIDITY_ENDPOINT } from "../utlis";
+import { fetchFromApi, requestOptions } from "../../../common/utils";
+import {
+  SUSHI_LIQUIDITY_PATH,
+  sushiApiUrl,
+  SushiSwapApiConfig,
+} from "../utlis";
+import { cachedRead } from "../../../cache";
 
 /**
  * Fetches the list of liquidity providers from the SushiSwap API for the given chain.
+ * The list is cached for 5 minutes by default.
  *
  * @param chainId - The chain ID representing the target blockchain network.
+ * @param config - Optionally, the Sushi API base URL and `fetch` implementation.
  * @returns A promise resolving to the fetched liquidity provider data.
  * @throws Throws a formatted error if the API request fails.
  */
-export const fetchLiquidityProviders = async (chainId: string) => {
+export const fetchLiquidityProviders = async (
+  chainId: string,
+  config: SushiSwapApiConfig = {}
+) => {
   try {
-    return await fetchFromApi<unknown>(
-      `${SUSHI_LIQUIDITY_ENDPOINT}/${chainId}`
+    const url = sushiApiUrl(config, SUSHI_LIQUIDITY_PATH, chainId);
+
+    return await cachedRead("sushiLiquidityProviders", url, () =>
+      fetchFromApi<unknown>(url, requestOptions(config))
     );
   } catch (error: any) {
     throw handleError("Failed to fetch liquidity providers", error);
@@ -1,7 +1,11 @@
 import Decimal from "decimal.js";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
-import { fetchFromApi } from "../../../common/utils";
-import { SUSHI_QUOTE_ENDPOINT } from "../utlis";
+import { fetchFromApi, requestOptions } from "../../../common/utils";
+import {
+  SUSHI_QUOTE_PATH,
+  sushiApiUrl,
+  SushiSwapApiConfig,
+} from "../utlis";
 import { fetchTokenMetadata } from "./fetchTokenMetadata";
 
 /**
@@ -16,6 +20,7 @@ import { fetchTokenMetadata } from "./fetchTokenMetadata";
  *   - tokenOut: The address of the output token.
  *   - maxSlippage: The maximum allowed slippage percentage (e.g., 0.5 for 0.5%).
  *   - amount: The input amount in human-readable units (e.g., 1.5 ETH).
+ * @param config - Optionally, the Sushi API base URL and `fetch` implementation.
  *
  * @returns A promise resolving to the swap quote data.
  * @throws Throws a formatted error if token metadata fetch or quote API call fails.
@@ -27,10 +32,15 @@ export const fetchSwapQuote = async (
     tokenOut: string;
     maxSlippage: number;
     amount: number;
-  }
+  },
+  config: SushiSwapApiConfig = {}
 ) => {
   try {
-    const tokenMetadata = await fetchTokenMetadata(chainId, args.tokenIn);
+    const tokenMetadata = await fetchTokenMetadata(
+      chainId,
+      args.tokenIn,
+      config
+    );
 
     if (!tokenMetadata?.decimals) {
       throw createError(
@@ -50,7 +60,8 @@ export const fetchSwapQuote = async (
     });
 
     return await fetchFromApi<unknown>(
-      `${SUSHI_QUOTE_ENDPOINT}/${chainId}?${params}`
+      `${sushiApiUrl(config, SUSHI_QUOTE_PATH, chainId)}?${params}`,
+      requestOptions(config)
     );
   } catch (error: any) {
     throw handleError("Failed to fetch swap quote", error);
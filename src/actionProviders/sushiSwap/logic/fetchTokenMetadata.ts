@@ -1,27 +1,48 @@
 import { createError, ErrorCode } from "../../../common/errors";
-import { fetchFromApi } from "../../../common/utils";
-import { SUSHI_TOKEN_ENDPOINT } from "../utlis";
+import { fetchFromApi, requestOptions } from "../../../common/utils";
+import { cachedRead } from "../../../cache";
+import {
+  SUSHI_TOKEN_PATH,
+  sushiApiUrl,
+  SushiSwapApiConfig,
+} from "../utlis";
 
 /**
  * Fetches metadata for a token (e.g., decimals, symbol, name) from SushiSwap's public API.
+ * Token metadata never changes, so it is cached permanently by default.
  *
  * @param chainId - Chain ID the token belongs to
  * @param tokenAddress - The ERC20 token contract address
+ * @param config - Optionally, the Sushi API base URL and `fetch` implementation
  * @returns An object containing token metadata
  * @throws If the API call fails or returns an error
  */
 export const fetchTokenMetadata = async (
   chainId: string,
-  tokenAddress: string
+  tokenAddress: string,
+  config: SushiSwapApiConfig = {}
 ) => {
   try {
-    const metadata = await fetchFromApi<{
-      chainId: number;
-      address: `0x{string}`;
-      decimals: number;
-      symbol: string;
-      name: string;
-    }>(`${SUSHI_TOKEN_ENDPOINT}/${chainId}/${tokenAddress}`);
+    const metadata = await cachedRead(
+      "tokenMetadata",
+      sushiApiUrl(
+        config,
+        SUSHI_TOKEN_PATH,
+        chainId,
+        tokenAddress.toLowerCase()
+      ),
+      () =>
+        fetchFromApi<{
+          chainId: number;
+          address: `0x{string}`;
+          decimals: number;
+          symbol: string;
+          name: string;
+        }>(
+          sushiApiUrl(config, SUSHI_TOKEN_PATH, chainId, tokenAddress),
+          requestOptions(config)
+        )
+    );
 
     return metadata;
   } catch (error: any) {
@@ -1,24 +1,41 @@
 import { handleError } from "../../../common/errors";
-import { SushiSwapModule } from "../utlis";
+import { fetchFromApi, requestOptions } from "../../../common/utils";
+import {
+  SUSHI_PRICE_PATH,
+  sushiApiUrl,
+  SushiSwapApiConfig,
+} from "../utlis";
+import { cachedRead } from "../../../cache";
 
 /**
- * Fetches the USD price of a specific token on the specified EVM chain using the SushiSwap module.
+ * Fetches the USD price of a specific token on the specified EVM chain from SushiSwap's price API.
+ * Prices are cached for 30 seconds by default.
  *
  * @param chainId - The chain ID representing the target blockchain network.
  * @param tokenAddress - The address of the token to fetch the price for.
+ * @param config - Optionally, the Sushi API base URL and `fetch` implementation.
  * @returns A promise resolving to the token's USD price.
  * @throws Throws a formatted error if the price retrieval fails.
  */
 export const fetchTokenPrice = async (
   chainId: string,
-  tokenAddress: string
+  tokenAddress: string,
+  config: SushiSwapApiConfig = {}
 ) => {
   try {
-    const sushiSwapModule = await SushiSwapModule();
-    const typedChainId = chainId as keyof typeof sushiSwapModule.price;
-    return await sushiSwapModule.price(
-      typedChainId,
-      tokenAddress as `0x${string}`
+    return await cachedRead(
+      "tokenPrices",
+      sushiApiUrl(
+        config,
+        SUSHI_PRICE_PATH,
+        chainId,
+        tokenAddress.toLowerCase()
+      ),
+      () =>
+        fetchFromApi<number>(
+          sushiApiUrl(config, SUSHI_PRICE_PATH, chainId, tokenAddress),
+          requestOptions(config)
+        )
     );
   } catch (error: any) {
     throw handleError("Failed to fetch token price", error);
@@ -1,42 +1,51 @@
 import Decimal from "decimal.js";
 import { createError, ErrorCode, handleError } from "../../../common/errors";
-import { ViemWalletProvider } from "../../../walletProviders";
+import { EvmWalletProvider } from "../../../walletProviders";
 import { fetchTokenMetadata } from "./fetchTokenMetadata";
-import { getSpender, SushiSwapModule } from "../utlis";
+import {
+  getSpender,
+  SUSHI_SWAP_PATH,
+  sushiApiUrl,
+  SushiSwapApiConfig,
+} from "../utlis";
 import { allowance, approve, isNativeToken } from "../../../utils";
-import { createPublicClient, http, PublicClient } from "viem";
-import { NETWORK_ID_TO_VIEM_CHAIN } from "../../../network";
+import { isDryRun } from "../../../dryRun";
+import { fetchFromApi, requestOptions } from "../../../common/utils";
+import { SushiSwapResponseSchema } from "../schemas";
 
 /**
- * Prepares and sends a token swap transaction via the SushiSwap module using the provided wallet provider.
+ * Prepares and sends a token swap transaction via the SushiSwap API using the provided wallet provider.
  *
  * This function handles the full lifecycle of a swap:
  * 1. Validates network and chain information from the wallet provider.
  * 2. Fetches token metadata to convert the input amount into base units.
  * 3. Checks and sets token allowance if needed.
- * 4. Fetches the swap calldata from the SushiSwap module.
- * 5. Simulates the transaction using Viem’s `publicClient.call` (for dry-run).
+ * 4. Fetches the swap calldata from the SushiSwap API.
+ * 5. Simulates the transaction with the wallet provider, unless the kit is in dry-run mode.
  * 6. Sends the transaction using the wallet provider and waits for confirmation.
  *
- * @param walletProvider - A Viem-compatible wallet provider to interact with the blockchain.
+ * @param walletProvider - An EVM wallet provider to interact with the blockchain.
  * @param args - Swap details:
  *   - tokenIn: Address of the input token.
  *   - tokenOut: Address of the output token.
  *   - maxSlippage: Maximum allowed slippage for the trade (in percent).
  *   - amount: Human-readable input amount (e.g., 1.5 ETH).
+ * @param config - Optionally, the Sushi API base URL and `fetch` implementation.
  *
- * @returns A promise resolving to the transaction hash if successful.
- *          If approval fails, returns an error string.
- * @throws Throws a formatted error if any stage in the swap process fails.
+ * @returns A promise resolving to the transaction hash, the swapped amounts (the output
+ *          amount in base units, as quoted) and the quoted price impact.
+ * @throws Throws a formatted error if any stage in the swap process fails, including the approval
+ *         and the simulation.
  */
 export const prepareAndSendSwapTransaction = async (
-  walletProvider: ViemWalletProvider,
+  walletProvider: EvmWalletProvider,
   args: {
     tokenIn: string;
     tokenOut: string;
     maxSlippage: number;
     amount: number;
-  }
+  },
+  config: SushiSwapApiConfig = {}
 ) => {
   try {
     const network = walletProvider.getNetwork();
@@ -50,7 +59,11 @@ export const prepareAndSendSwapTransaction = async (
       );
     }
 
-    const tokenMetadata = await fetchTokenMetadata(chainId, args.tokenIn);
+    const tokenMetadata = await fetchTokenMetadata(
+      chainId,
+      args.tokenIn,
+      config
+    );
 
     if (!tokenMetadata?.decimals) {
       throw createError(
@@ -62,9 +75,7 @@ export const prepareAndSendSwapTransaction = async (
       .mul(new Decimal(10).pow(tokenMetadata.decimals))
       .toFixed(0);
 
-    const sushiSwapModule = await SushiSwapModule();
-    const typedChainId = chainId as keyof typeof sushiSwapModule.getSwap;
-    const spender = getSpender(typedChainId);
+    const spender = getSpender(Number(chainId));
 
     if (!isNativeToken(args.tokenIn)) {
       const currentAllowance = await allowance(
@@ -80,56 +91,70 @@ export const prepareAndSendSwapTransaction = async (
           BigInt(amountInBaseUnits)
         );
         if (approvalResult.startsWith("Error")) {
-          return `Error approving SushiSwap as spender: ${approvalResult}`;
-        } else {
-          console.log(approvalResult);
+          throw createError(
+            `Error approving SushiSwap as spender: ${approvalResult}`,
+            ErrorCode.CONTRACT_ERROR
+          );
         }
-      } else {
-        console.log("Sufficient allowance. Skipping approval.");
       }
-    } else {
-      console.log("Native token detected. No approval needed.");
     }
 
     // Step 1: Get swap quote
-    const swapData = await sushiSwapModule.getSwap({
-      chainId: typedChainId,
-      tokenIn: args.tokenIn as `0x${string}`,
-      tokenOut: args.tokenOut as `0x${string}`,
-      amount: BigInt(amountInBaseUnits),
-      maxSlippage: args.maxSlippage,
-      sender: walletProvider.getAddress() as `0x${string}`,
+    const params = new URLSearchParams({
+      tokenIn: args.tokenIn,
+      tokenOut: args.tokenOut,
+      sender: walletProvider.getAddress(),
+      amount: amountInBaseUnits,
+      maxSlippage: args.maxSlippage.toString(),
     });
+    const response = SushiSwapResponseSchema.safeParse(
+      await fetchFromApi<unknown>(
+        `${sushiApiUrl(config, SUSHI_SWAP_PATH, chainId)}?${params}`,
+        requestOptions(config)
+      )
+    );
+
+    if (!response.success) {
+      const issues = response.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      }));
 
+      throw createError(
+        `Invalid response from the SushiSwap swap API: ${issues
+          .map((issue) => `${issue.path || "(root)"}: ${issue.message}`)
+          .join("; ")}`,
+        ErrorCode.API_CALL_FAILED,
+        { issues }
+      );
+    }
+
+    const swapData = response.data;
     if (swapData.status !== "Success") {
       throw createError("Swap quote generation failed", "SWAP_QUOTE_FAILED");
     }
 
-    const { tx } = swapData;
+    const tx = { ...swapData.tx, value: BigInt(swapData.tx.value || 0) };
 
     // Step 2: Simulate swap
-    // TODO: Remove below code once Katana is available on Viem and is public
-    let publicClient: PublicClient;
-    if (chainId === "129399" || chainId === "747474") {
-      publicClient = createPublicClient({
-        chain: walletProvider.getChain(),
-        transport: http(),
-      });
-    } else {
-      publicClient = createPublicClient({
-        chain: NETWORK_ID_TO_VIEM_CHAIN[networkId],
-        transport: http(),
-      });
-    }
+    // In dry-run mode the wallet simulates the approval and the swap together,
+    // a standalone call would revert for lack of allowance.
+    if (!isDryRun()) {
+      const {
+        transactions: [simulation],
+      } = await walletProvider.simulateTransactions([
+        { to: tx.to, data: tx.data, value: tx.value },
+      ]);
 
-    const simulation = await publicClient.call({
-      account: tx.from,
-      to: tx.to,
-      data: tx.data,
-      value: tx.value,
-    });
-
-    console.log("Simulated output:", simulation);
+      if (!simulation?.success) {
+        throw createError(
+          `Swap simulation failed: ${
+            simulation?.revertReason ?? "execution reverted"
+          }`,
+          ErrorCode.TRANSACTION_FAILED
+        );
+      }
+    }
 
     // Step 3: Send transaction
     const txHash = await walletProvider.sendTransaction({
@@ -139,7 +164,16 @@ export const prepareAndSendSwapTransaction = async (
     });
     await walletProvider.waitForTransactionReceipt(txHash);
 
-    return `Swap transaction successful. Transaction Hash: ${txHash}`;
+    return {
+      txHash,
+      tokenIn: args.tokenIn,
+      tokenOut: args.tokenOut,
+      amountIn: args.amount,
+      amountInBaseUnits,
+      assumedAmountOut: swapData.assumedAmountOut,
+      priceImpact: swapData.priceImpact,
+      maxSlippage: args.maxSlippage,
+    };
   } catch (error: any) {
     throw handleError("Failed to prepare and send swap transaction", error);
   }
@@ -1,5 +1,23 @@
+import { isAddress, isHex } from "viem";
 import { z } from "zod";
 
+/**
+ * A number, also accepted as a decimal string such as `"3.5"`. Anything else,
+ * e.g. `""`, `null` or `true`, is rejected rather than coerced.
+ *
+ * @param schema - The constraints on the number.
+ * @returns The schema.
+ */
+const decimal = (schema: z.ZodNumber) =>
+  z.union([
+    schema,
+    z
+      .string()
+      .regex(/^\d+(\.\d+)?$/, "Expected a decimal number")
+      .transform(Number)
+      .pipe(schema),
+  ]);
+
 export const GetAllTokenPricesSchema = z.object({});
 export const GetLiquidityProvidersSchema = z.object({});
 
@@ -22,14 +40,12 @@ export const GetSwapQuoteSchema = z.object({
   tokenOut: z
     .string()
     .describe("Address of the token to be swapped to (output token)."),
-  amount: z
-    .number()
-    .describe(
-      "Amount of the input token to swap. Example: 3.5 (will be converted to base units using token decimals)"
-    ),
-  maxSlippage: z
-    .number()
-    .describe("Maximum allowed slippage for the swap, e.g., 0.005 for 0.5%"),
+  amount: decimal(z.number().positive()).describe(
+    "Amount of the input token to swap. Example: 3.5 (will be converted to base units using token decimals)"
+  ),
+  maxSlippage: decimal(z.number().min(0).max(1)).describe(
+    "Maximum allowed slippage for the swap, e.g., 0.005 for 0.5%"
+  ),
 });
 
 export const GetExecuteSwapSchema = z.object({
@@ -41,14 +57,12 @@ export const GetExecuteSwapSchema = z.object({
     .string()
     .min(42)
     .describe("Address of the token to be swapped to (output token)."),
-  amount: z
-    .number()
-    .describe(
-      "Amount of the input token to swap. Example: 3.5 (will be converted to base units using token decimals)"
-    ),
-  maxSlippage: z
-    .number()
-    .describe("Maximum allowed slippage for the swap, e.g., 0.005 for 0.5%"),
+  amount: decimal(z.number().positive()).describe(
+    "Amount of the input token to swap. Example: 3.5 (will be converted to base units using token decimals)"
+  ),
+  maxSlippage: decimal(z.number().min(0).max(1)).describe(
+    "Maximum allowed slippage for the swap, e.g., 0.005 for 0.5%"
+  ),
 });
 
 export const QueryGetSushiAllTokens = z.object({
@@ -59,3 +73,30 @@ export const QueryGetSushiAllTokens = z.object({
     .max(100, "Maximum value allowed is 100"),
   skip: z.number().int().min(0, "Skip must be 0 or greater"),
 });
+
+const address = z.custom<`0x${string}`>(
+  (value) => typeof value === "string" && isAddress(value, { strict: false }),
+  "Expected an address"
+);
+
+/**
+ * The response of the SushiSwap swap API. Only a `Success` carries a transaction.
+ */
+export const SushiSwapResponseSchema = z.discriminatedUnion("status", [
+  z.object({
+    status: z.literal("Success"),
+    assumedAmountOut: z.string().regex(/^\d+$/, "Expected an integer"),
+    priceImpact: z.number(),
+    tx: z.object({
+      from: address,
+      to: address,
+      data: z.custom<`0x${string}`>(
+        (value) => isHex(value, { strict: true }),
+        "Expected hex calldata"
+      ),
+      value: z.string().regex(/^\d+$/, "Expected an integer").optional(),
+    }),
+  }),
+  z.object({ status: z.literal("Partial") }),
+  z.object({ status: z.literal("NoWay") }),
+]);
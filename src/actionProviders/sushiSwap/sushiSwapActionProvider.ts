@@ -1,4 +1,5 @@
 import { EvmWalletProvider } from "../../walletProviders";
+import { requestOptions } from "../../common/utils";
 import { ActionProvider } from "../actionProvider";
 import { Network } from "../../network";
 import {
@@ -7,14 +8,19 @@ import {
   SushiSwapQuoteActions,
   SushiSwapTokenActions,
 } from "./actions";
-import { SUSHISWAP_SUPPORTED_NETWORK } from "./utlis";
+import { SUSHISWAP_SUPPORTED_NETWORK, SushiSwapApiConfig } from "./utlis";
 
 /**
  * Configuration options for initializing the SushiSwapActionProvider.
  *
  * @property subGraphApiKey - API key required to query SushiSwap's subgraph. This is mandatory.
+ * @property apiUrl - Optional base URL of the Sushi API, e.g. a mirror or a local stand-in server.
+ * @property graphUrl - Optional URL of the Sushi GraphQL API.
+ * @property fetch - Optional `fetch` implementation, e.g. one that goes through a proxy.
+ * @property timeoutMs - Optional timeout of each request attempt, in milliseconds.
+ * @property retry - Optional retry options of failed requests, or `false` to never retry.
  */
-export interface SushiSwapActionProviderConfig {
+export interface SushiSwapActionProviderConfig extends SushiSwapApiConfig {
   // Subgraph API key (required for queries)
   subGraphApiKey?: string;
 }
@@ -48,11 +54,18 @@ export class SushiSwapActionProvider extends ActionProvider<EvmWalletProvider> {
       throw new Error("SUBGRAPH_API_KEY is not configured.");
     }
 
+    const { apiUrl, graphUrl } = config;
+    const apiConfig: SushiSwapApiConfig = {
+      apiUrl,
+      graphUrl,
+      ...requestOptions(config),
+    };
+
     super("sushi_swap", [
-      new SushiSwapPriceActions(),
-      new SushiSwapLiquidityActions(),
-      new SushiSwapTokenActions(config.subGraphApiKey),
-      new SushiSwapQuoteActions(),
+      new SushiSwapPriceActions(apiConfig),
+      new SushiSwapLiquidityActions(apiConfig),
+      new SushiSwapTokenActions(config.subGraphApiKey, apiConfig),
+      new SushiSwapQuoteActions(apiConfig),
     ]);
   }
 
@@ -69,6 +82,9 @@ export class SushiSwapActionProvider extends ActionProvider<EvmWalletProvider> {
 
 /**
  * Creates a new instance of SushiSwapActionProvider.
+ * @param config - Optional configuration, e.g. the subgraph API key or API URL overrides
  * @returns A new instance of SushiSwapActionProvider
  */
-export const sushiSwapActionProvider = () => new SushiSwapActionProvider();
+export const sushiSwapActionProvider = (
+  config?: SushiSwapActionProviderConfig
+) => new SushiSwapActionProvider(config);
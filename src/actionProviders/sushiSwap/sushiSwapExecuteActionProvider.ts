@@ -1,40 +1,49 @@
 import { z } from "zod";
-import { EvmWalletProvider, ViemWalletProvider } from "../../walletProviders";
+import { EvmWalletProvider } from "../../walletProviders";
 import { ActionProvider } from "../actionProvider";
 import { Network } from "../../network";
 import { CreateAction } from "../actionDecorator";
 import { GetExecuteSwapSchema } from "./schemas";
-import { DEFAULT_MAX_SLIPPAGE, SUSHISWAP_SUPPORTED_NETWORK } from "./utlis";
+import {
+  DEFAULT_MAX_SLIPPAGE,
+  SUSHISWAP_SUPPORTED_NETWORK,
+  SushiSwapApiConfig,
+} from "./utlis";
 import { prepareAndSendSwapTransaction } from "./logic";
-import { wrapAndStringify } from "../../common/utils";
+import { ActionResult, createActionResult } from "../actionResult";
 import { handleError } from "../../common/errors";
 
 /**
  * SushiSwapExecuteOnlyActionProvider is a minimal action provider for SushiSwap,
- * exposing only swap execution functionality using Viem-compatible wallet providers.
+ * exposing only swap execution functionality using EVM wallet providers.
  *
  * Registered under action provider key: `sushi_swap.execute_only`
  */
 export class SushiSwapExecuteOnlyActionProvider extends ActionProvider<EvmWalletProvider> {
+  private readonly config: SushiSwapApiConfig;
+
   /**
    * Constructs the minimal SushiSwap provider and registers only the execute actions.
+   *
+   * @param config - Optionally, the Sushi API base URL and request options.
    */
-  constructor() {
+  constructor(config: SushiSwapApiConfig = {}) {
     super("sushi_swap.execute_only", []);
+    this.config = config;
   }
 
   /**
-   * Executes a token swap on SushiSwap using Viem, with automatic approval if necessary.
+   * Executes a token swap on SushiSwap, with automatic approval if necessary.
    *
-   * @param walletProvider - An instance of Viem-compatible WalletProvider
+   * @param walletProvider - An instance of EvmWalletProvider
    * @param args - Object containing tokenIn, tokenOut, amount, and optional maxSlippage
-   * @returns A formatted string containing the transaction hash and simulation result
+   * @returns The result of the swap, including the transaction hash and the quoted amounts
    * @throws If approval, quote generation, simulation, or transaction sending fails
    */
   @CreateAction({
     name: "execute_swap",
     description: `
-    Executes a token swap on SushiSwap using the Viem client.
+    Executes a token swap on SushiSwap.
 
     Inputs:
     - tokenIn: Address of the input token. Example: 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE (native MATIC)
@@ -45,11 +54,17 @@ export class SushiSwapExecuteOnlyActionProvider extends ActionProvider<EvmWallet
     Note: This action will broadcast a transaction on-chain and may consume gas.
   `,
     schema: GetExecuteSwapSchema,
+    mutatesState: true,
+    riskLevel: "high",
+    requiresApproval: true,
+    estimatedCost: "medium",
+    tags: ["swap", "trading"],
+    protocol: "sushiswap",
   })
   async executeSwap(
-    walletProvider: ViemWalletProvider,
+    walletProvider: EvmWalletProvider,
     args: z.infer<typeof GetExecuteSwapSchema>
-  ): Promise<any> {
+  ): Promise<ActionResult> {
     try {
       const {
         tokenIn,
@@ -58,13 +73,16 @@ export class SushiSwapExecuteOnlyActionProvider extends ActionProvider<EvmWallet
         maxSlippage = DEFAULT_MAX_SLIPPAGE,
       } = args;
 
-      const response = await prepareAndSendSwapTransaction(walletProvider, {
-        tokenIn,
-        tokenOut,
-        amount,
-        maxSlippage,
+      const response = await prepareAndSendSwapTransaction(
+        walletProvider,
+        { tokenIn, tokenOut, amount, maxSlippage },
+        this.config
+      );
+      return createActionResult("sushi_swap.execute_only.execute_swap", {
+        summary: `Swapped ${response.amountIn} of ${response.tokenIn} for ${response.tokenOut} with transaction hash: ${response.txHash}`,
+        data: response,
+        txHashes: [response.txHash],
       });
-      return wrapAndStringify("sushi_swap.execute_only.execute_swap", response);
     } catch (error) {
       throw handleError("Failed to execute swap", error);
     }
@@ -83,7 +101,9 @@ export class SushiSwapExecuteOnlyActionProvider extends ActionProvider<EvmWallet
 
 /**
  * Creates a new instance of SushiSwapExecuteOnlyActionProvider.
+ * @param config - Optionally, the Sushi API base URL and request options.
  * @returns A minimal action provider focused solely on swap execution.
  */
-export const sushiSwapExecuteOnlyActionProvider = () =>
-  new SushiSwapExecuteOnlyActionProvider();
+export const sushiSwapExecuteOnlyActionProvider = (
+  config?: SushiSwapApiConfig
+) => new SushiSwapExecuteOnlyActionProvider(config);
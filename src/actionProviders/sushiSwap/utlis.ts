@@ -1,9 +1,12 @@
-// SushiSwap API endpoints
+import { RequestOptions } from "../../common/utils";
+
+// SushiSwap API endpoints, relative to the API base URL
 export const SUSHI_ENDPOINT = "https://api.sushi.com";
-export const SUSHI_QUOTE_ENDPOINT = SUSHI_ENDPOINT + "/quote/v7";
-export const SUSHI_TOKEN_ENDPOINT = SUSHI_ENDPOINT + "/token/v1";
-export const SUSHI_LIQUIDITY_ENDPOINT =
-  SUSHI_ENDPOINT + "/liquidity-providers/v7";
+export const SUSHI_QUOTE_PATH = "/quote/v7";
+export const SUSHI_SWAP_PATH = "/swap/v7";
+export const SUSHI_PRICE_PATH = "/price/v1";
+export const SUSHI_TOKEN_PATH = "/token/v1";
+export const SUSHI_LIQUIDITY_PATH = "/liquidity-providers/v7";
 
 // Default maximum slippage (0.5%)
 export const DEFAULT_MAX_SLIPPAGE = 0.005;
@@ -12,17 +15,39 @@ export const DEFAULT_MAX_SLIPPAGE = 0.005;
 const DEFAULT_SPENDER = "0xAC4c6e212A361c968F1725b4d055b47E63F80b75";
 
 /**
- * Dynamically imports Sushi SDK and exposes primary swap utilities.
- * Lazy-loaded to optimize bundle size.
+ * Where and how the SushiSwap APIs are reached, e.g. a self-hosted mirror or a
+ * local stand-in server in CI, with the timeout, retry and `fetch` options of
+ * every request.
  */
-export const SushiSwapModule = async () => {
-  const sushiModule = await import("sushi");
-  return {
-    price: sushiModule.getPrice,
-    prices: sushiModule.getPrices,
-    getSwap: sushiModule.getSwap,
-  };
-};
+export interface SushiSwapApiConfig extends RequestOptions {
+  /**
+   * The base URL of the Sushi API. Defaults to `https://api.sushi.com`.
+   */
+  apiUrl?: string;
+
+  /**
+   * The URL of the Sushi GraphQL API. Defaults to `https://production.data-gcp.sushi.com/graphql`.
+   */
+  graphUrl?: string;
+}
+
+/**
+ * Builds the URL of a Sushi API endpoint.
+ *
+ * @param config - The API config, possibly overriding the base URL.
+ * @param path - The endpoint path, e.g. `SUSHI_QUOTE_PATH`.
+ * @param segments - The path segments appended to the endpoint, e.g. the chain ID.
+ * @returns The endpoint URL.
+ */
+export const sushiApiUrl = (
+  config: SushiSwapApiConfig,
+  path: string,
+  ...segments: string[]
+) =>
+  [
+    (config.apiUrl ?? SUSHI_ENDPOINT).replace(/\/+$/, "") + path,
+    ...segments,
+  ].join("/");
 
 const SUSHI_SPENDER_MAP: Record<number, `0x${string}`> = {
   324: "0x35E98C2b3894D71D3D4D7edb8b30E4f36E2f9179", // zkSync
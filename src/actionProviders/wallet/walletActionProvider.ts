@@ -8,6 +8,7 @@ import { Network } from "../../network";
 import { NativeTransferSchema, GetWalletDetailsSchema } from "./schemas";
 import { wrapAndStringify } from "../../common/utils";
 import { handleError } from "../../common/errors";
+import { ActionResult, createActionResult } from "../actionResult";
 
 const PROTOCOL_FAMILY_TO_TERMINOLOGY: Record<
   string,
@@ -57,6 +58,8 @@ export class WalletActionProvider extends ActionProvider {
     - Wallet provider name
     `,
     schema: GetWalletDetailsSchema,
+    mutatesState: false,
+    tags: ["wallet", "balance"],
   })
   async getWalletDetails(
     walletProvider: WalletProvider,
@@ -94,7 +97,7 @@ export class WalletActionProvider extends ActionProvider {
    *
    * @param walletProvider - The wallet provider to transfer from.
    * @param args - The input arguments for the action.
-   * @returns A message containing the transfer details.
+   * @returns The result of the transfer, including the transaction hash.
    */
   @CreateAction({
     name: "native_transfer",
@@ -110,11 +113,15 @@ Important notes:
 - Ensure there is sufficient native token balance for gas fees
 `,
     schema: NativeTransferSchema,
+    mutatesState: true,
+    riskLevel: "medium",
+    estimatedCost: "low",
+    tags: ["wallet", "transfer"],
   })
   async nativeTransfer(
     walletProvider: WalletProvider,
     args: z.infer<typeof NativeTransferSchema>
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const { protocolFamily } = walletProvider.getNetwork();
       const terminology =
@@ -125,13 +132,14 @@ Important notes:
       }
 
       const result = await walletProvider.nativeTransfer(args.to, args.value);
-      return wrapAndStringify(
-        "wallet.native_transfer",
-        [
+      return createActionResult("wallet.native_transfer", {
+        summary: [
           `Transferred ${args.value} ${terminology.displayUnit} to ${args.to}`,
           `${terminology.type}: ${result}`,
-        ].join("\n")
-      );
+        ].join("\n"),
+        data: { to: args.to, value: args.value, txHash: result },
+        txHashes: [result],
+      });
     } catch (error) {
       const { protocolFamily } = walletProvider.getNetwork();
       const terminology =
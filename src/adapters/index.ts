@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./toolError";
+export * from "./langchain";
+export * from "./vercelAi";
+export * from "./openaiAgents";
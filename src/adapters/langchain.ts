@@ -0,0 +1,62 @@
+import { DynamicStructuredTool, tool } from "@langchain/core/tools";
+import { Action } from "../actionProviders";
+import type { TensaiKit } from "../tensaiKit";
+import { formatToolError } from "./toolError";
+import { lenientSchema } from "./lenientSchema";
+import { LangChainToolsOptions } from "./types";
+
+/**
+ * Builds LangChain tools from the actions of a TensaiKit.
+ *
+ * Every tool reuses the zod schema of its action and resolves to the rendered
+ * `ActionResult`. Each tool's metadata holds the provider and classification of
+ * its action, merged with the per-tool overrides.
+ *
+ * @param tensaiKit - The configured kit.
+ * @param options - Which actions to expose and how.
+ * @returns One structured tool per selected action.
+ */
+export const getLangChainTools = (
+  tensaiKit: TensaiKit,
+  options: LangChainToolsOptions = {}
+): DynamicStructuredTool[] =>
+  tensaiKit
+    .getActions(options.selection, { walletId: options.walletId })
+    .map((action) => toLangChainTool(action, options));
+
+/**
+ * Builds a LangChain tool from an action.
+ *
+ * @param action - The action.
+ * @param options - How to expose it.
+ * @returns The structured tool.
+ */
+const toLangChainTool = (
+  action: Action,
+  options: LangChainToolsOptions
+): DynamicStructuredTool => {
+  const overrides = options.tools?.[action.name] ?? {};
+  const handleErrors = options.handleErrors ?? true;
+
+  return tool(
+    async (args: unknown) => {
+      try {
+        return await action.invoke(args);
+      } catch (error) {
+        if (!handleErrors) throw error;
+        return formatToolError(action, error);
+      }
+    },
+    {
+      name: action.name,
+      description: action.description,
+      schema: lenientSchema(action),
+      returnDirect: overrides.returnDirect ?? false,
+      metadata: {
+        provider: action.provider,
+        ...action.metadata,
+        ...overrides.metadata,
+      },
+    }
+  ) as DynamicStructuredTool;
+};
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { Action } from "../actionProviders";
+
+/**
+ * Wraps the schema of an action so that frameworks validating tool input on
+ * their own let invalid input through to the action, whose `INVALID_INPUT`
+ * error then lists the offending fields. The JSON Schema the model sees is
+ * unchanged.
+ *
+ * @param action - The action.
+ * @returns The wrapped schema.
+ */
+export const lenientSchema = (action: Action): z.ZodSchema =>
+  action.schema.catch(({ input }) => input);
@@ -0,0 +1,56 @@
+import { Action } from "../actionProviders";
+import type { TensaiKit } from "../tensaiKit";
+import { formatToolError } from "./toolError";
+import { OpenAIAgentsToolOptions, ToolAdapterOptions } from "./types";
+
+/**
+ * Builds OpenAI Agents SDK tools from the actions of a TensaiKit.
+ *
+ * The SDK's `tool()` helper is passed in, so the kit does not depend on the SDK:
+ *
+ * ```ts
+ * import { tool } from "@openai/agents";
+ *
+ * const tools = getOpenAIAgentsTools(tensaiKit, tool);
+ * ```
+ *
+ * Every tool reuses the zod schema of its action, resolves to the rendered
+ * `ActionResult` and needs approval when its action is classified so.
+ *
+ * @param tensaiKit - The configured kit.
+ * @param tool - The `tool()` helper of the OpenAI Agents SDK.
+ * @param options - Which actions to expose and how.
+ * @returns One tool per selected action.
+ */
+export const getOpenAIAgentsTools = <TTool>(
+  tensaiKit: TensaiKit,
+  tool: (options: OpenAIAgentsToolOptions) => TTool,
+  options: ToolAdapterOptions = {}
+): TTool[] =>
+  tensaiKit
+    .getActions(options.selection, { walletId: options.walletId })
+    .map((action) => tool(toOpenAIAgentsToolOptions(action, options)));
+
+/**
+ * Builds the OpenAI Agents SDK tool options of an action.
+ *
+ * @param action - The action.
+ * @param options - How to expose it.
+ * @returns The tool options.
+ */
+export const toOpenAIAgentsToolOptions = (
+  action: Action,
+  options: ToolAdapterOptions = {}
+): OpenAIAgentsToolOptions => ({
+  name: action.name,
+  description: action.description,
+  parameters: action.schema,
+  // Strict mode requires every field to be required, which the action schemas do not guarantee.
+  strict: false,
+  needsApproval: action.metadata.requiresApproval,
+  execute: (input) => action.invoke(input),
+  errorFunction:
+    options.handleErrors ?? true
+      ? (_context, error) => formatToolError(action, error)
+      : null,
+});
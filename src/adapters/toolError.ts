@@ -0,0 +1,17 @@
+import { Action } from "../actionProviders";
+import { CustomError } from "../common/errors";
+
+/**
+ * Formats the error of a failed invocation as the output of a tool, so that the
+ * model reads what went wrong instead of the agent crashing.
+ *
+ * @param action - The action that failed.
+ * @param error - The thrown error.
+ * @returns The readable error message.
+ */
+export const formatToolError = (action: Action, error: unknown): string => {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = error instanceof CustomError ? ` (${error.code})` : "";
+
+  return `Error running ${action.name}${code}: ${message}`;
+};
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { ActionFilter } from "../actionProviders";
+
+/**
+ * Per-tool overrides, keyed by action name.
+ */
+export interface ToolOverrides {
+  /**
+   * Whether the agent should stop and return the tool output as its answer.
+   */
+  returnDirect?: boolean;
+
+  /**
+   * Metadata merged over the default metadata of the tool.
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options shared by the framework adapters.
+ */
+export interface ToolAdapterOptions {
+  /**
+   * A filter, or the name of a configured toolset, selecting the actions to expose.
+   */
+  selection?: string | ActionFilter;
+
+  /**
+   * The ID of the registered wallet the tools run with, e.g. the wallet of the
+   * user the agent serves. Defaults to the default wallet of the kit.
+   */
+  walletId?: string;
+
+  /**
+   * Whether failed invocations resolve to a readable error message instead of
+   * throwing, so the model can correct itself. Defaults to `true`.
+   */
+  handleErrors?: boolean;
+}
+
+/**
+ * Options for `getLangChainTools`.
+ */
+export interface LangChainToolsOptions extends ToolAdapterOptions {
+  /**
+   * Per-tool overrides, keyed by action name.
+   */
+  tools?: Record<string, ToolOverrides>;
+}
+
+
+/**
+ * A tool in the shape produced by the Vercel AI SDK `tool()` helper.
+ *
+ * The schema is exposed both as `parameters` (AI SDK 4) and as `inputSchema`
+ * (AI SDK 5), so the tools work with either version.
+ */
+export interface VercelAITool {
+  description: string;
+  parameters: z.ZodSchema;
+  inputSchema: z.ZodSchema;
+  execute: (args: unknown) => Promise<string>;
+}
+
+/**
+ * The options the OpenAI Agents SDK `tool()` helper takes, for one action.
+ */
+export interface OpenAIAgentsToolOptions {
+  name: string;
+  description: string;
+  parameters: z.ZodSchema;
+  strict: false;
+  needsApproval: boolean;
+  execute: (input: unknown) => Promise<string>;
+  errorFunction: ((context: unknown, error: unknown) => string) | null;
+}
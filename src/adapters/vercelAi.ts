@@ -0,0 +1,55 @@
+import { Action } from "../actionProviders";
+import type { TensaiKit } from "../tensaiKit";
+import { formatToolError } from "./toolError";
+import { lenientSchema } from "./lenientSchema";
+import { ToolAdapterOptions, VercelAITool } from "./types";
+
+/**
+ * Builds Vercel AI SDK tools from the actions of a TensaiKit, for the `tools`
+ * option of `generateText` and `streamText`.
+ *
+ * Every tool reuses the zod schema of its action and resolves to the rendered
+ * `ActionResult`.
+ *
+ * @param tensaiKit - The configured kit.
+ * @param options - Which actions to expose and how.
+ * @returns The tools, keyed by action name.
+ */
+export const getVercelAITools = (
+  tensaiKit: TensaiKit,
+  options: ToolAdapterOptions = {}
+): Record<string, VercelAITool> =>
+  Object.fromEntries(
+    tensaiKit
+      .getActions(options.selection, { walletId: options.walletId })
+      .map((action) => [action.name, toVercelAITool(action, options)])
+  );
+
+/**
+ * Builds a Vercel AI SDK tool from an action.
+ *
+ * @param action - The action.
+ * @param options - How to expose it.
+ * @returns The tool.
+ */
+const toVercelAITool = (
+  action: Action,
+  options: ToolAdapterOptions
+): VercelAITool => {
+  const handleErrors = options.handleErrors ?? true;
+  const schema = lenientSchema(action);
+
+  return {
+    description: action.description,
+    parameters: schema,
+    inputSchema: schema,
+    execute: async (args) => {
+      try {
+        return await action.invoke(args);
+      } catch (error) {
+        if (!handleErrors) throw error;
+        return formatToolError(action, error);
+      }
+    },
+  };
+};
@@ -0,0 +1,148 @@
+import { randomUUID } from "crypto";
+import { TransactionInterceptor } from "../walletProviders";
+import { getActionContext } from "../middleware";
+import { createError, ErrorCode } from "../common/errors";
+import { decodeTransactionCalldata } from "../utils";
+import {
+  ApprovalDecision,
+  ApprovalGateOptions,
+  ApprovalRejectedDetails,
+  PendingApprovalRequest,
+} from "./types";
+
+/**
+ * ApprovalGate pauses every transaction a wallet sends until an approver allows it.
+ *
+ * The gate hooks into the wallet as a transaction interceptor, so it also pauses
+ * the transactions sent by helpers such as `approve()` and not only the main
+ * transaction of an action.
+ */
+export class ApprovalGate {
+  readonly #options: ApprovalGateOptions;
+  readonly #pending = new Map<string, PendingApprovalRequest>();
+
+  /**
+   * Creates a new ApprovalGate.
+   *
+   * @param options - The approver and the notification hooks.
+   */
+  constructor(options: ApprovalGateOptions) {
+    this.#options = options;
+  }
+
+  /**
+   * Lists the requests currently waiting for a decision.
+   *
+   * @returns The pending requests, oldest first.
+   */
+  getPendingRequests(): PendingApprovalRequest[] {
+    return [...this.#pending.values()];
+  }
+
+  /**
+   * Returns the transaction interceptor that holds transactions until they are approved.
+   *
+   * @returns The approval interceptor.
+   */
+  asTransactionInterceptor(): TransactionInterceptor {
+    return {
+      name: "approval",
+      onSendTransaction: async (transaction, next, walletProvider) => {
+        const context = getActionContext();
+
+        const request: PendingApprovalRequest = {
+          id: randomUUID(),
+          action: context?.action.name,
+          actionArgs: context?.args,
+          from: walletProvider.getAddress(),
+          chainId: walletProvider.getNetwork().chainId,
+          to: transaction.to ?? undefined,
+          value: transaction.value ?? BigInt(0),
+          data: transaction.data,
+          decodedCalldata: decodeTransactionCalldata(transaction.data),
+          createdAt: new Date(),
+        };
+
+        try {
+          request.estimatedGas = await walletProvider.estimateGas(transaction);
+        } catch (error) {
+          request.estimationError =
+            error instanceof Error ? error.message : String(error);
+        }
+
+        this.#pending.set(request.id, request);
+        this.#options.onPending?.(request);
+
+        let approved: boolean;
+        let reason: string | undefined;
+        try {
+          ({ approved, reason } = normalizeDecision(
+            await this.decide(request)
+          ));
+        } finally {
+          this.#pending.delete(request.id);
+        }
+
+        this.#options.onDecision?.(request, approved, reason);
+
+        if (!approved) {
+          const details: ApprovalRejectedDetails = { request, reason };
+          throw createError(
+            `Transaction to ${request.to} was rejected${
+              reason ? `: ${reason}` : ""
+            }`,
+            ErrorCode.APPROVAL_REJECTED,
+            details
+          );
+        }
+
+        return next(transaction);
+      },
+    };
+  }
+
+  /**
+   * Asks the approver for a decision, rejecting once the timeout elapsed.
+   *
+   * @param request - The pending request.
+   * @returns The decision of the approver.
+   */
+  private async decide(
+    request: PendingApprovalRequest
+  ): Promise<ApprovalDecision> {
+    const { approver, timeoutMs } = this.#options;
+
+    if (timeoutMs === undefined) {
+      return approver(request);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<ApprovalDecision>((resolve) => {
+      timer = setTimeout(
+        () =>
+          resolve({
+            approved: false,
+            reason: `no decision within ${timeoutMs}ms`,
+          }),
+        timeoutMs
+      );
+    });
+
+    try {
+      return await Promise.race([approver(request), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Normalizes the shorthand boolean decision.
+ *
+ * @param decision - The decision returned by an approver.
+ * @returns The decision as an object.
+ */
+const normalizeDecision = (
+  decision: ApprovalDecision
+): { approved: boolean; reason?: string } =>
+  typeof decision === "boolean" ? { approved: decision } : decision;
@@ -0,0 +1,100 @@
+import * as readline from "readline";
+import { formatEther } from "viem";
+import { Approver, PendingApprovalRequest } from "./types";
+
+/**
+ * Creates an approver that always makes the same decision, e.g. in tests.
+ *
+ * @param approved - Whether every request is approved.
+ * @param reason - The reason reported with every decision.
+ * @returns The approver.
+ */
+export const staticApprover =
+  (approved: boolean, reason?: string): Approver =>
+  () => ({ approved, reason });
+
+/**
+ * Options for the CLI prompt approver.
+ */
+export interface CliPromptApproverOptions {
+  /**
+   * The stream the answer is read from. Defaults to `process.stdin`.
+   */
+  input?: NodeJS.ReadableStream;
+
+  /**
+   * The stream the request is printed to. Defaults to `process.stdout`.
+   */
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * Creates an approver that prints each request and asks the operator to confirm it.
+ *
+ * @param options - The streams to prompt on.
+ * @returns The approver.
+ */
+export const cliPromptApprover =
+  (options: CliPromptApproverOptions = {}): Approver =>
+  (request) => {
+    const rl = readline.createInterface({
+      input: options.input ?? process.stdin,
+      output: options.output ?? process.stdout,
+    });
+
+    return new Promise((resolve) => {
+      rl.question(
+        `${describeApprovalRequest(request)}\nApprove this transaction? (y/N) `,
+        (answer) => {
+          rl.close();
+          const approved = ["y", "yes"].includes(answer.trim().toLowerCase());
+          resolve({
+            approved,
+            reason: approved ? undefined : "rejected by operator",
+          });
+        }
+      );
+    });
+  };
+
+/**
+ * Renders a pending request as a human readable summary.
+ *
+ * @param request - The pending request.
+ * @returns The summary, one field per line.
+ */
+export const describeApprovalRequest = (
+  request: PendingApprovalRequest
+): string => {
+  const lines = [
+    `Pending transaction ${request.id}`,
+    `  action: ${request.action ?? "(none)"}`,
+    `  from:   ${request.from}`,
+    `  to:     ${request.to ?? "(contract creation)"}`,
+    `  value:  ${formatEther(request.value)}`,
+    `  gas:    ${
+      request.estimatedGas !== undefined
+        ? request.estimatedGas.toString()
+        : `estimation failed (${request.estimationError})`
+    }`,
+  ];
+
+  if (request.decodedCalldata) {
+    const { contract, functionName, args } = request.decodedCalldata;
+    lines.push(`  call:   ${contract}.${functionName}`);
+    for (const [name, value] of Object.entries(args)) {
+      lines.push(`    ${name}: ${stringify(value)}`);
+    }
+  } else if (request.data && request.data !== "0x") {
+    lines.push(`  data:   ${request.data}`);
+  }
+
+  return lines.join("\n");
+};
+
+const stringify = (value: unknown): string =>
+  typeof value === "object" && value !== null
+    ? JSON.stringify(value, (_, v) =>
+        typeof v === "bigint" ? v.toString() : v
+      )
+    : String(value);
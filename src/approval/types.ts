@@ -0,0 +1,126 @@
+import { Hex } from "viem";
+import { DecodedCalldata } from "../utils";
+
+/**
+ * A transaction waiting for an operator to approve it.
+ */
+export interface PendingApprovalRequest {
+  /**
+   * A unique identifier for the request.
+   */
+  id: string;
+
+  /**
+   * The name of the action that sent the transaction, if it was sent from an action.
+   */
+  action?: string;
+
+  /**
+   * The arguments the action was invoked with, if it was sent from an action.
+   */
+  actionArgs?: unknown;
+
+  /**
+   * The address of the wallet that will sign the transaction.
+   */
+  from: string;
+
+  /**
+   * The chain id of the network the transaction will be sent to.
+   */
+  chainId?: string;
+
+  /**
+   * The target of the transaction.
+   */
+  to?: string;
+
+  /**
+   * The native value sent with the transaction, in wei.
+   */
+  value: bigint;
+
+  /**
+   * The raw calldata of the transaction.
+   */
+  data?: Hex;
+
+  /**
+   * The calldata decoded against the ABIs the kit knows about, if it matched one.
+   */
+  decodedCalldata?: DecodedCalldata;
+
+  /**
+   * The estimated gas, or undefined if the estimation failed (e.g. the transaction would revert).
+   */
+  estimatedGas?: bigint;
+
+  /**
+   * Why gas estimation failed, if it did.
+   */
+  estimationError?: string;
+
+  /**
+   * When the request was created.
+   */
+  createdAt: Date;
+}
+
+/**
+ * The decision an approver makes on a pending request.
+ */
+export type ApprovalDecision = boolean | { approved: boolean; reason?: string };
+
+/**
+ * Decides whether a pending transaction may be sent.
+ *
+ * An approver may take as long as it needs, e.g. to wait for an operator to answer
+ * a prompt or a webhook; the transaction stays paused until it resolves.
+ */
+export type Approver = (
+  request: PendingApprovalRequest
+) => Promise<ApprovalDecision> | ApprovalDecision;
+
+/**
+ * Options for an `ApprovalGate`.
+ */
+export interface ApprovalGateOptions {
+  /**
+   * Decides on every pending request.
+   */
+  approver: Approver;
+
+  /**
+   * Called when a transaction is paused, before the approver is asked.
+   */
+  onPending?: (request: PendingApprovalRequest) => void;
+
+  /**
+   * Called once the approver decided.
+   */
+  onDecision?: (
+    request: PendingApprovalRequest,
+    approved: boolean,
+    reason?: string
+  ) => void;
+
+  /**
+   * Rejects a request if the approver has not decided within this many milliseconds.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Details attached to an `APPROVAL_REJECTED` error.
+ */
+export interface ApprovalRejectedDetails {
+  /**
+   * The rejected request.
+   */
+  request: PendingApprovalRequest;
+
+  /**
+   * Why the request was rejected, if the approver said.
+   */
+  reason?: string;
+}
@@ -0,0 +1,136 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { CacheBackend, CacheEntry } from "./types";
+
+const BIGINT_TAG = "$bigint";
+
+/**
+ * Cache backend that persists entries to a local JSON file, so that permanent
+ * entries such as market params survive restarts.
+ *
+ * The file is read on first use and rewritten after every change. Bigints are
+ * stored as tagged strings and restored on read. Expired entries are dropped
+ * when the file is written.
+ */
+export class FileCacheBackend implements CacheBackend {
+  readonly #filePath: string;
+  #entries?: Promise<Map<string, CacheEntry>>;
+  #writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new FileCacheBackend.
+   *
+   * @param filePath - The cache file. It is created, along with its directory, on the first write.
+   */
+  constructor(filePath: string) {
+    this.#filePath = filePath;
+  }
+
+  /**
+   * Reads an entry.
+   *
+   * @param key - The key of the entry.
+   * @returns The entry, or undefined if it is not cached.
+   */
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return (await this.load()).get(key);
+  }
+
+  /**
+   * Stores an entry and writes the file.
+   *
+   * @param key - The key of the entry.
+   * @param entry - The entry.
+   */
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    (await this.load()).set(key, entry);
+    await this.save();
+  }
+
+  /**
+   * Removes an entry and writes the file.
+   *
+   * @param key - The key of the entry.
+   */
+  async delete(key: string): Promise<void> {
+    if ((await this.load()).delete(key)) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Removes every entry whose key starts with a prefix and writes the file.
+   *
+   * @param prefix - The prefix. Removes every entry when omitted.
+   */
+  async clear(prefix?: string): Promise<void> {
+    const entries = await this.load();
+
+    for (const key of [...entries.keys()]) {
+      if (!prefix || key.startsWith(prefix)) {
+        entries.delete(key);
+      }
+    }
+
+    await this.save();
+  }
+
+  /**
+   * Reads the cache file once.
+   *
+   * @returns The entries, or no entries if the file does not exist yet.
+   */
+  private load(): Promise<Map<string, CacheEntry>> {
+    this.#entries ??= fs
+      .readFile(this.#filePath, "utf8")
+      .then(
+        (content) =>
+          new Map(
+            Object.entries(
+              JSON.parse(content, (_key, value) =>
+                value && typeof value[BIGINT_TAG] === "string"
+                  ? BigInt(value[BIGINT_TAG])
+                  : value
+              ) as Record<string, CacheEntry>
+            )
+          )
+      )
+      .catch((error) => {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return new Map();
+        }
+        throw error;
+      });
+
+    return this.#entries;
+  }
+
+  /**
+   * Writes the unexpired entries, after every previous write completed.
+   */
+  private save(): Promise<void> {
+    const write = this.#writes.then(async () => {
+      const now = Date.now();
+      const entries = Object.fromEntries(
+        [...(await this.load())].filter(
+          ([, entry]) => entry.expiresAt === undefined || entry.expiresAt > now
+        )
+      );
+
+      const tmpPath = `${this.#filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.#filePath), { recursive: true });
+      await fs.writeFile(
+        tmpPath,
+        JSON.stringify(entries, (_key, value) =>
+          typeof value === "bigint" ? { [BIGINT_TAG]: value.toString() } : value
+        ),
+        "utf8"
+      );
+      // Renaming is atomic, so a crash never leaves a truncated cache file.
+      await fs.rename(tmpPath, this.#filePath);
+    });
+    this.#writes = write.catch(() => undefined);
+
+    return write;
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./lruCacheBackend";
+export * from "./fileCacheBackend";
+export * from "./readThroughCache";
@@ -0,0 +1,74 @@
+import { CacheBackend, CacheEntry } from "./types";
+
+/**
+ * Cache backend that keeps entries in memory, evicting the least recently used
+ * entry once it holds `maxEntries`.
+ */
+export class LruCacheBackend implements CacheBackend {
+  readonly #maxEntries: number;
+  readonly #entries = new Map<string, CacheEntry>();
+
+  /**
+   * Creates a new LruCacheBackend.
+   *
+   * @param maxEntries - The most entries kept. Defaults to 1000.
+   */
+  constructor(maxEntries = 1000) {
+    this.#maxEntries = maxEntries;
+  }
+
+  /**
+   * Reads an entry and marks it as recently used.
+   *
+   * @param key - The key of the entry.
+   * @returns The entry, or undefined if it is not cached.
+   */
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.#entries.get(key);
+
+    if (entry) {
+      // Maps iterate in insertion order, so re-inserting moves the entry last.
+      this.#entries.delete(key);
+      this.#entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Stores an entry, evicting the least recently used entry if the cache is full.
+   *
+   * @param key - The key of the entry.
+   * @param entry - The entry.
+   */
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.#entries.delete(key);
+    this.#entries.set(key, entry);
+
+    if (this.#entries.size > this.#maxEntries) {
+      this.#entries.delete(this.#entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Removes an entry.
+   *
+   * @param key - The key of the entry.
+   */
+  async delete(key: string): Promise<void> {
+    this.#entries.delete(key);
+  }
+
+  /**
+   * Removes every entry whose key starts with a prefix.
+   *
+   * @param prefix - The prefix. Removes every entry when omitted.
+   */
+  async clear(prefix?: string): Promise<void> {
+    for (const key of [...this.#entries.keys()]) {
+      if (!prefix || key.startsWith(prefix)) {
+        this.#entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { LruCacheBackend } from "./lruCacheBackend";
+import { CacheBackend, CacheOptions, CacheSource } from "./types";
+
+const MINUTE = 60 * 1000;
+
+/**
+ * The default time to live of each source, in milliseconds.
+ */
+export const DEFAULT_CACHE_TTLS: Record<CacheSource, number> = {
+  tokenMetadata: Infinity,
+  tokenDecimals: Infinity,
+  morphoMarketParams: Infinity,
+  tokenPrices: 30 * 1000,
+  sushiTokens: 5 * MINUTE,
+  sushiLiquidityProviders: 5 * MINUTE,
+  morphoListings: 5 * MINUTE,
+  morphoMarketState: 30 * 1000,
+};
+
+/**
+ * ReadThroughCache caches the results of API, subgraph and contract reads.
+ *
+ * A read is loaded once and then served from the backend until its source's
+ * time to live elapses. Concurrent reads of the same key share a single load.
+ * Failed loads are not cached, and a failing backend only costs a warning, the
+ * read then goes to the source.
+ */
+export class ReadThroughCache {
+  readonly #backend: CacheBackend;
+  readonly #ttls: Record<CacheSource, number>;
+  readonly #loading = new Map<string, Promise<unknown>>();
+
+  /**
+   * Creates a new ReadThroughCache.
+   *
+   * @param options - The backend and the time to live per source.
+   */
+  constructor(options: CacheOptions = {}) {
+    this.#backend = options.backend ?? new LruCacheBackend();
+    this.#ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttls };
+  }
+
+  /**
+   * Reads a value from the cache, or loads and caches it.
+   *
+   * @param source - The source of the value, which sets its time to live.
+   * @param key - The key of the value within its source, e.g. the request URL or `"747474:0x..."`.
+   * @param load - Loads the value from its source.
+   * @param cacheIf - Optionally, decides whether a loaded value may be cached.
+   * @returns The value.
+   */
+  async read<T>(
+    source: CacheSource,
+    key: string,
+    load: () => Promise<T>,
+    cacheIf?: (value: T) => boolean
+  ): Promise<T> {
+    const ttl = this.#ttls[source];
+    if (!(ttl > 0)) {
+      return load();
+    }
+
+    const cacheKey = `${source}:${key}`;
+    const entry = await this.#backend.get(cacheKey).catch(warn);
+
+    if (
+      entry &&
+      (entry.expiresAt === undefined || entry.expiresAt > Date.now())
+    ) {
+      return entry.value as T;
+    }
+
+    const pending = this.#loading.get(cacheKey);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const loading = load().then(async (value) => {
+      if (!cacheIf || cacheIf(value)) {
+        await this.#backend
+          .set(cacheKey, {
+            value,
+            expiresAt: Number.isFinite(ttl) ? Date.now() + ttl : undefined,
+          })
+          .catch(warn);
+      }
+      return value;
+    });
+
+    this.#loading.set(cacheKey, loading);
+    try {
+      return await loading;
+    } finally {
+      this.#loading.delete(cacheKey);
+    }
+  }
+
+  /**
+   * Removes cached values.
+   *
+   * @param source - The source to clear. Clears every source when omitted.
+   */
+  async clear(source?: CacheSource): Promise<void> {
+    await this.#backend.clear(source ? `${source}:` : undefined);
+  }
+}
+
+/**
+ * Reports a failing cache backend.
+ *
+ * @param error - The error of the backend.
+ * @returns Undefined, so that the read goes to the source.
+ */
+const warn = (error: unknown): undefined => {
+  console.warn("Warning: Cache backend failed:", error);
+  return undefined;
+};
+
+let activeCache: ReadThroughCache | undefined;
+
+/**
+ * Configures the cache used by the Morpho and Sushi logic modules.
+ *
+ * Caching is off until this is called, so every read goes to its source.
+ *
+ * @param options - The cache, the options of a new one, or `false` to disable caching.
+ * @returns The active cache, if any.
+ */
+export const configureCache = (
+  options: ReadThroughCache | CacheOptions | false
+): ReadThroughCache | undefined => {
+  activeCache =
+    options === false
+      ? undefined
+      : options instanceof ReadThroughCache
+      ? options
+      : new ReadThroughCache(options);
+
+  return activeCache;
+};
+
+/**
+ * Returns the cache used by the Morpho and Sushi logic modules.
+ *
+ * @returns The active cache, or undefined if caching is disabled.
+ */
+export const getCache = (): ReadThroughCache | undefined => activeCache;
+
+/**
+ * Reads a value through the active cache, or straight from its source if
+ * caching is disabled.
+ *
+ * @param source - The source of the value, which sets its time to live.
+ * @param key - The key of the value within its source.
+ * @param load - Loads the value from its source.
+ * @param cacheIf - Optionally, decides whether a loaded value may be cached.
+ * @returns The value.
+ */
+export const cachedRead = <T>(
+  source: CacheSource,
+  key: string,
+  load: () => Promise<T>,
+  cacheIf?: (value: T) => boolean
+): Promise<T> =>
+  activeCache ? activeCache.read(source, key, load, cacheIf) : load();
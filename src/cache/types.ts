@@ -0,0 +1,88 @@
+/**
+ * A cached value.
+ */
+export interface CacheEntry {
+  /**
+   * The cached value.
+   */
+  value: unknown;
+
+  /**
+   * When the entry expires, in milliseconds since the epoch. Entries without
+   * an expiry are kept until they are evicted or cleared.
+   */
+  expiresAt?: number;
+}
+
+/**
+ * Stores cache entries, e.g. in memory or in a file.
+ */
+export interface CacheBackend {
+  /**
+   * Reads an entry.
+   *
+   * @param key - The key of the entry.
+   * @returns The entry, or undefined if it is not cached.
+   */
+  get(key: string): Promise<CacheEntry | undefined>;
+
+  /**
+   * Stores an entry, replacing any entry with the same key.
+   *
+   * @param key - The key of the entry.
+   * @param entry - The entry.
+   */
+  set(key: string, entry: CacheEntry): Promise<void>;
+
+  /**
+   * Removes an entry.
+   *
+   * @param key - The key of the entry.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Removes every entry whose key starts with a prefix.
+   *
+   * @param prefix - The prefix. Removes every entry when omitted.
+   */
+  clear(prefix?: string): Promise<void>;
+}
+
+/**
+ * The sources of cached data, each with its own time to live.
+ *
+ * - `tokenMetadata`: Sushi token metadata, permanent by default.
+ * - `tokenDecimals`: ERC-20 decimals read from contracts, permanent by default.
+ * - `morphoMarketParams`: Morpho Blue market params, permanent by default.
+ * - `tokenPrices`: Sushi token prices, 30 seconds by default.
+ * - `sushiTokens`: The Sushi token list from the subgraph, 5 minutes by default.
+ * - `sushiLiquidityProviders`: Sushi liquidity providers, 5 minutes by default.
+ * - `morphoListings`: Whitelisted Morpho markets, vaults and curators, 5 minutes by default.
+ * - `morphoMarketState`: Morpho market state from the API, 30 seconds by default.
+ */
+export type CacheSource =
+  | "tokenMetadata"
+  | "tokenDecimals"
+  | "morphoMarketParams"
+  | "tokenPrices"
+  | "sushiTokens"
+  | "sushiLiquidityProviders"
+  | "morphoListings"
+  | "morphoMarketState";
+
+/**
+ * Configuration options for the read-through cache.
+ */
+export interface CacheOptions {
+  /**
+   * Where entries are stored. Defaults to an in-memory LRU of 1000 entries.
+   */
+  backend?: CacheBackend;
+
+  /**
+   * The time to live per source, in milliseconds. `Infinity` caches
+   * permanently, `0` disables caching for the source.
+   */
+  ttls?: Partial<Record<CacheSource, number>>;
+}
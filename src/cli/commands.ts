@@ -0,0 +1,286 @@
+import { parseArgs } from "util";
+import { Action } from "../actionProviders";
+import { createError, CustomError, ErrorCode } from "../common/errors";
+import { actionToJsonSchema } from "../toolDefinitions";
+import type { TensaiKit } from "../tensaiKit";
+import { loadKit } from "./loadKit";
+
+const USAGE = `Usage: tensaikit <command> [options]
+
+Commands:
+  list-actions                 List the available actions
+  describe <action>            Show the description, classification and arguments of an action
+  invoke <action> --json '{}'  Invoke an action with JSON arguments
+  wallet                       Show the wallet details and native balance
+  balance <token>              Show the wallet balance of an ERC20 token
+
+Options:
+  --config <path>    The config module (default: tensaikit.config.js)
+  --toolset <name>   Only consider the actions of a configured toolset
+  --json <args>      The arguments of 'invoke'
+  --dry-run          Simulate the transactions of 'invoke' instead of sending them
+  --output json      Print machine readable JSON
+  -h, --help         Show this help
+`;
+
+const COMMANDS = ["list-actions", "describe", "invoke", "wallet", "balance"];
+
+/**
+ * Where the CLI writes its output.
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+};
+
+/**
+ * Runs the tensaikit CLI.
+ *
+ * @param argv - The command line arguments, without the node and script paths.
+ * @param io - Where to write the output.
+ * @param load - Loads the kit from the config path, overridable for embedding.
+ * @returns The process exit code.
+ */
+export const runCli = async (
+  argv: string[],
+  io: CliIO = defaultIO,
+  load: (configPath?: string) => Promise<TensaiKit> = loadKit
+): Promise<number> => {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, target] = positionals;
+
+  if (values.help || !command) {
+    io.stdout(USAGE);
+    return command || values.help ? 0 : 2;
+  }
+
+  if (!COMMANDS.includes(command)) {
+    io.stderr(`Unknown command "${command}"\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    const kit = await load(values.config);
+    const actions = kit.getActions(values.toolset);
+    const asJson = values.output === "json";
+
+    switch (command) {
+      case "list-actions":
+        io.stdout(
+          asJson
+            ? JSON.stringify(
+                actions.map(({ name, provider, metadata }) => ({
+                  name,
+                  provider,
+                  metadata,
+                })),
+                null,
+                2
+              )
+            : actions
+                .map(
+                  (action) =>
+                    `${action.name}  [${action.provider}, ${
+                      action.metadata.mutatesState ? "write" : "read"
+                    }, risk: ${action.metadata.riskLevel}]`
+                )
+                .join("\n")
+        );
+        return 0;
+
+      case "describe": {
+        const action = findAction(actions, requireTarget(target, "describe"));
+        const description = {
+          name: action.name,
+          provider: action.provider,
+          description: action.description.trim(),
+          metadata: action.metadata,
+          arguments: actionToJsonSchema(action),
+        };
+        io.stdout(
+          asJson
+            ? JSON.stringify(description, null, 2)
+            : [
+                `${description.name} (${description.provider})`,
+                "",
+                description.description,
+                "",
+                `Classification: ${JSON.stringify(description.metadata)}`,
+                `Arguments: ${JSON.stringify(description.arguments, null, 2)}`,
+              ].join("\n")
+        );
+        return 0;
+      }
+
+      case "invoke": {
+        const action = findAction(actions, requireTarget(target, "invoke"));
+        return await invoke(io, action, parseJsonArgs(values.json), {
+          dryRun: values["dry-run"],
+        });
+      }
+
+      case "wallet":
+        return await invoke(
+          io,
+          findAction(actions, "WalletActionProvider_get_wallet_details"),
+          {}
+        );
+
+      case "balance":
+        return await invoke(
+          io,
+          findAction(actions, "ERC20ActionProvider_get_balance"),
+          { contractAddress: requireTarget(target, "balance") }
+        );
+
+      default:
+        return 2;
+    }
+  } catch (error) {
+    io.stderr(formatCliError(error));
+    return 1;
+  }
+};
+
+/**
+ * Parses the command line.
+ *
+ * @param argv - The command line arguments.
+ * @returns The options and positional arguments.
+ */
+const parseCliArgs = (argv: string[]) =>
+  parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: "string" },
+      toolset: { type: "string" },
+      json: { type: "string" },
+      "dry-run": { type: "boolean" },
+      output: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+/**
+ * Invokes an action and prints its result.
+ *
+ * @param io - Where to write the output.
+ * @param action - The action.
+ * @param args - The arguments of the action.
+ * @param options - The invocation options.
+ * @param options.dryRun - Whether to simulate the transactions instead of sending them.
+ * @returns The exit code, 1 if the action reported an error.
+ */
+const invoke = async (
+  io: CliIO,
+  action: Action,
+  args: unknown,
+  options: { dryRun?: boolean } = {}
+): Promise<number> => {
+  const result = await action.invokeWithResult(args, options);
+
+  io.stdout(
+    JSON.stringify(
+      result,
+      (_key, value) => (typeof value === "bigint" ? value.toString() : value),
+      2
+    )
+  );
+
+  return result.status === "error" ? 1 : 0;
+};
+
+/**
+ * Finds an action by name.
+ *
+ * @param actions - The available actions.
+ * @param name - The name of the action.
+ * @returns The action.
+ *
+ * @throws NOT_FOUND if no available action has that name.
+ */
+const findAction = (actions: Action[], name: string): Action => {
+  const action = actions.find((candidate) => candidate.name === name);
+
+  if (!action) {
+    throw createError(
+      `Unknown action "${name}". ` +
+        "Run 'tensaikit list-actions' to see the available actions.",
+      ErrorCode.NOT_FOUND
+    );
+  }
+
+  return action;
+};
+
+/**
+ * Ensures a command received its positional argument.
+ *
+ * @param target - The positional argument.
+ * @param command - The command, for the error message.
+ * @returns The positional argument.
+ *
+ * @throws MISSING_REQUIRED_FIELD if it is missing.
+ */
+const requireTarget = (
+  target: string | undefined,
+  command: string
+): string => {
+  if (!target) {
+    throw createError(
+      `'${command}' requires an argument, see 'tensaikit --help'`,
+      ErrorCode.MISSING_REQUIRED_FIELD
+    );
+  }
+
+  return target;
+};
+
+/**
+ * Parses the `--json` arguments of `invoke`.
+ *
+ * @param json - The raw option value.
+ * @returns The parsed arguments, `{}` when omitted.
+ *
+ * @throws INVALID_INPUT if the value is not valid JSON.
+ */
+const parseJsonArgs = (json: string | undefined): unknown => {
+  if (!json) return {};
+
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw createError(
+      `--json is not valid JSON: ${(error as Error).message}`,
+      ErrorCode.INVALID_INPUT
+    );
+  }
+};
+
+/**
+ * Formats an error for the terminal.
+ *
+ * @param error - The thrown value.
+ * @returns The message to print.
+ */
+const formatCliError = (error: unknown): string => {
+  if (error instanceof CustomError) {
+    return `Error (${error.code}): ${error.message}`;
+  }
+
+  return `Error: ${error instanceof Error ? error.message : String(error)}`;
+};
@@ -0,0 +1,69 @@
+import * as path from "path";
+import { createError, ErrorCode } from "../common/errors";
+import { TensaiKit, TensaiKitOptions } from "../tensaiKit";
+
+/**
+ * What a CLI config module may export, as `module.exports` or as `default`.
+ */
+export type CliConfigExport =
+  | TensaiKit
+  | TensaiKitOptions
+  | (() =>
+      | TensaiKit
+      | TensaiKitOptions
+      | Promise<TensaiKit | TensaiKitOptions>);
+
+/**
+ * The config file used when `--config` is not passed.
+ */
+export const DEFAULT_CLI_CONFIG = "tensaikit.config.js";
+
+/**
+ * Loads the kit described by a CLI config module, or by a declarative YAML or
+ * JSON config file (see `TensaiKit.fromConfig`).
+ *
+ * @param configPath - The path of the config file, relative to the working directory.
+ * @returns The configured kit.
+ *
+ * @throws CONFIGURATION_ERROR if the module cannot be loaded or exports nothing usable.
+ */
+export const loadKit = async (
+  configPath = DEFAULT_CLI_CONFIG
+): Promise<TensaiKit> => {
+  const resolved = path.resolve(configPath);
+
+  if ([".yaml", ".yml", ".json"].includes(path.extname(resolved))) {
+    return TensaiKit.fromConfig(resolved);
+  }
+
+  let exported: unknown;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const loaded = require(resolved);
+    exported = loaded?.default ?? loaded;
+  } catch (error) {
+    throw createError(
+      `Could not load the config file ${resolved}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      ErrorCode.CONFIGURATION_ERROR
+    );
+  }
+
+  const config =
+    typeof exported === "function"
+      ? await (exported as () => unknown)()
+      : exported;
+
+  if (config instanceof TensaiKit) return config;
+
+  if (typeof config !== "object" || config === null) {
+    throw createError(
+      `The config file ${resolved} must export a TensaiKit, TensaiKit options, ` +
+        "or a function returning either.",
+      ErrorCode.CONFIGURATION_ERROR
+    );
+  }
+
+  return TensaiKit.from(config as TensaiKitOptions);
+};
@@ -9,3 +9,7 @@ export const DEFAULT_SLIPPAGE_PERCENT = 5;
 export const USDC_DECIMALS_FACTOR = 10 ** 6;
 
 export const DEFAULT_RPC_TIMEOUT = 30000; // 30 seconds
+
+export const DEFAULT_API_RETRIES = 3;
+export const DEFAULT_RETRY_BASE_DELAY = 250; // milliseconds
+export const DEFAULT_RETRY_MAX_DELAY = 10000; // 10 seconds
@@ -3,7 +3,7 @@
  */
 
 export class CustomError extends Error {
-  constructor(message: string, public code: string) {
+  constructor(message: string, public code: string, public details?: unknown) {
     super(message);
     this.name = "CustomError";
   }
@@ -23,6 +23,10 @@ export const handleError = (message: string, error: unknown): CustomError => {
   return new CustomError(fullMessage, "UNKNOWN_ERROR");
 };
 
-export const createError = (message: string, code: string): CustomError => {
-  return new CustomError(message, code);
+export const createError = (
+  message: string,
+  code: string,
+  details?: unknown
+): CustomError => {
+  return new CustomError(message, code, details);
 };
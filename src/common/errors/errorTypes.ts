@@ -26,6 +26,14 @@ export enum ErrorCode {
   INVALID_INPUT = "INVALID_INPUT",
   MISSING_REQUIRED_FIELD = "MISSING_REQUIRED_FIELD",
 
+  // Policy errors
+  POLICY_VIOLATION = "POLICY_VIOLATION",
+  APPROVAL_REJECTED = "APPROVAL_REJECTED",
+
+  // Server errors
+  UNAUTHORIZED = "UNAUTHORIZED",
+  NOT_FOUND = "NOT_FOUND",
+
   // General errors
   UNKNOWN_ERROR = "UNKNOWN_ERROR",
   NOT_IMPLEMENTED = "NOT_IMPLEMENTED",
@@ -1 +1,2 @@
 export * from "./commonTypes";
+export * from "./jsonRpc";
@@ -0,0 +1,41 @@
+/**
+ * JSON-RPC 2.0 message types, shared by the MCP and the HTTP servers.
+ */
+
+/**
+ * A JSON-RPC 2.0 request, or a notification when it has no `id`.
+ */
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * A JSON-RPC 2.0 error object.
+ */
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * A JSON-RPC 2.0 response.
+ */
+export type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: string | number | null; result: unknown }
+  | { jsonrpc: "2.0"; id: string | number | null; error: JsonRpcError };
+
+/**
+ * The error codes reserved by the JSON-RPC 2.0 specification.
+ */
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  SERVER_ERROR: -32000,
+} as const;
@@ -0,0 +1,26 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+/**
+ * Creates a check for the bearer token in an `Authorization` header.
+ *
+ * Tokens are compared as SHA-256 digests in constant time.
+ *
+ * @param tokens - The accepted tokens.
+ * @returns A function telling whether an `Authorization` header carries one of the tokens.
+ */
+export const createBearerTokenCheck = (
+  tokens: string[]
+): ((authorization: string | undefined) => boolean) => {
+  const digests = tokens.map((token) =>
+    createHash("sha256").update(token).digest()
+  );
+
+  return (authorization) => {
+    const match = /^Bearer (.+)$/.exec(authorization ?? "");
+    const digest = match && createHash("sha256").update(match[1]).digest();
+
+    return (
+      !!digest && digests.some((expected) => timingSafeEqual(expected, digest))
+    );
+  };
+};
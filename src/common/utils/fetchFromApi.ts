@@ -1,32 +1,281 @@
+import { createError, ErrorCode } from "../errors";
+import {
+  DEFAULT_API_RETRIES,
+  DEFAULT_RETRY_BASE_DELAY,
+  DEFAULT_RETRY_MAX_DELAY,
+  DEFAULT_RPC_TIMEOUT,
+} from "../constants";
+
+/**
+ * A `fetch` implementation, e.g. one that goes through a proxy or one backed by
+ * local stand-in servers. The global `fetch` is one.
+ */
+export type FetchFunction = (
+  input: string,
+  init?: RequestInit
+) => Promise<Response>;
+
+/**
+ * How failed requests are retried.
+ */
+export interface RetryOptions {
+  /**
+   * How many times a failed request is retried. Defaults to 3.
+   */
+  retries?: number;
+
+  /**
+   * The base of the exponential backoff, in milliseconds. Defaults to 250.
+   */
+  baseDelayMs?: number;
+
+  /**
+   * The longest wait between two attempts, in milliseconds. A `Retry-After`
+   * asking for longer fails the request instead. Defaults to 10 seconds.
+   */
+  maxDelayMs?: number;
+}
+
 export interface FetchOptions {
   method?: "GET" | "POST";
   headers?: Record<string, string>;
   body?: any;
+
+  /**
+   * How long a single attempt may take, in milliseconds. Defaults to `DEFAULT_RPC_TIMEOUT`.
+   */
+  timeoutMs?: number;
+
+  /**
+   * How failed requests are retried, or `false` to never retry.
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Whether sending the request twice has the same effect as sending it once.
+   * Only idempotent requests are retried. Defaults to true for GET requests and
+   * false for POST requests, set it to true for POSTs that only read, e.g.
+   * GraphQL queries.
+   */
+  idempotent?: boolean;
+
+  /**
+   * The `fetch` implementation used for the request. Defaults to the global `fetch`.
+   */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Details attached to the `API_CALL_FAILED` error of a failed request.
+ */
+export interface ApiCallFailedDetails {
+  /**
+   * The requested URL.
+   */
+  url: string;
+
+  /**
+   * The HTTP status of the last response, if one was received.
+   */
+  status?: number;
+
+  /**
+   * How many attempts were made.
+   */
+  attempts: number;
+
+  /**
+   * Whether the last attempt timed out.
+   */
+  timedOut?: boolean;
+
+  /**
+   * The errors reported by a GraphQL endpoint.
+   */
+  errors?: unknown[];
+}
+
+/**
+ * The timeout, retry and `fetch` options an API client applies to each of its
+ * requests, e.g. the ones set in the config of an action provider.
+ */
+export type RequestOptions = Pick<
+  FetchOptions,
+  "timeoutMs" | "retry" | "fetch"
+>;
+
+/**
+ * Picks the request options out of an API client config.
+ *
+ * @param config - The config, e.g. of an action provider.
+ * @returns The timeout, retry and `fetch` options of the config.
+ */
+export const requestOptions = ({
+  timeoutMs,
+  retry,
+  fetch,
+}: RequestOptions): RequestOptions => ({ timeoutMs, retry, fetch });
+
+/**
+ * Resolves the `fetch` implementation of a request.
+ *
+ * @param fetchFn - The `fetch` implementation configured for the request, if any.
+ * @returns The configured implementation, else the global `fetch`.
+ */
+export const resolveFetch = (fetchFn?: FetchFunction): FetchFunction =>
+  fetchFn ?? fetch;
+
+/**
+ * Thrown by a single attempt, telling whether another attempt may succeed.
+ */
+class AttemptError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean,
+    public status?: number,
+    public retryAfterMs?: number,
+    public timedOut?: boolean
+  ) {
+    super(message);
+    this.name = "AttemptError";
+  }
 }
 
+/**
+ * Fetches JSON from an API.
+ *
+ * Every attempt is aborted after `timeoutMs`. Timeouts, network errors, 5xx
+ * responses and 429 responses of idempotent requests are retried with
+ * exponential backoff and full jitter, waiting at least as long as a
+ * `Retry-After` header asks for.
+ *
+ * @param url - The URL to fetch.
+ * @param options - The request, timeout and retry options.
+ * @returns The parsed JSON response.
+ *
+ * @throws API_CALL_FAILED once every attempt failed, or on any other 4xx response.
+ */
 export const fetchFromApi = async <T>(
   url: string,
   options: FetchOptions = {}
 ): Promise<T> => {
-  try {
-    const { method = "GET", headers = {}, body } = options;
-
-    const response = await fetch(url, {
-      method,
-      headers: { "Content-Type": "application/json", ...headers },
-      ...(method === "POST" && body ? { body: JSON.stringify(body) } : {}),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `API Error: ${response.status} ${response.statusText} - ${errorText}`
+  const {
+    method = "GET",
+    headers = {},
+    body,
+    timeoutMs = DEFAULT_RPC_TIMEOUT,
+    retry = {},
+    idempotent = method === "GET",
+  } = options;
+  const fetchFn = resolveFetch(options.fetch);
+  const {
+    retries = DEFAULT_API_RETRIES,
+    baseDelayMs = DEFAULT_RETRY_BASE_DELAY,
+    maxDelayMs = DEFAULT_RETRY_MAX_DELAY,
+  } = retry && idempotent ? retry : { retries: 0 };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fetchOnce<T>(fetchFn, url, {
+        method,
+        headers: { "Content-Type": "application/json", ...headers },
+        ...(method === "POST" && body ? { body: JSON.stringify(body) } : {}),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      const failure =
+        error instanceof AttemptError
+          ? error
+          : new AttemptError((error as Error).message, false);
+
+      const delayMs = Math.max(
+        Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)),
+        failure.retryAfterMs ?? 0
       );
+
+      if (!failure.retryable || attempt > retries || delayMs > maxDelayMs) {
+        const details: ApiCallFailedDetails = {
+          url,
+          status: failure.status,
+          attempts: attempt,
+          timedOut: failure.timedOut,
+        };
+
+        throw createError(
+          `Fetch failed for ${url}: ${failure.message}`,
+          ErrorCode.API_CALL_FAILED,
+          details
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
     }
+  }
+};
+
+/**
+ * Makes a single attempt at fetching JSON.
+ *
+ * @param fetchFn - The `fetch` implementation.
+ * @param url - The URL to fetch.
+ * @param init - The request.
+ * @returns The parsed JSON response.
+ *
+ * @throws AttemptError describing whether the request may be retried.
+ */
+const fetchOnce = async <T>(
+  fetchFn: FetchFunction,
+  url: string,
+  init: RequestInit
+): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetchFn(url, init);
+  } catch (error: any) {
+    const timedOut = error?.name === "TimeoutError";
+    throw new AttemptError(
+      timedOut ? "Request timed out" : error?.message ?? String(error),
+      true,
+      undefined,
+      undefined,
+      timedOut
+    );
+  }
 
-    const data = await response.json();
-    return data as T;
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new AttemptError(
+      `API Error: ${response.status} ${response.statusText} - ${errorText}`,
+      response.status >= 500 || response.status === 429,
+      response.status,
+      parseRetryAfter(response.headers.get("retry-after"))
+    );
+  }
+
+  try {
+    return (await response.json()) as T;
   } catch (error: any) {
-    throw new Error(`Fetch failed for ${url}: ${error.message}`);
+    throw new AttemptError(
+      `Invalid JSON response: ${error.message}`,
+      false,
+      response.status
+    );
   }
 };
+
+/**
+ * Parses a `Retry-After` header, given in seconds or as an HTTP date.
+ *
+ * @param value - The header value.
+ * @returns The time to wait in milliseconds, if the header is valid.
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
@@ -4,3 +4,5 @@ export * from "./makeSubgraphQueryCall";
 export * from "./objectToString";
 export * from "./validation";
 export * from "./wrapAndStringify";
+export * from "./readJsonBody";
+export * from "./bearerToken";
@@ -1,9 +1,30 @@
-import { fetchFromApi } from "./fetchFromApi";
+import { createError, CustomError, ErrorCode } from "../errors";
+import {
+  ApiCallFailedDetails,
+  fetchFromApi,
+  FetchOptions,
+  RequestOptions,
+} from "./fetchFromApi";
 
+/**
+ * Runs a GraphQL query against a subgraph or GraphQL API.
+ *
+ * @param subgraphURL - The GraphQL endpoint.
+ * @param subgraphQuery - The query and its variables.
+ * @param apiKey - Optionally, the API key sent as a bearer token.
+ * @param options - Optionally, the timeout, retry and `fetch` options of the
+ * request. Queries are only retried when `idempotent` is set, since the same
+ * endpoint also takes mutations.
+ * @returns The `data` of the response.
+ *
+ * @throws API_CALL_FAILED if the request fails, or if the response carries
+ * GraphQL `errors` or no `data`.
+ */
 export const makeSubgraphQueryCall = async (
   subgraphURL: string,
   subgraphQuery: { query: string; variables?: Record<string, any> },
-  apiKey?: string
+  apiKey?: string,
+  options: RequestOptions & Pick<FetchOptions, "idempotent"> = {}
 ) => {
   try {
     const headers: Record<string, string> = {
@@ -15,17 +36,45 @@ export const makeSubgraphQueryCall = async (
     }
 
     const response = await fetchFromApi<any>(subgraphURL, {
+      ...options,
       method: "POST",
       headers,
       body: subgraphQuery,
     });
 
-    if (response?.data) {
-      return response.data;
-    } else {
-      return null;
+    if (Array.isArray(response?.errors) && response.errors.length > 0) {
+      const details: ApiCallFailedDetails = {
+        url: subgraphURL,
+        attempts: 1,
+        errors: response.errors,
+      };
+
+      throw createError(
+        `Subgraph query failed ${subgraphURL}: ${response.errors
+          .map((error: any) => error?.message ?? JSON.stringify(error))
+          .join("; ")}`,
+        ErrorCode.API_CALL_FAILED,
+        details
+      );
+    }
+
+    if (!response?.data) {
+      throw createError(
+        `Subgraph query failed ${subgraphURL}: the response has no data`,
+        ErrorCode.API_CALL_FAILED,
+        { url: subgraphURL, attempts: 1 }
+      );
     }
+
+    return response.data;
   } catch (error: any) {
-    throw new Error(`Subgraph query failed ${subgraphURL}: ${error.message}`);
+    if (error instanceof CustomError) {
+      throw error;
+    }
+
+    throw createError(
+      `Subgraph query failed ${subgraphURL}: ${error.message}`,
+      ErrorCode.API_CALL_FAILED
+    );
   }
 };
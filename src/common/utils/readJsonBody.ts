@@ -0,0 +1,54 @@
+import { IncomingMessage } from "http";
+import { CustomError, ErrorCode } from "../errors";
+
+/**
+ * An INVALID_INPUT error raised while reading a request body, with the HTTP
+ * status to answer the request with.
+ */
+export class RequestBodyError extends CustomError {
+  constructor(message: string, public status: number) {
+    super(message, ErrorCode.INVALID_INPUT, { status });
+    this.name = "RequestBodyError";
+  }
+}
+
+/**
+ * Reads and parses the JSON body of an HTTP request.
+ *
+ * @param req - The request.
+ * @param maxBytes - The largest body accepted.
+ * @returns The parsed body.
+ *
+ * @throws RequestBodyError with status 415 if the request is not sent as
+ * `application/json`, 413 if the body is too large, or 400 if it is not valid JSON.
+ */
+export const readJsonBody = async (
+  req: IncomingMessage,
+  maxBytes = 1024 * 1024
+): Promise<unknown> => {
+  // Browsers send simple `text/plain` requests without a preflight.
+  const contentType = (req.headers["content-type"] ?? "").split(";")[0];
+  if (contentType.trim().toLowerCase() !== "application/json") {
+    throw new RequestBodyError(
+      "Request body must be sent as application/json",
+      415
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new RequestBodyError(`Request body exceeds ${maxBytes} bytes`, 413);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new RequestBodyError("Request body is not valid JSON", 400);
+  }
+};
@@ -0,0 +1,253 @@
+import { Chain, createWalletClient, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  ActionProvider,
+  alchemyTokenPricesActionProvider,
+  erc20ActionProvider,
+  morphoReadActionProvider,
+  morphoSubgraphActionProvider,
+  morphoWriteActionProvider,
+  sushiSwapActionProvider,
+  sushiSwapExecuteOnlyActionProvider,
+  walletActionProvider,
+} from "../actionProviders";
+import { createError, ErrorCode } from "../common/errors";
+import {
+  CHAIN_ID_TO_NETWORK_ID,
+  getChain,
+  NETWORK_ID_TO_CHAIN_ID,
+  NETWORK_ID_TO_VIEM_CHAIN,
+} from "../network";
+import {
+  PrivyEvmDelegatedEmbeddedWalletProvider,
+  PrivyEvmWalletProvider,
+  ViemWalletProvider,
+  WalletProvider,
+} from "../walletProviders";
+import type { TensaiKitOptions } from "../tensaiKit";
+import { ResolvedTensaiKitConfig } from "./loadConfig";
+
+type ActionProvidersConfig = ResolvedTensaiKitConfig["actionProviders"];
+
+/**
+ * Gets the options of an enabled action provider.
+ *
+ * @param options - The setting of the provider: `true` or its options.
+ * @returns The options, empty when enabled with `true`.
+ */
+const providerOptions = <TOptions extends object>(
+  options: TOptions | boolean | undefined
+): Partial<TOptions> => (typeof options === "object" ? options : {});
+
+const ACTION_PROVIDER_FACTORIES: {
+  [TKey in keyof ActionProvidersConfig]-?: (
+    options: ActionProvidersConfig[TKey]
+  ) => ActionProvider;
+} = {
+  wallet: () => walletActionProvider(),
+  erc20: () => erc20ActionProvider(),
+  morphoRead: () => morphoReadActionProvider(),
+  morphoWrite: () => morphoWriteActionProvider(),
+  morphoSubgraph: (options) =>
+    morphoSubgraphActionProvider(providerOptions(options)),
+  sushiSwap: (options) => sushiSwapActionProvider(providerOptions(options)),
+  sushiSwapExecute: (options) =>
+    sushiSwapExecuteOnlyActionProvider(providerOptions(options)),
+  alchemyTokenPrices: (options) =>
+    alchemyTokenPricesActionProvider(providerOptions(options)),
+};
+
+/**
+ * Builds the TensaiKit options described by a configuration: the wallet
+ * provider, the action providers, the policy, the toolsets and the dry-run mode.
+ *
+ * @param config - The validated configuration.
+ * @returns The options to pass to `TensaiKit.from()`.
+ *
+ * @throws CONFIGURATION_ERROR if the network is unknown, or the wallet or an
+ * action provider cannot be configured.
+ */
+export const createOptionsFromConfig = async (
+  config: ResolvedTensaiKitConfig
+): Promise<TensaiKitOptions> => ({
+  walletProvider: await createWalletProvider(config),
+  actionProviders: createActionProviders(config.actionProviders),
+  policy: config.policy,
+  toolsets: config.toolsets,
+  dryRun: config.dryRun,
+});
+
+/**
+ * Resolves the chain of the configured network.
+ *
+ * @param network - The network settings.
+ * @returns The chain, with the configured RPC URL if any.
+ */
+const resolveChain = (
+  network: ResolvedTensaiKitConfig["network"]
+): Chain => {
+  const knownChainId = network.networkId
+    ? NETWORK_ID_TO_CHAIN_ID[network.networkId]
+    : undefined;
+
+  if (network.networkId && !knownChainId && !network.chainId) {
+    throw createError(
+      `network.networkId: unknown network "${network.networkId}". Known ` +
+        `networks: ${Object.keys(NETWORK_ID_TO_CHAIN_ID).join(", ")}. ` +
+        "Set network.chainId for other chains.",
+      ErrorCode.CONFIGURATION_ERROR
+    );
+  }
+
+  if (
+    knownChainId &&
+    network.chainId &&
+    Number(knownChainId) !== network.chainId
+  ) {
+    throw createError(
+      `network.chainId: ${network.chainId} does not match network ` +
+        `"${network.networkId}", whose chain ID is ${knownChainId}`,
+      ErrorCode.CONFIGURATION_ERROR
+    );
+  }
+
+  const chainId = network.chainId ?? Number(knownChainId);
+  let chain = NETWORK_ID_TO_VIEM_CHAIN[CHAIN_ID_TO_NETWORK_ID[chainId]];
+
+  if (!chain) {
+    try {
+      chain = getChain(chainId);
+    } catch (error) {
+      throw createError(
+        `network.chainId: ${(error as Error).message}`,
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+  }
+
+  return network.rpcUrl
+    ? {
+        ...chain,
+        rpcUrls: { ...chain.rpcUrls, default: { http: [network.rpcUrl] } },
+      }
+    : chain;
+};
+
+/**
+ * Collects the RPC URLs the wallet can switch networks with.
+ *
+ * @param network - The network settings.
+ * @param chain - The resolved chain of the network.
+ * @returns The RPC URLs by chain ID, including the one of the network.
+ */
+const resolveRpcUrls = (
+  network: ResolvedTensaiKitConfig["network"],
+  chain: Chain
+): Record<number, string> => ({
+  ...Object.fromEntries(
+    Object.entries(network.rpcUrls ?? {}).map(([chainId, rpcUrl]) => [
+      Number(chainId),
+      rpcUrl,
+    ])
+  ),
+  ...(network.rpcUrl ? { [chain.id]: network.rpcUrl } : {}),
+});
+
+/**
+ * Creates the configured wallet provider.
+ *
+ * @param config - The validated configuration.
+ * @returns The wallet provider.
+ */
+const createWalletProvider = async (
+  config: ResolvedTensaiKitConfig
+): Promise<WalletProvider> => {
+  const chain = resolveChain(config.network);
+  const rpcUrls = resolveRpcUrls(config.network, chain);
+  const { wallet } = config;
+
+  try {
+    switch (wallet.type) {
+      case "viem":
+        return new ViemWalletProvider(
+          createWalletClient({
+            account: privateKeyToAccount(wallet.privateKey as `0x${string}`),
+            chain,
+            transport: http(),
+          }),
+          wallet.gas,
+          { rpcUrls }
+        );
+      case "privy":
+        return await PrivyEvmWalletProvider.configureWithWallet({
+          appId: wallet.appId,
+          appSecret: wallet.appSecret,
+          walletId: wallet.walletId,
+          authorizationPrivateKey: wallet.authorizationPrivateKey,
+          authorizationKeyId: wallet.authorizationKeyId,
+          walletApiUrl: wallet.walletApiUrl,
+          chainId: String(chain.id),
+          chain,
+          gasConfig: wallet.gas,
+          rpcUrls,
+        });
+      case "privy-delegated":
+        return await PrivyEvmDelegatedEmbeddedWalletProvider.configureWithWallet(
+          {
+            appId: wallet.appId,
+            appSecret: wallet.appSecret,
+            walletId: wallet.walletId,
+            authorizationPrivateKey: wallet.authorizationPrivateKey,
+            walletApiUrl: wallet.walletApiUrl,
+            walletType: "embedded",
+            networkId: CHAIN_ID_TO_NETWORK_ID[chain.id],
+            chainId: String(chain.id),
+            chain,
+          }
+        );
+    }
+  } catch (error) {
+    throw createError(
+      `wallet: could not configure the ${wallet.type} wallet: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      ErrorCode.CONFIGURATION_ERROR
+    );
+  }
+};
+
+/**
+ * Creates the enabled action providers.
+ *
+ * @param config - The action provider settings.
+ * @returns The action providers, in configuration order.
+ */
+const createActionProviders = (
+  config: ActionProvidersConfig
+): ActionProvider[] =>
+  (Object.keys(config) as (keyof ActionProvidersConfig)[])
+    .filter((key) => config[key])
+    .map((key) => {
+      try {
+        return createActionProvider(key, config);
+      } catch (error) {
+        throw createError(
+          `actionProviders.${key}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          ErrorCode.CONFIGURATION_ERROR
+        );
+      }
+    });
+
+/**
+ * Creates an action provider with its configured options.
+ *
+ * @param key - The key of the provider in the configuration.
+ * @param config - The action provider settings.
+ * @returns The action provider.
+ */
+const createActionProvider = <TKey extends keyof ActionProvidersConfig>(
+  key: TKey,
+  config: ActionProvidersConfig
+): ActionProvider => ACTION_PROVIDER_FACTORIES[key](config[key]);
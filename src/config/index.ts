@@ -0,0 +1,3 @@
+export * from "./schema";
+export * from "./loadConfig";
+export * from "./createFromConfig";
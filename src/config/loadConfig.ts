@@ -0,0 +1,262 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { createError, ErrorCode } from "../common/errors";
+import { TensaiKitConfig, TensaiKitConfigSchema } from "./schema";
+
+/**
+ * A validated TensaiKit configuration, with defaults applied.
+ */
+export type ResolvedTensaiKitConfig = z.output<typeof TensaiKitConfigSchema>;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * The environment variables behind each setting, named in error messages.
+ */
+const ENV_VARIABLES: Record<string, string> = {
+  network: "TENSAIKIT_NETWORK_ID or TENSAIKIT_CHAIN_ID",
+  "network.networkId": "TENSAIKIT_NETWORK_ID",
+  "network.chainId": "TENSAIKIT_CHAIN_ID",
+  "network.rpcUrl": "TENSAIKIT_RPC_URL",
+  "wallet.type": "TENSAIKIT_WALLET_TYPE",
+  "wallet.privateKey": "TENSAIKIT_PRIVATE_KEY",
+  "wallet.appId": "PRIVY_APP_ID",
+  "wallet.appSecret": "PRIVY_APP_SECRET",
+  "wallet.walletId": "PRIVY_WALLET_ID",
+  "wallet.authorizationPrivateKey": "PRIVY_AUTHORIZATION_PRIVATE_KEY",
+  "wallet.authorizationKeyId": "PRIVY_AUTHORIZATION_KEY_ID",
+  "wallet.gas.gasLimitMultiplier": "TENSAIKIT_GAS_LIMIT_MULTIPLIER",
+  "wallet.gas.feePerGasMultiplier": "TENSAIKIT_FEE_PER_GAS_MULTIPLIER",
+  actionProviders: "TENSAIKIT_ACTION_PROVIDERS",
+  dryRun: "TENSAIKIT_DRY_RUN",
+};
+
+/**
+ * Validates a TensaiKit configuration.
+ *
+ * @param config - The raw configuration.
+ * @param source - Where the configuration comes from, for the error message.
+ * @param labels - Names to show next to the paths of invalid settings, e.g. environment variables.
+ * @returns The validated configuration.
+ *
+ * @throws CONFIGURATION_ERROR listing the path of every invalid setting.
+ */
+export const parseTensaiKitConfig = (
+  config: unknown,
+  source = "config",
+  labels: Record<string, string> = {}
+): ResolvedTensaiKitConfig => {
+  const parsed = TensaiKitConfigSchema.safeParse(config);
+
+  if (parsed.success) return parsed.data;
+
+  const issues = parsed.error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+
+  throw createError(
+    `Invalid TensaiKit config (${source}):\n${issues
+      .map((issue) => {
+        const label = labels[issue.path] ? ` (${labels[issue.path]})` : "";
+        return `- ${issue.path || "(root)"}${label}: ${issue.message}`;
+      })
+      .join("\n")}`,
+    ErrorCode.CONFIGURATION_ERROR,
+    { source, issues }
+  );
+};
+
+/**
+ * Reads a TensaiKit configuration from a YAML or JSON file.
+ *
+ * String values may reference environment variables as `${NAME}`, so that
+ * secrets such as private keys stay out of the file.
+ *
+ * @param filePath - The path of the file, ending in `.yaml`, `.yml` or `.json`.
+ * @param env - The environment `${NAME}` references are resolved against.
+ * @returns The validated configuration.
+ *
+ * @throws CONFIGURATION_ERROR if the file cannot be read or parsed, references an
+ * unset variable, or holds an invalid configuration.
+ */
+export const readTensaiKitConfigFile = async (
+  filePath: string,
+  env: Env = process.env
+): Promise<ResolvedTensaiKitConfig> => {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (![".yaml", ".yml", ".json"].includes(extension)) {
+    throw createError(
+      `Unsupported config file ${filePath}: ` +
+        "expected a .yaml, .yml or .json file",
+      ErrorCode.CONFIGURATION_ERROR
+    );
+  }
+
+  let raw: unknown;
+  try {
+    const content = await fs.readFile(filePath, "utf8");
+    raw = extension === ".json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw createError(
+      `Could not read the config file ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      ErrorCode.CONFIGURATION_ERROR
+    );
+  }
+
+  return parseTensaiKitConfig(interpolateEnv(raw, env, ""), filePath);
+};
+
+/**
+ * Reads a TensaiKit configuration from environment variables.
+ *
+ * | Variable | Setting |
+ * | --- | --- |
+ * | `TENSAIKIT_NETWORK_ID`, `TENSAIKIT_CHAIN_ID`, `TENSAIKIT_RPC_URL` | `network` |
+ * | `TENSAIKIT_WALLET_TYPE` | `wallet.type`, defaults to `viem` |
+ * | `TENSAIKIT_PRIVATE_KEY` | `wallet.privateKey` |
+ * | `PRIVY_APP_ID`, `PRIVY_APP_SECRET`, `PRIVY_WALLET_ID` | `wallet.appId`, `wallet.appSecret`, `wallet.walletId` |
+ * | `PRIVY_AUTHORIZATION_PRIVATE_KEY`, `PRIVY_AUTHORIZATION_KEY_ID` | `wallet.authorizationPrivateKey`, `wallet.authorizationKeyId` |
+ * | `TENSAIKIT_GAS_LIMIT_MULTIPLIER`, `TENSAIKIT_FEE_PER_GAS_MULTIPLIER` | `wallet.gas` |
+ * | `TENSAIKIT_ACTION_PROVIDERS` | Comma separated `actionProviders` keys to enable |
+ * | `TENSAIKIT_DRY_RUN` | `dryRun`, one of `true`, `false`, `1` or `0` |
+ *
+ * `SUBGRAPH_API_KEY` and `ALCHEMY_API_KEY` are read by their providers.
+ *
+ * @param env - The environment.
+ * @returns The validated configuration.
+ *
+ * @throws CONFIGURATION_ERROR if the resulting configuration is invalid.
+ */
+export const readTensaiKitConfigFromEnv = (
+  env: Env = process.env
+): ResolvedTensaiKitConfig => {
+  const type = env.TENSAIKIT_WALLET_TYPE ?? "viem";
+  const number = (value: string | undefined) =>
+    value === undefined ? undefined : Number(value);
+  // Anything but true/false/1/0 is left as is, for the schema to reject.
+  const boolean = (value: string | undefined) =>
+    ({ true: true, "1": true, false: false, "0": false }[
+      (value ?? "").trim().toLowerCase()
+    ] ?? value);
+  const gas = compact({
+    gasLimitMultiplier: number(env.TENSAIKIT_GAS_LIMIT_MULTIPLIER),
+    feePerGasMultiplier: number(env.TENSAIKIT_FEE_PER_GAS_MULTIPLIER),
+  });
+
+  const wallet =
+    type === "viem"
+      ? { type, privateKey: env.TENSAIKIT_PRIVATE_KEY, gas }
+      : {
+          type,
+          appId: env.PRIVY_APP_ID,
+          appSecret: env.PRIVY_APP_SECRET,
+          walletId: env.PRIVY_WALLET_ID,
+          authorizationPrivateKey: env.PRIVY_AUTHORIZATION_PRIVATE_KEY,
+          authorizationKeyId: env.PRIVY_AUTHORIZATION_KEY_ID,
+          gas: type === "privy" ? gas : undefined,
+        };
+
+  const config = compact({
+    network: compact({
+      networkId: env.TENSAIKIT_NETWORK_ID,
+      chainId: env.TENSAIKIT_CHAIN_ID,
+      rpcUrl: env.TENSAIKIT_RPC_URL,
+    }),
+    wallet: compact(wallet),
+    actionProviders: env.TENSAIKIT_ACTION_PROVIDERS
+      ? Object.fromEntries(
+          env.TENSAIKIT_ACTION_PROVIDERS.split(",")
+            .map((key) => key.trim())
+            .filter(Boolean)
+            .map((key) => [key, true])
+        )
+      : undefined,
+    dryRun: boolean(env.TENSAIKIT_DRY_RUN),
+  });
+
+  return parseTensaiKitConfig(config, "environment", ENV_VARIABLES);
+};
+
+/**
+ * Loads a TensaiKit configuration from a file, an object or the environment.
+ *
+ * @param source - The path of a YAML or JSON file, a configuration object, or
+ * nothing to read the environment.
+ * @param env - The environment.
+ * @returns The validated configuration.
+ *
+ * @throws CONFIGURATION_ERROR if the configuration is missing or invalid.
+ */
+export const loadTensaiKitConfig = async (
+  source?: string | TensaiKitConfig,
+  env: Env = process.env
+): Promise<ResolvedTensaiKitConfig> => {
+  if (source === undefined) return readTensaiKitConfigFromEnv(env);
+  if (typeof source === "string") return readTensaiKitConfigFile(source, env);
+  return parseTensaiKitConfig(source);
+};
+
+/**
+ * Replaces `${NAME}` references in the strings of a parsed file.
+ *
+ * @param value - The parsed value.
+ * @param env - The environment.
+ * @param at - The path of the value, for error messages.
+ * @returns The value with every reference replaced.
+ */
+const interpolateEnv = (value: unknown, env: Env, at: string): unknown => {
+  if (typeof value === "string") {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name) => {
+      const resolved = env[name];
+      if (resolved === undefined) {
+        throw createError(
+          `Config setting ${at || "(root)"} references \${${name}}, ` +
+            "which is not set",
+          ErrorCode.CONFIGURATION_ERROR
+        );
+      }
+      return resolved;
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry, index) =>
+      interpolateEnv(entry, env, `${at}.${index}`)
+    );
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        interpolateEnv(entry, env, at ? `${at}.${key}` : key),
+      ])
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Drops the undefined fields of an object, and the object itself when empty.
+ *
+ * @param value - The object.
+ * @returns The object without undefined fields, or undefined if none is left.
+ */
+const compact = <T extends Record<string, unknown>>(
+  value: T
+): Partial<T> | undefined => {
+  const entries = Object.entries(value).filter(
+    ([, entry]) => entry !== undefined
+  );
+
+  return entries.length
+    ? (Object.fromEntries(entries) as Partial<T>)
+    : undefined;
+};
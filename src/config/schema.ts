@@ -0,0 +1,200 @@
+import { z } from "zod";
+
+const PrivateKeySchema = z
+  .string()
+  .regex(
+    /^0x[0-9a-fA-F]{64}$/,
+    "Must be a 0x-prefixed 32-byte hex private key"
+  );
+
+const GasConfigSchema = z
+  .object({
+    gasLimitMultiplier: z.number().min(1).optional(),
+    feePerGasMultiplier: z.number().min(1).optional(),
+  })
+  .strict();
+
+/**
+ * The network the wallet connects to.
+ */
+export const NetworkConfigSchema = z
+  .object({
+    networkId: z
+      .string()
+      .optional()
+      .describe("The network ID, e.g. katana-mainnet or katana-testnet"),
+    chainId: z.coerce
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("The EVM chain ID, for chains other than Katana"),
+    rpcUrl: z
+      .string()
+      .url()
+      .optional()
+      .describe("The RPC URL, overriding the default of the chain"),
+    rpcUrls: z
+      .record(
+        z.string().regex(/^\d+$/, "Must be a chain ID"),
+        z.string().url()
+      )
+      .optional()
+      .describe(
+        "The RPC URLs of the other chains the kit can switch to, by chain ID"
+      ),
+  })
+  .strict()
+  .refine((network) => network.networkId || network.chainId, {
+    message: "Either networkId or chainId is required",
+  });
+
+/**
+ * The wallet provider, by type.
+ */
+export const WalletConfigSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("viem"),
+      privateKey: PrivateKeySchema,
+      gas: GasConfigSchema.optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("privy"),
+      appId: z.string().min(1),
+      appSecret: z.string().min(1),
+      walletId: z.string().min(1).optional(),
+      authorizationPrivateKey: z.string().min(1).optional(),
+      authorizationKeyId: z.string().min(1).optional(),
+      walletApiUrl: z.string().url().optional(),
+      gas: GasConfigSchema.optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("privy-delegated"),
+      appId: z.string().min(1),
+      appSecret: z.string().min(1),
+      walletId: z.string().min(1),
+      authorizationPrivateKey: z.string().min(1),
+      walletApiUrl: z.string().url().optional(),
+    })
+    .strict(),
+]);
+
+const toggle = <TOptions extends z.ZodRawShape>(options: TOptions) =>
+  z.union([z.boolean(), z.object(options).strict()]).optional();
+
+/**
+ * The timeout and retry options of the providers that call HTTP APIs.
+ */
+const requestOptions = {
+  timeoutMs: z.number().int().positive().optional(),
+  retry: z
+    .union([
+      z.literal(false),
+      z
+        .object({
+          retries: z.number().int().nonnegative().optional(),
+          baseDelayMs: z.number().nonnegative().optional(),
+          maxDelayMs: z.number().nonnegative().optional(),
+        })
+        .strict(),
+    ])
+    .optional(),
+};
+
+/**
+ * The enabled action providers and their options. A provider is enabled with
+ * `true` or with its options, and disabled when omitted or `false`.
+ */
+export const ActionProvidersConfigSchema = z
+  .object({
+    wallet: toggle({}),
+    erc20: toggle({}),
+    morphoRead: toggle({}),
+    morphoWrite: toggle({}),
+    morphoSubgraph: toggle({
+      apiUrl: z.string().url().optional(),
+      ...requestOptions,
+    }),
+    sushiSwap: toggle({
+      subGraphApiKey: z.string().min(1).optional(),
+      apiUrl: z.string().url().optional(),
+      graphUrl: z.string().url().optional(),
+      ...requestOptions,
+    }),
+    sushiSwapExecute: toggle({
+      apiUrl: z.string().url().optional(),
+      ...requestOptions,
+    }),
+    alchemyTokenPrices: toggle({
+      apiKey: z.string().min(1).optional(),
+      baseUrl: z.string().url().optional(),
+    }),
+  })
+  .strict();
+
+const ActionFilterSchema = z
+  .object({
+    names: z.array(z.string()).optional(),
+    excludeNames: z.array(z.string()).optional(),
+    providers: z.array(z.string()).optional(),
+    excludeProviders: z.array(z.string()).optional(),
+    tags: z.array(z.string()).optional(),
+    excludeTags: z.array(z.string()).optional(),
+    readOnly: z.boolean().optional(),
+  })
+  .strict();
+
+/**
+ * A token amount in whole units, as a number or a decimal string such as `"1.5"`.
+ */
+const AmountSchema = z.union([
+  z.number().nonnegative(),
+  z.string().regex(/^\d+(\.\d+)?$/, "Must be a decimal number, e.g. 1.5"),
+]);
+
+const PolicyConfigSchema = z
+  .object({
+    spendLimits: z
+      .array(
+        z
+          .object({
+            token: z.string(),
+            maxPerTransaction: AmountSchema.optional(),
+            maxPerPeriod: AmountSchema.optional(),
+            period: z.enum(["hour", "day", "week"]).optional(),
+          })
+          .strict()
+      )
+      .optional(),
+    allowedDestinations: z.array(z.string()).optional(),
+    allowedContracts: z.array(z.string()).optional(),
+    allowedTokens: z.array(z.string()).optional(),
+    maxSlippage: z.number().positive().optional(),
+    maxMorphoLtv: z.number().positive().max(1).optional(),
+  })
+  .strict();
+
+/**
+ * A declarative TensaiKit configuration, as read from a YAML or JSON file or
+ * from the environment.
+ */
+export const TensaiKitConfigSchema = z
+  .object({
+    network: NetworkConfigSchema,
+    wallet: WalletConfigSchema,
+    actionProviders: ActionProvidersConfigSchema.default({ wallet: true }),
+    policy: PolicyConfigSchema.optional(),
+    toolsets: z.record(ActionFilterSchema).optional(),
+    dryRun: z.boolean().optional(),
+  })
+  .strict();
+
+/**
+ * A declarative TensaiKit configuration.
+ */
+export type TensaiKitConfig = z.input<typeof TensaiKitConfigSchema>;
@@ -0,0 +1,57 @@
+import { keccak256, toHex } from "viem";
+import { TransactionInterceptor } from "../walletProviders";
+import { getDryRunSession } from "./dryRunSession";
+
+/**
+ * Creates the transaction interceptor that simulates transactions in dry-run mode.
+ *
+ * Outside of dry-run mode the interceptor passes everything through. In dry-run
+ * mode it stops every transaction, simulates it together with the transactions
+ * captured before it (so an approval is seen by the transaction that needs it),
+ * hands out a placeholder hash, and answers the receipt lookup for that hash with
+ * the simulated outcome. Register it after the policy, so that simulated
+ * transactions are still checked, and before any interceptor that must not see
+ * them, such as approvals.
+ *
+ * @returns The dry-run interceptor.
+ */
+export const dryRunInterceptor = (): TransactionInterceptor => ({
+  name: "dry_run",
+  onSendTransaction: async (transaction, next, walletProvider) => {
+    const session = getDryRunSession();
+    if (!session) {
+      return next(transaction);
+    }
+
+    session.transactions.push(transaction);
+    session.simulation = await walletProvider.simulateTransactions(
+      session.transactions
+    );
+
+    const hash = keccak256(
+      toHex(`tensaikit:dry-run:${Date.now()}:${session.transactions.length}`)
+    );
+    session.hashes.push(hash);
+
+    return hash;
+  },
+  onWaitForTransactionReceipt: async (txHash, next, walletProvider) => {
+    const session = getDryRunSession();
+    const index = session ? session.hashes.indexOf(txHash) : -1;
+    if (!session || index === -1) {
+      return next(txHash);
+    }
+
+    const transaction = session.transactions[index];
+    const simulated = session.simulation?.transactions[index];
+
+    return {
+      transactionHash: txHash,
+      from: walletProvider.getAddress(),
+      to: transaction.to ?? null,
+      status: simulated?.success ? "success" : "reverted",
+      gasUsed: simulated?.gasEstimate ?? BigInt(0),
+      logs: simulated?.logs ?? [],
+    };
+  },
+});
@@ -0,0 +1,84 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Hex, TransactionRequest } from "viem";
+import { SimulationResult } from "../walletProviders";
+import { decodeTransactionCalldata } from "../utils";
+import { ActionResult } from "../actionProviders";
+import { DryRunReport } from "./types";
+
+/**
+ * The transactions captured while an invocation runs in dry-run mode.
+ */
+export class DryRunSession {
+  /**
+   * The captured transactions, in order.
+   */
+  readonly transactions: TransactionRequest[] = [];
+
+  /**
+   * The placeholder hashes handed out for the captured transactions, in order.
+   */
+  readonly hashes: Hex[] = [];
+
+  /**
+   * The latest simulation of all the captured transactions.
+   */
+  simulation?: SimulationResult;
+
+  /**
+   * Builds the report of the dry run.
+   *
+   * @param action - The name of the action that ran.
+   * @param output - The result of the action.
+   * @returns The dry-run report.
+   */
+  toReport(action: string, output: ActionResult): DryRunReport {
+    const simulated = this.simulation?.transactions || [];
+
+    return {
+      action,
+      output,
+      transactions: this.transactions.map((transaction, index) => ({
+        to: transaction.to ?? undefined,
+        value: transaction.value ?? BigInt(0),
+        data: transaction.data,
+        decodedCalldata: decodeTransactionCalldata(transaction.data),
+        success: simulated[index]?.success ?? false,
+        gasEstimate: simulated[index]?.gasEstimate,
+        revertReason: simulated[index]?.revertReason,
+      })),
+      balanceChanges: this.simulation?.balanceChanges || [],
+      warnings: this.simulation?.warnings || [],
+    };
+  }
+}
+
+const dryRunStorage = new AsyncLocalStorage<DryRunSession>();
+
+/**
+ * Runs a function in dry-run mode: every transaction the wallets send while it
+ * runs is simulated instead of broadcast.
+ *
+ * Dry-run mode only takes effect on wallets that have the dry-run interceptor
+ * registered, which `TensaiKit` does for its wallet provider.
+ *
+ * @param session - The session that collects the transactions.
+ * @param fn - The function to run.
+ * @returns The return value of the function.
+ */
+export const runInDryRun = <T>(session: DryRunSession, fn: () => T): T =>
+  dryRunStorage.run(session, fn);
+
+/**
+ * Returns the dry-run session of the code currently running, if any.
+ *
+ * @returns The current session, or undefined outside of dry-run mode.
+ */
+export const getDryRunSession = (): DryRunSession | undefined =>
+  dryRunStorage.getStore();
+
+/**
+ * Whether the code currently running is in dry-run mode.
+ *
+ * @returns True in dry-run mode.
+ */
+export const isDryRun = (): boolean => getDryRunSession() !== undefined;
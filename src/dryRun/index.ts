@@ -0,0 +1,3 @@
+export * from "./types";
+export * from "./dryRunSession";
+export * from "./dryRunInterceptor";
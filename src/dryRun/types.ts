@@ -0,0 +1,74 @@
+import { Hex } from "viem";
+import { BalanceChange } from "../walletProviders";
+import { DecodedCalldata } from "../utils";
+import { ActionResult } from "../actionProviders";
+
+/**
+ * A transaction that an action would have sent.
+ */
+export interface DryRunTransaction {
+  /**
+   * The target of the transaction.
+   */
+  to?: string;
+
+  /**
+   * The native value of the transaction, in wei.
+   */
+  value: bigint;
+
+  /**
+   * The calldata of the transaction.
+   */
+  data?: Hex;
+
+  /**
+   * The calldata decoded against the ABIs the kit knows about, if it matched one.
+   */
+  decodedCalldata?: DecodedCalldata;
+
+  /**
+   * Whether the transaction would succeed.
+   */
+  success: boolean;
+
+  /**
+   * The gas the transaction would use, if it could be estimated.
+   */
+  gasEstimate?: bigint;
+
+  /**
+   * The decoded revert reason, if the transaction would revert.
+   */
+  revertReason?: string;
+}
+
+/**
+ * What a write action would have done, as reported by a dry run.
+ */
+export interface DryRunReport {
+  /**
+   * The name of the action.
+   */
+  action: string;
+
+  /**
+   * The result of the action. Transaction hashes in it are placeholders.
+   */
+  output: ActionResult;
+
+  /**
+   * The transactions the action would have sent, in order.
+   */
+  transactions: DryRunTransaction[];
+
+  /**
+   * The expected balance changes of the wallet.
+   */
+  balanceChanges: BalanceChange[];
+
+  /**
+   * Anything that limits the accuracy of the simulation.
+   */
+  warnings: string[];
+}
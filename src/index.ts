@@ -2,3 +2,23 @@ export * from "./tensaiKit";
 export * from "./walletProviders";
 export * from "./actionProviders";
 export * from "./network";
+export * from "./middleware";
+export * from "./policy";
+export * from "./approval";
+export * from "./dryRun";
+export * from "./telemetry";
+export * from "./journal";
+export * from "./walletRegistry";
+export * from "./toolDefinitions";
+export * from "./mcp";
+export * from "./adapters";
+export * from "./server";
+export * from "./config";
+export * from "./cache";
+export type {
+  ApiCallFailedDetails,
+  FetchFunction,
+  FetchOptions,
+  RequestOptions,
+  RetryOptions,
+} from "./common/utils";
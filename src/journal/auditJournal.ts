@@ -0,0 +1,237 @@
+import { randomUUID } from "crypto";
+import { Hex, TransactionReceipt, TransactionRequest } from "viem";
+import { EvmWalletProvider, TransactionInterceptor } from "../walletProviders";
+import { ActionMiddleware, getActionContext } from "../middleware";
+import { CustomError } from "../common/errors";
+import { isDryRun } from "../dryRun";
+import { decodeTransactionCalldata } from "../utils";
+import { InMemoryJournalBackend } from "./inMemoryJournalBackend";
+import {
+  JournalBackend,
+  JournalEntry,
+  JournalEntryBase,
+  TransactionFields,
+} from "./types";
+
+const INVOCATION_ID_KEY = "auditJournalInvocationId";
+
+/**
+ * AuditJournal keeps an append-only record of every action invocation and every
+ * transaction the kit sends.
+ *
+ * Actions are recorded by an action middleware, transactions by a wallet
+ * transaction interceptor, so the approvals sent by `approve()` are recorded
+ * too. Transaction entries written while an action runs carry the id of its
+ * invocation.
+ *
+ * Entries are appended in order. A transaction is only handed to the wallet once
+ * its `transaction_requested` entry was stored, so a failing backend blocks
+ * writes instead of letting them go unrecorded.
+ */
+export class AuditJournal {
+  readonly #backend: JournalBackend;
+  #queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new AuditJournal.
+   *
+   * @param backend - Where entries are stored. Defaults to memory.
+   */
+  constructor(backend: JournalBackend = new InMemoryJournalBackend()) {
+    this.#backend = backend;
+  }
+
+  /**
+   * Reads every entry, oldest first.
+   *
+   * @returns The entries.
+   */
+  async getEntries(): Promise<JournalEntry[]> {
+    await this.#queue;
+    return this.#backend.read();
+  }
+
+  /**
+   * Returns the action middleware that records action invocations.
+   *
+   * @returns The journal middleware.
+   */
+  asMiddleware(): ActionMiddleware {
+    return {
+      name: "audit_journal",
+      before: async (context) => {
+        const invocationId = randomUUID();
+        context.state[INVOCATION_ID_KEY] = invocationId;
+
+        await this.append({
+          ...this.base(),
+          invocationId,
+          action: context.action.name,
+          type: "action_invoked",
+          provider: context.actionProvider,
+          wallet: context.walletProvider.getAddress(),
+          args: context.args,
+          attempt: context.attempt,
+        });
+      },
+      after: async (_context, result) => {
+        await this.append({
+          ...this.base(),
+          type: "action_completed",
+          status: result.status,
+          summary: result.summary,
+          txHashes: result.txHashes,
+        });
+      },
+      onError: async (_context, error) => {
+        await this.append({
+          ...this.base(),
+          type: "action_failed",
+          ...describeError(error),
+        });
+      },
+    };
+  }
+
+  /**
+   * Returns the transaction interceptor that records transactions and their receipts.
+   *
+   * @returns The journal interceptor.
+   */
+  asTransactionInterceptor(): TransactionInterceptor {
+    return {
+      name: "audit_journal",
+      onSendTransaction: async (transaction, next, walletProvider) => {
+        // Simulated transactions are covered by the action entries.
+        if (isDryRun()) return next(transaction);
+
+        const fields = describeTransaction(walletProvider, transaction);
+
+        await this.append({
+          ...this.base(),
+          ...fields,
+          type: "transaction_requested",
+        });
+
+        let txHash: Hex;
+        try {
+          txHash = await next(transaction);
+        } catch (error) {
+          await this.appendAfterBroadcast({
+            ...this.base(),
+            ...fields,
+            type: "transaction_failed",
+            ...describeError(error),
+          });
+          throw error;
+        }
+
+        await this.appendAfterBroadcast({
+          ...this.base(),
+          ...fields,
+          type: "transaction_sent",
+          txHash,
+        });
+
+        return txHash;
+      },
+      onWaitForTransactionReceipt: async (txHash, next) => {
+        if (isDryRun()) return next(txHash);
+
+        const receipt = (await next(txHash)) as
+          | Partial<TransactionReceipt>
+          | undefined;
+
+        await this.appendAfterBroadcast({
+          ...this.base(),
+          type: "transaction_confirmed",
+          txHash,
+          status: receipt?.status,
+          gasUsed: receipt?.gasUsed?.toString(),
+          blockNumber: receipt?.blockNumber?.toString(),
+        });
+
+        return receipt;
+      },
+    };
+  }
+
+  /**
+   * Appends an entry once every previous entry was stored.
+   *
+   * @param entry - The entry to append.
+   */
+  private append(entry: JournalEntry): Promise<void> {
+    const appended = this.#queue.then(() => this.#backend.append(entry));
+    this.#queue = appended.catch(() => undefined);
+
+    return appended;
+  }
+
+  /**
+   * Appends an entry about a transaction that may already be on chain.
+   *
+   * The outcome of the transaction must reach the caller whatever happens to the
+   * journal, so a failing backend is only reported on the console.
+   *
+   * @param entry - The entry to append.
+   */
+  private async appendAfterBroadcast(entry: JournalEntry): Promise<void> {
+    try {
+      await this.append(entry);
+    } catch (error) {
+      console.warn(
+        `Warning: Failed to journal ${entry.type} entry:`,
+        error,
+        entry
+      );
+    }
+  }
+
+  /**
+   * Builds the fields shared by every entry from the current action context.
+   *
+   * @returns The shared fields.
+   */
+  private base(): JournalEntryBase {
+    const context = getActionContext();
+
+    return {
+      timestamp: new Date().toISOString(),
+      invocationId: context?.state[INVOCATION_ID_KEY] as string | undefined,
+      action: context?.action.name,
+      walletId: context?.walletId,
+      dryRun: isDryRun(),
+    };
+  }
+}
+
+/**
+ * Describes a transaction for the journal.
+ *
+ * @param walletProvider - The wallet sending the transaction.
+ * @param transaction - The transaction.
+ * @returns The transaction fields.
+ */
+const describeTransaction = (
+  walletProvider: EvmWalletProvider,
+  transaction: TransactionRequest
+): TransactionFields => ({
+  from: walletProvider.getAddress(),
+  chainId: walletProvider.getNetwork().chainId,
+  to: transaction.to ?? undefined,
+  value: (transaction.value ?? BigInt(0)).toString(),
+  data: transaction.data,
+  decodedCalldata: decodeTransactionCalldata(transaction.data),
+});
+
+/**
+ * Describes an error for the journal.
+ *
+ * @param error - The error.
+ * @returns The error message and code.
+ */
+const describeError = (error: unknown) => ({
+  error: error instanceof Error ? error.message : String(error),
+  errorCode: error instanceof CustomError ? error.code : undefined,
+});
@@ -0,0 +1,26 @@
+import { JournalBackend, JournalEntry } from "./types";
+
+/**
+ * Journal backend that keeps entries in memory, e.g. for tests and short-lived agents.
+ */
+export class InMemoryJournalBackend implements JournalBackend {
+  readonly #entries: JournalEntry[] = [];
+
+  /**
+   * Appends an entry.
+   *
+   * @param entry - The entry to append.
+   */
+  async append(entry: JournalEntry): Promise<void> {
+    this.#entries.push(Object.freeze({ ...entry }));
+  }
+
+  /**
+   * Reads every entry, oldest first.
+   *
+   * @returns A copy of the entries.
+   */
+  async read(): Promise<JournalEntry[]> {
+    return [...this.#entries];
+  }
+}
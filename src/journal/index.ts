@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./inMemoryJournalBackend";
+export * from "./jsonlJournalBackend";
+export * from "./auditJournal";
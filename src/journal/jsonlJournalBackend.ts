@@ -0,0 +1,55 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { JournalBackend, JournalEntry } from "./types";
+
+/**
+ * Journal backend that appends entries to a local JSON Lines file, one entry per line.
+ */
+export class JsonlJournalBackend implements JournalBackend {
+  readonly #filePath: string;
+
+  /**
+   * Creates a new JsonlJournalBackend.
+   *
+   * @param filePath - The journal file. It is created, along with its directory, on the first append.
+   */
+  constructor(filePath: string) {
+    this.#filePath = filePath;
+  }
+
+  /**
+   * Appends an entry.
+   *
+   * @param entry - The entry to append.
+   */
+  async append(entry: JournalEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.#filePath), { recursive: true });
+    await fs.appendFile(
+      this.#filePath,
+      `${JSON.stringify(entry, (_key, value) =>
+        typeof value === "bigint" ? value.toString() : value
+      )}\n`,
+      "utf8"
+    );
+  }
+
+  /**
+   * Reads every entry, oldest first.
+   *
+   * @returns The entries, or an empty list if nothing was journaled yet.
+   */
+  async read(): Promise<JournalEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.#filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    return content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as JournalEntry);
+  }
+}
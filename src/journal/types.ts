@@ -0,0 +1,148 @@
+import { ActionResultStatus } from "../actionProviders";
+import { DecodedCalldata } from "../utils";
+
+/**
+ * Fields shared by every journal entry.
+ */
+export interface JournalEntryBase {
+  /**
+   * When the entry was written, as an ISO 8601 string.
+   */
+  timestamp: string;
+
+  /**
+   * The invocation the entry belongs to, if it was written while an action ran.
+   */
+  invocationId?: string;
+
+  /**
+   * The name of the action the entry belongs to, if any.
+   */
+  action?: string;
+
+  /**
+   * The ID of the registered wallet the entry belongs to, if it was written while an action ran.
+   */
+  walletId?: string;
+
+  /**
+   * Whether the entry was written in dry-run mode.
+   */
+  dryRun: boolean;
+}
+
+/**
+ * Written when an action is invoked, once per attempt.
+ */
+export interface ActionInvokedEntry extends JournalEntryBase {
+  type: "action_invoked";
+  provider: string;
+  wallet: string;
+  args: unknown;
+  attempt: number;
+}
+
+/**
+ * Written when an action resolved.
+ */
+export interface ActionCompletedEntry extends JournalEntryBase {
+  type: "action_completed";
+  status: ActionResultStatus;
+  summary: string;
+  txHashes: string[];
+}
+
+/**
+ * Written when an action threw.
+ */
+export interface ActionFailedEntry extends JournalEntryBase {
+  type: "action_failed";
+  error: string;
+  errorCode?: string;
+}
+
+/**
+ * Fields describing a transaction.
+ */
+export interface TransactionFields {
+  from: string;
+  chainId?: string;
+  to?: string;
+  value: string;
+  data?: string;
+  decodedCalldata?: DecodedCalldata;
+}
+
+/**
+ * Written before a transaction is handed to the wallet for signing.
+ */
+export interface TransactionRequestedEntry
+  extends JournalEntryBase,
+    TransactionFields {
+  type: "transaction_requested";
+}
+
+/**
+ * Written once a transaction was broadcast.
+ */
+export interface TransactionSentEntry
+  extends JournalEntryBase,
+    TransactionFields {
+  type: "transaction_sent";
+  txHash: string;
+}
+
+/**
+ * Written when a transaction could not be sent, e.g. it was rejected by a policy.
+ */
+export interface TransactionFailedEntry
+  extends JournalEntryBase,
+    TransactionFields {
+  type: "transaction_failed";
+  error: string;
+  errorCode?: string;
+}
+
+/**
+ * Written once the receipt of a transaction was received.
+ */
+export interface TransactionConfirmedEntry extends JournalEntryBase {
+  type: "transaction_confirmed";
+  txHash: string;
+  status?: string;
+  gasUsed?: string;
+  blockNumber?: string;
+}
+
+/**
+ * An entry of the audit journal.
+ */
+export type JournalEntry =
+  | ActionInvokedEntry
+  | ActionCompletedEntry
+  | ActionFailedEntry
+  | TransactionRequestedEntry
+  | TransactionSentEntry
+  | TransactionFailedEntry
+  | TransactionConfirmedEntry;
+
+/**
+ * Storage for the audit journal.
+ *
+ * Backends only ever append; entries are never updated or removed.
+ */
+export interface JournalBackend {
+  /**
+   * Appends an entry.
+   *
+   * @param entry - The entry to append.
+   */
+  append(entry: JournalEntry): Promise<void>;
+
+  /**
+   * Reads every entry, oldest first.
+   *
+   * @returns The entries.
+   */
+  read(): Promise<JournalEntry[]>;
+}
@@ -0,0 +1,472 @@
+import { randomUUID } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { createInterface } from "readline";
+import { Action } from "../actionProviders";
+import { renderActionResult } from "../actionProviders/actionResult";
+import { actionToJsonSchema } from "../toolDefinitions";
+import type { TensaiKit } from "../tensaiKit";
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcError,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "../common/types";
+import {
+  createBearerTokenCheck,
+  readJsonBody,
+  RequestBodyError,
+} from "../common/utils";
+import {
+  McpHttpOptions,
+  McpServerOptions,
+  McpTool,
+  McpToolResult,
+} from "./types";
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const {
+  PARSE_ERROR,
+  INVALID_REQUEST,
+  METHOD_NOT_FOUND,
+  INVALID_PARAMS,
+  INTERNAL_ERROR,
+} = JSON_RPC_ERRORS;
+
+/**
+ * Thrown by request handlers to answer with a JSON-RPC error.
+ */
+class McpProtocolError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = "McpProtocolError";
+  }
+}
+
+const errorResponse = (
+  id: string | number | null,
+  error: JsonRpcError
+): JsonRpcResponse => ({ jsonrpc: "2.0", id, error });
+
+/**
+ * TensaiKitMcpServer serves the actions of a TensaiKit as Model Context Protocol
+ * tools, so that desktop and IDE agents can drive the wallet without glue code.
+ *
+ * The server speaks MCP over stdio (`serveStdio`) and over HTTP (`listen`),
+ * where it accepts both the SSE transport (`GET /sse` and `POST /messages`) and
+ * the streamable HTTP transport (`POST /mcp`, answered with plain JSON). The
+ * HTTP transport rejects browser requests from origins that are not allowed,
+ * and can require a bearer token.
+ *
+ * Tool results carry the rendered `ActionResult`, i.e. the same
+ * `{ action, status, summary, data }` payload LLM tools receive. Failed
+ * invocations, including invalid arguments, are reported as tool errors so
+ * that the model can correct its call.
+ */
+export class TensaiKitMcpServer {
+  readonly #tensaiKit: TensaiKit;
+  readonly #options: McpServerOptions;
+  readonly #sseSessions = new Map<string, ServerResponse>();
+
+  /**
+   * Creates a new TensaiKitMcpServer.
+   *
+   * @param tensaiKit - The configured kit whose actions are served.
+   * @param options - The server options.
+   */
+  constructor(tensaiKit: TensaiKit, options: McpServerOptions = {}) {
+    this.#tensaiKit = tensaiKit;
+    this.#options = options;
+  }
+
+  /**
+   * Handles a JSON-RPC message, or a batch of them, whatever the transport.
+   *
+   * @param message - The parsed message.
+   * @returns The response, or undefined if the message only held notifications.
+   */
+  async handleMessage(
+    message: unknown
+  ): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    if (Array.isArray(message)) {
+      const responses = (
+        await Promise.all(message.map((entry) => this.handleRequest(entry)))
+      ).filter((response): response is JsonRpcResponse => !!response);
+
+      return responses.length ? responses : undefined;
+    }
+
+    return this.handleRequest(message);
+  }
+
+  /**
+   * Serves MCP over stdio, one JSON-RPC message per line.
+   *
+   * While serving on the process stdout, the global `console.log` and
+   * `console.info` are redirected to `console.error`, for the whole process, so
+   * that logs of the actions cannot corrupt the protocol. They are restored once
+   * the input ends.
+   *
+   * @param input - The stream requests are read from. Defaults to stdin.
+   * @param output - The stream responses are written to. Defaults to stdout.
+   * @returns A promise that resolves when the input ends.
+   */
+  async serveStdio(
+    input: NodeJS.ReadableStream = process.stdin,
+    output: NodeJS.WritableStream = process.stdout
+  ): Promise<void> {
+    const { log, info } = console;
+    if (output === process.stdout) {
+      console.log = console.error;
+      console.info = console.error;
+    }
+
+    const write = (response: JsonRpcResponse | JsonRpcResponse[]) => {
+      output.write(`${JSON.stringify(response)}\n`);
+    };
+
+    const pending: Promise<void>[] = [];
+
+    try {
+      for await (const line of createInterface({
+        input,
+        crlfDelay: Infinity,
+      })) {
+        if (!line.trim()) continue;
+
+        let message: unknown;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          write(
+            errorResponse(null, { code: PARSE_ERROR, message: "Parse error" })
+          );
+          continue;
+        }
+
+        // Requests are handled concurrently, a long transaction must not block pings.
+        pending.push(
+          this.handleMessage(message).then((response) => {
+            if (response) write(response);
+          })
+        );
+      }
+
+      await Promise.all(pending);
+    } finally {
+      console.log = log;
+      console.info = info;
+    }
+  }
+
+  /**
+   * Serves MCP over HTTP.
+   *
+   * Requests must be sent as `application/json`, carry one of the configured
+   * bearer tokens, if any, and come from an allowed origin when sent by a
+   * browser, so that web pages cannot call the tools through the local server.
+   *
+   * @param options - Where to listen, and who may connect.
+   * @returns The listening HTTP server. Close it to stop serving.
+   */
+  listen(options: McpHttpOptions): Promise<Server> {
+    const checkToken = options.token
+      ? createBearerTokenCheck([options.token].flat().filter(Boolean))
+      : undefined;
+    const allowedOrigins = options.allowedOrigins ?? [];
+
+    const server = createServer((req, res) => {
+      const { origin } = req.headers;
+      if (origin !== undefined && !allowedOrigins.includes(origin)) {
+        this.rejectHttpRequest(res, 403, `Origin ${origin} is not allowed`);
+        return;
+      }
+
+      if (checkToken && !checkToken(req.headers.authorization)) {
+        this.rejectHttpRequest(res, 401, "Missing or invalid bearer token");
+        return;
+      }
+
+      this.handleHttpRequest(req, res).catch((error) => {
+        console.error("MCP HTTP request failed:", error);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(options.port, options.host ?? "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve(server);
+      });
+    });
+  }
+
+  /**
+   * Lists the served actions as MCP tools.
+   *
+   * @returns The tools.
+   */
+  listTools(): McpTool[] {
+    return this.getActions().map((action) => ({
+      name: action.name,
+      description: action.description,
+      inputSchema: actionToJsonSchema(action),
+      annotations: {
+        readOnlyHint: !action.metadata.mutatesState,
+        destructiveHint: action.metadata.riskLevel === "high",
+        openWorldHint: true,
+      },
+    }));
+  }
+
+  /**
+   * Invokes a served action as an MCP tool.
+   *
+   * @param name - The name of the tool.
+   * @param args - The arguments of the call.
+   * @returns The tool result.
+   */
+  async callTool(name: string, args: unknown): Promise<McpToolResult> {
+    const action = this.getActions().find(
+      (candidate) => candidate.name === name
+    );
+
+    if (!action) {
+      throw new McpProtocolError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    try {
+      const result = await action.invokeWithResult(args ?? {});
+      const text = renderActionResult(result);
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: JSON.parse(text),
+        isError: result.status === "error",
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: error instanceof Error ? error.message : String(error),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Gets the served actions.
+   *
+   * @returns The actions selected by the `selection` option.
+   */
+  private getActions(): Action[] {
+    return this.#tensaiKit.getActions(this.#options.selection, {
+      walletId: this.#options.walletId,
+    });
+  }
+
+  /**
+   * Handles a single JSON-RPC request or notification.
+   *
+   * @param request - The parsed request.
+   * @returns The response, or undefined for a notification.
+   */
+  private async handleRequest(
+    request: unknown
+  ): Promise<JsonRpcResponse | undefined> {
+    if (
+      typeof request !== "object" ||
+      request === null ||
+      (request as JsonRpcRequest).jsonrpc !== "2.0" ||
+      typeof (request as JsonRpcRequest).method !== "string"
+    ) {
+      return errorResponse(null, {
+        code: INVALID_REQUEST,
+        message: "Invalid Request",
+      });
+    }
+
+    const { id, method, params = {} } = request as JsonRpcRequest;
+    const isNotification = id === undefined;
+
+    try {
+      const result = await this.dispatch(method, params);
+      return isNotification ? undefined : { jsonrpc: "2.0", id, result };
+    } catch (error) {
+      if (isNotification) return undefined;
+
+      return errorResponse(
+        id,
+        error instanceof McpProtocolError
+          ? { code: error.code, message: error.message }
+          : {
+              code: INTERNAL_ERROR,
+              message: error instanceof Error ? error.message : String(error),
+            }
+      );
+    }
+  }
+
+  /**
+   * Runs an MCP method.
+   *
+   * @param method - The method name.
+   * @param params - The method parameters.
+   * @returns The method result.
+   */
+  private async dispatch(
+    method: string,
+    params: Record<string, unknown>
+  ): Promise<unknown> {
+    switch (method) {
+      case "initialize": {
+        const requested = params.protocolVersion as string | undefined;
+
+        return {
+          protocolVersion:
+            requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+              ? requested
+              : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: {
+            name: this.#options.name ?? "tensaikit",
+            version: this.#options.version ?? "1.0.0",
+          },
+          instructions: this.#options.instructions,
+        };
+      }
+      case "ping":
+        return {};
+      case "tools/list":
+        return { tools: this.listTools() };
+      case "tools/call":
+        if (typeof params.name !== "string") {
+          throw new McpProtocolError(INVALID_PARAMS, "Missing tool name");
+        }
+        return this.callTool(params.name, params.arguments);
+      default:
+        if (method.startsWith("notifications/")) return undefined;
+        throw new McpProtocolError(
+          METHOD_NOT_FOUND,
+          `Method not found: ${method}`
+        );
+    }
+  }
+
+  /**
+   * Routes an HTTP request to the SSE or the streamable HTTP transport.
+   *
+   * @param req - The request.
+   * @param res - The response.
+   */
+  private async handleHttpRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (req.method === "GET" && url.pathname === "/sse") {
+      const sessionId = randomUUID();
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.write(`event: endpoint\ndata: /messages?sessionId=${sessionId}\n\n`);
+
+      this.#sseSessions.set(sessionId, res);
+      req.on("close", () => this.#sseSessions.delete(sessionId));
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/messages") {
+      const stream = this.#sseSessions.get(
+        url.searchParams.get("sessionId") ?? ""
+      );
+      if (!stream) {
+        res.writeHead(404).end("Unknown session");
+        return;
+      }
+
+      const message = await this.readJsonBody(req, res);
+      if (message === undefined) return;
+
+      res.writeHead(202).end("Accepted");
+
+      const response = await this.handleMessage(message);
+      if (response) {
+        stream.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+      }
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/mcp") {
+      const message = await this.readJsonBody(req, res);
+      if (message === undefined) return;
+
+      const response = await this.handleMessage(message);
+      if (!response) {
+        res.writeHead(202).end();
+        return;
+      }
+
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify(response));
+      return;
+    }
+
+    res.writeHead(404).end("Not found");
+  }
+
+  /**
+   * Answers an HTTP request with a JSON-RPC error.
+   *
+   * @param res - The response.
+   * @param status - The HTTP status.
+   * @param message - The error message.
+   */
+  private rejectHttpRequest(
+    res: ServerResponse,
+    status: number,
+    message: string
+  ): void {
+    res
+      .writeHead(status, { "Content-Type": "application/json" })
+      .end(
+        JSON.stringify(
+          errorResponse(null, {
+            code: status === 400 ? PARSE_ERROR : INVALID_REQUEST,
+            message,
+          })
+        )
+      );
+  }
+
+  /**
+   * Reads a JSON request body, answering the request itself when the body is invalid.
+   *
+   * @param req - The request.
+   * @param res - The response.
+   * @returns The parsed body, or undefined if the request was already answered.
+   */
+  private async readJsonBody(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<unknown> {
+    try {
+      return await readJsonBody(req);
+    } catch (error) {
+      // Anything else, e.g. a stream error, is answered with a 500.
+      if (!(error instanceof RequestBodyError)) throw error;
+
+      this.rejectHttpRequest(res, error.status, error.message);
+      return undefined;
+    }
+  }
+}
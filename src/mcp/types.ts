@@ -0,0 +1,89 @@
+import { ActionFilter } from "../actionProviders";
+import { JsonSchema } from "../toolDefinitions";
+
+export type {
+  JsonRpcError,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "../common/types";
+
+/**
+ * An action described as an MCP tool.
+ */
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  annotations: {
+    readOnlyHint: boolean;
+    destructiveHint: boolean;
+    openWorldHint: boolean;
+  };
+}
+
+/**
+ * The result of an MCP `tools/call` request.
+ */
+export interface McpToolResult {
+  content: { type: "text"; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError: boolean;
+}
+
+/**
+ * Configuration options for a TensaiKitMcpServer.
+ */
+export interface McpServerOptions {
+  /**
+   * The server name reported to clients. Defaults to `"tensaikit"`.
+   */
+  name?: string;
+
+  /**
+   * The server version reported to clients. Defaults to `"1.0.0"`.
+   */
+  version?: string;
+
+  /**
+   * Instructions for the model, reported to clients on initialization.
+   */
+  instructions?: string;
+
+  /**
+   * A filter, or the name of a configured toolset, selecting the actions served as tools.
+   */
+  selection?: string | ActionFilter;
+
+  /**
+   * The ID of the registered wallet the tools run with. Defaults to the default wallet of the kit.
+   */
+  walletId?: string;
+}
+
+/**
+ * Where the HTTP transport listens.
+ */
+export interface McpHttpOptions {
+  /**
+   * The port to listen on.
+   */
+  port: number;
+
+  /**
+   * The host to bind to. Defaults to `"127.0.0.1"`.
+   */
+  host?: string;
+
+  /**
+   * The bearer token, or tokens, that clients must send in the `Authorization`
+   * header. Without one, any local process can call the tools.
+   */
+  token?: string | string[];
+
+  /**
+   * The origins browsers may call the server from, e.g. `"http://localhost:5173"`.
+   * Requests carrying any other `Origin` header are rejected. Defaults to none,
+   * so that web pages cannot reach the wallet.
+   */
+  allowedOrigins?: string[];
+}
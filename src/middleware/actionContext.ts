@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { ActionMiddlewareContext } from "./types";
+
+const actionContextStorage = new AsyncLocalStorage<ActionMiddlewareContext>();
+
+/**
+ * Runs a function with the given action invocation as the current action context.
+ *
+ * @param context - The invocation context.
+ * @param fn - The function to run.
+ * @returns The return value of the function.
+ */
+export const runInActionContext = <T>(
+  context: ActionMiddlewareContext,
+  fn: () => T
+): T => actionContextStorage.run(context, fn);
+
+/**
+ * Returns the context of the action invocation currently running, if any.
+ *
+ * This lets code that runs underneath an action, such as wallet transaction
+ * interceptors, find out which action triggered it.
+ *
+ * @returns The current invocation context, or undefined outside of an action.
+ */
+export const getActionContext = (): ActionMiddlewareContext | undefined =>
+  actionContextStorage.getStore();
@@ -0,0 +1,91 @@
+import {
+  ActionErrorDirective,
+  ActionMiddleware,
+  ActionMiddlewareContext,
+} from "./types";
+import { runInActionContext } from "./actionContext";
+import { ActionResult } from "../actionProviders";
+
+/**
+ * How many times an invocation runs at most, retries included.
+ */
+export const MAX_ACTION_ATTEMPTS = 5;
+
+/**
+ * Runs an action invocation through a chain of middlewares.
+ *
+ * Each `before` hook may rewrite `context.args` or short-circuit with a result.
+ * Only the middlewares whose `before` hook ran get their `after` and `onError`
+ * hooks called. An `onError` hook may recover with a result, or ask for a retry,
+ * in which case the whole chain runs again with `context.attempt` incremented,
+ * from the original args and state, up to `MAX_ACTION_ATTEMPTS` attempts. The
+ * whole chain runs with `context` as the current action context.
+ *
+ * @param middlewares - The middlewares to run, in registration order.
+ * @param context - The invocation context, shared by all hooks.
+ * @param invoke - Invokes the underlying action with the (possibly rewritten) args.
+ * @returns The final result of the invocation.
+ */
+export const runActionPipeline = (
+  middlewares: ActionMiddleware[],
+  context: ActionMiddlewareContext,
+  invoke: (args: unknown) => Promise<ActionResult>
+): Promise<ActionResult> =>
+  runInActionContext(context, async () => {
+    const { args, state } = context;
+
+    for (;;) {
+      let entered = 0;
+      context.args = args;
+      context.state = { ...state };
+
+      try {
+        let shortCircuit: ActionResult | undefined;
+
+        for (const middleware of middlewares) {
+          entered++;
+          const directive = await middleware.before?.(context);
+
+          if (directive && "args" in directive) {
+            context.args = directive.args;
+          } else if (directive && "result" in directive) {
+            shortCircuit = directive.result;
+            break;
+          }
+        }
+
+        let result = shortCircuit ?? (await invoke(context.args));
+
+        for (const middleware of middlewares.slice(0, entered).reverse()) {
+          const replacement = await middleware.after?.(context, result);
+          if (replacement) {
+            result = replacement;
+          }
+        }
+
+        return result;
+      } catch (error) {
+        let directive: ActionErrorDirective | void = undefined;
+
+        for (const middleware of middlewares.slice(0, entered).reverse()) {
+          directive = await middleware.onError?.(context, error);
+          if (directive) break;
+        }
+
+        if (
+          directive &&
+          "retry" in directive &&
+          context.attempt < MAX_ACTION_ATTEMPTS
+        ) {
+          context.attempt++;
+          continue;
+        }
+
+        if (directive && "result" in directive) {
+          return directive.result;
+        }
+
+        throw error;
+      }
+    }
+  });
@@ -0,0 +1,102 @@
+import { Action, ActionResult } from "../actionProviders";
+import { WalletProvider } from "../walletProviders";
+
+/**
+ * Context shared by every middleware hook during a single action invocation.
+ */
+export interface ActionMiddlewareContext {
+  /**
+   * The action being invoked.
+   */
+  action: Action;
+
+  /**
+   * The name of the action provider that registered the action.
+   */
+  actionProvider: string;
+
+  /**
+   * The wallet provider the action is bound to.
+   */
+  walletProvider: WalletProvider;
+
+  /**
+   * The ID the wallet is registered under in the kit, if any.
+   */
+  walletId?: string;
+
+  /**
+   * The arguments the action will be invoked with. Hooks may rewrite them.
+   */
+  args: unknown;
+
+  /**
+   * The current attempt, starting at 1 and incremented on every retry.
+   */
+  attempt: number;
+
+  /**
+   * Scratch space that middlewares can use to share state between their hooks.
+   */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Returned from a `before` hook to rewrite the arguments or to short-circuit
+ * the invocation with a result, skipping the action entirely.
+ */
+export type BeforeActionDirective =
+  | { args: unknown }
+  | { result: ActionResult };
+
+/**
+ * Returned from an `onError` hook to recover with a result or to retry the invocation.
+ */
+export type ActionErrorDirective = { result: ActionResult } | { retry: true };
+
+/**
+ * A set of hooks that runs around every action invocation.
+ *
+ * `before` hooks run in registration order, `after` and `onError` hooks run in
+ * reverse order, so the first registered middleware wraps all the others.
+ */
+export interface ActionMiddleware {
+  /**
+   * The name of the middleware, used in logs and error messages.
+   */
+  name: string;
+
+  /**
+   * Runs before the action is invoked.
+   *
+   * @param context - The invocation context.
+   * @returns Nothing to continue, or a directive to rewrite the args or short-circuit.
+   */
+  before?: (
+    context: ActionMiddlewareContext
+  ) => Promise<BeforeActionDirective | void> | BeforeActionDirective | void;
+
+  /**
+   * Runs after the action resolved.
+   *
+   * @param context - The invocation context.
+   * @param result - The result produced by the action or by inner middlewares.
+   * @returns Nothing to keep the result, or a replacement result.
+   */
+  after?: (
+    context: ActionMiddlewareContext,
+    result: ActionResult
+  ) => Promise<ActionResult | void> | ActionResult | void;
+
+  /**
+   * Runs when the action, or any hook of an inner middleware, throws.
+   *
+   * @param context - The invocation context.
+   * @param error - The thrown error.
+   * @returns Nothing to rethrow, or a directive to recover or retry.
+   */
+  onError?: (
+    context: ActionMiddlewareContext,
+    error: unknown
+  ) => Promise<ActionErrorDirective | void> | ActionErrorDirective | void;
+}
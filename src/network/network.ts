@@ -2,6 +2,7 @@ import { Chain } from "viem/chains";
 import * as chains from "viem/chains";
 import { katana } from "./katana";
 import { katanaTestnet } from "./katanaTestnet";
+import { createError, ErrorCode } from "../common/errors";
 
 /**
  * Maps EVM chain IDs to tensai-kit network IDs.
@@ -47,3 +48,59 @@ export const getChain = (id: string | number): Chain => {
 
   return match;
 };
+
+/**
+ * Selects a network: a tensai-kit network ID such as `"katana-testnet"`, an EVM
+ * chain ID, or a viem chain definition for custom chains.
+ */
+export type NetworkSelector = string | number | Chain;
+
+/**
+ * Resolves a network selector to a viem chain.
+ *
+ * @param network - The network ID, chain ID or chain definition.
+ * @returns The matching `Chain` object. Chain definitions are returned as is.
+ * @throws INVALID_NETWORK if the network is unknown.
+ */
+export const resolveNetworkChain = (network: NetworkSelector): Chain => {
+  if (typeof network === "object") {
+    return network;
+  }
+
+  const chainId =
+    typeof network === "number"
+      ? network
+      : Number(
+          NETWORK_ID_TO_CHAIN_ID[network] ??
+            (/^\d+$/.test(network) ? network : NaN)
+        );
+
+  if (Number.isNaN(chainId)) {
+    throw createError(
+      `Unknown network "${network}". Known networks: ${Object.keys(
+        NETWORK_ID_TO_CHAIN_ID
+      ).join(", ")}. Pass a chain ID or a chain definition for other chains.`,
+      ErrorCode.INVALID_NETWORK
+    );
+  }
+
+  const knownChain = NETWORK_ID_TO_VIEM_CHAIN[CHAIN_ID_TO_NETWORK_ID[chainId]];
+  if (knownChain) {
+    return knownChain;
+  }
+
+  try {
+    return getChain(chainId);
+  } catch (error) {
+    throw createError((error as Error).message, ErrorCode.INVALID_NETWORK);
+  }
+};
+
+/**
+ * Names a chain: its tensai-kit network ID, or its chain ID for other chains.
+ *
+ * @param chain - The chain.
+ * @returns The network ID or the chain ID.
+ */
+export const getNetworkName = (chain: Chain): string =>
+  CHAIN_ID_TO_NETWORK_ID[chain.id] ?? String(chain.id);
@@ -0,0 +1,499 @@
+import Decimal from "decimal.js";
+import { Address, formatUnits, Hex, TransactionRequest } from "viem";
+import { EvmWalletProvider, TransactionInterceptor } from "../walletProviders";
+import { ActionMiddleware, getActionContext } from "../middleware";
+import { abi as ERC20_ABI } from "../actionProviders/erc20/constants";
+import { GetExecuteSwapSchema } from "../actionProviders/sushiSwap/schemas";
+import { parseActionArgs } from "../actionProviders/actionArgs";
+import { createError, ErrorCode } from "../common/errors";
+import { isDryRun } from "../dryRun";
+import { decodeTransactionCalldata, isNativeToken } from "../utils";
+import {
+  NATIVE_TOKEN,
+  PolicyConfig,
+  PolicyPeriod,
+  PolicyRule,
+  PolicyViolationDetails,
+  SpendLimit,
+} from "./types";
+
+const PERIOD_MS: Record<PolicyPeriod, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+const WAD_DECIMALS = 18;
+
+const SWAP_SPENDS_KEY = "policySwapSpends";
+
+/**
+ * A token amount leaving the wallet, in whole units.
+ */
+interface Spend {
+  token: string;
+  amount: Decimal;
+}
+
+/**
+ * What a write does, as far as the policy rules are concerned.
+ */
+interface WriteEffects {
+  contracts: string[];
+  tokens: string[];
+  destinations: string[];
+  spends: Spend[];
+  lltv?: bigint;
+  erc20Call?: boolean;
+}
+
+/**
+ * PolicyEngine enforces a declarative `PolicyConfig` on every write.
+ *
+ * Transactions are checked by a wallet transaction interceptor, so every write is
+ * covered regardless of the action that sent it, including approvals sent by
+ * `approve()`. Swaps are additionally checked by an action middleware, because
+ * the slippage and the ERC-20 amount of a swap are not visible in router calldata.
+ *
+ * Spends are tracked per wallet address and token in memory. A spend is reserved
+ * by the interceptor as soon as its transaction passed the checks, kept once the
+ * transaction is sent, and released again if it is rejected before being sent.
+ * The ERC-20 spend of a swap is checked by the middleware and reserved along with
+ * the router transaction of the swap. In dry-run mode writes are checked all the
+ * same, but their spends are not recorded.
+ */
+export class PolicyEngine {
+  readonly #config: PolicyConfig;
+  readonly #spendLimits: Map<string, SpendLimit>;
+  readonly #ledger = new Map<string, { timestamp: number; amount: Decimal }[]>();
+  readonly #decimals = new Map<string, number>();
+
+  /**
+   * Creates a new PolicyEngine.
+   *
+   * @param config - The policy to enforce.
+   */
+  constructor(config: PolicyConfig) {
+    this.#config = config;
+    this.#spendLimits = new Map(
+      (config.spendLimits || []).map((limit) => [
+        normalizeToken(limit.token),
+        limit,
+      ])
+    );
+  }
+
+  /**
+   * Returns the action middleware that checks swap arguments.
+   *
+   * @returns The policy middleware.
+   */
+  asMiddleware(): ActionMiddleware {
+    return {
+      name: "policy",
+      before: (context) => {
+        if (context.action.schema !== GetExecuteSwapSchema) return;
+
+        const args = parseActionArgs(
+          context.action.name,
+          GetExecuteSwapSchema,
+          context.args
+        );
+        const wallet = context.walletProvider.getAddress();
+
+        if (
+          this.#config.maxSlippage !== undefined &&
+          args.maxSlippage > this.#config.maxSlippage
+        ) {
+          throw violation(
+            `Swap slippage ${args.maxSlippage} exceeds the maximum of ${
+              this.#config.maxSlippage
+            }`,
+            "max_slippage",
+            String(args.maxSlippage),
+            String(this.#config.maxSlippage)
+          );
+        }
+
+        const tokenIn = normalizeToken(args.tokenIn);
+        this.checkTokens([tokenIn, normalizeToken(args.tokenOut)]);
+
+        // Native input is sent as transaction value and checked per transaction.
+        if (tokenIn !== NATIVE_TOKEN) {
+          const spends = [{ token: tokenIn, amount: new Decimal(args.amount) }];
+          this.checkSpends(wallet, spends);
+          // Reserved by the interceptor along with the router transaction.
+          context.state[SWAP_SPENDS_KEY] = spends;
+        }
+      },
+    };
+  }
+
+  /**
+   * Returns the transaction interceptor that checks every transaction before it is signed.
+   *
+   * @returns The policy interceptor.
+   */
+  asTransactionInterceptor(): TransactionInterceptor {
+    return {
+      name: "policy",
+      onSendTransaction: async (transaction, next, walletProvider) => {
+        const wallet = walletProvider.getAddress();
+        const effects = await this.describeTransaction(
+          walletProvider,
+          transaction
+        );
+
+        // The swap spend leaves the wallet with the router call, not the approval.
+        const state = getActionContext()?.state;
+        const swapSpends = effects.erc20Call
+          ? undefined
+          : (state?.[SWAP_SPENDS_KEY] as Spend[] | undefined);
+        effects.spends.push(...(swapSpends || []));
+
+        this.checkEffects(wallet, effects);
+        const release = this.reserveSpends(wallet, effects.spends);
+
+        let hash: Hex;
+        try {
+          hash = await next(transaction);
+        } catch (error) {
+          release();
+          throw error;
+        }
+
+        if (swapSpends) delete state?.[SWAP_SPENDS_KEY];
+        return hash;
+      },
+    };
+  }
+
+  /**
+   * Checks the effects of a write against every configured rule.
+   *
+   * @param wallet - The address of the wallet performing the write.
+   * @param effects - The effects of the write.
+   * @throws POLICY_VIOLATION if any rule rejects the write.
+   */
+  private checkEffects(wallet: string, effects: WriteEffects): void {
+    const { allowedContracts, allowedDestinations, maxMorphoLtv } =
+      this.#config;
+
+    if (allowedContracts) {
+      const allowed = allowedContracts.map((address) => address.toLowerCase());
+      const contract = effects.contracts.find((c) => !allowed.includes(c));
+      if (contract) {
+        throw violation(
+          `Contract ${contract} is not in the allowed contracts list`,
+          "allowed_contracts",
+          contract
+        );
+      }
+    }
+
+    if (allowedDestinations) {
+      const allowed = [wallet, ...allowedDestinations].map((address) =>
+        address.toLowerCase()
+      );
+      const destination = effects.destinations.find(
+        (d) => !allowed.includes(d)
+      );
+      if (destination) {
+        throw violation(
+          `Destination ${destination} is not in the allowed destinations list`,
+          "allowed_destinations",
+          destination
+        );
+      }
+    }
+
+    this.checkTokens(effects.tokens);
+
+    if (maxMorphoLtv !== undefined && effects.lltv !== undefined) {
+      const lltv = new Decimal(formatUnits(effects.lltv, WAD_DECIMALS));
+      if (lltv.greaterThan(maxMorphoLtv)) {
+        throw violation(
+          `Morpho market LLTV ${lltv} exceeds the maximum of ${maxMorphoLtv}`,
+          "max_morpho_ltv",
+          lltv.toString(),
+          String(maxMorphoLtv)
+        );
+      }
+    }
+
+    this.checkSpends(wallet, effects.spends);
+  }
+
+  /**
+   * Checks that every token is allowlisted.
+   *
+   * @param tokens - The normalized tokens involved in the write.
+   * @throws POLICY_VIOLATION if a token is not allowlisted.
+   */
+  private checkTokens(tokens: string[]): void {
+    if (!this.#config.allowedTokens) return;
+
+    const allowed = this.#config.allowedTokens.map(normalizeToken);
+    const token = tokens.find((t) => !allowed.includes(t));
+    if (token) {
+      throw violation(
+        `Token ${token} is not in the allowed tokens list`,
+        "allowed_tokens",
+        token
+      );
+    }
+  }
+
+  /**
+   * Checks spends against the per-transaction and per-period caps.
+   *
+   * @param wallet - The address of the wallet spending.
+   * @param spends - The spends of the write.
+   * @throws POLICY_VIOLATION if a cap would be exceeded.
+   */
+  private checkSpends(wallet: string, spends: Spend[]): void {
+    for (const { token, amount } of spends) {
+      const limit = this.#spendLimits.get(token);
+      if (!limit) continue;
+
+      if (
+        limit.maxPerTransaction !== undefined &&
+        amount.greaterThan(limit.maxPerTransaction)
+      ) {
+        throw violation(
+          `Spending ${amount} of ${token} exceeds the per-transaction limit of ${limit.maxPerTransaction}`,
+          "spend_limit",
+          amount.toString(),
+          String(limit.maxPerTransaction)
+        );
+      }
+
+      if (limit.maxPerPeriod !== undefined) {
+        const period = limit.period || "day";
+        const total = this.spentWithin(wallet, token, PERIOD_MS[period]).plus(
+          amount
+        );
+
+        if (total.greaterThan(limit.maxPerPeriod)) {
+          throw violation(
+            `Spending ${amount} of ${token} exceeds the ${period} limit of ${limit.maxPerPeriod} (${total} including previous spends)`,
+            "spend_limit",
+            total.toString(),
+            String(limit.maxPerPeriod)
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Sums what a wallet spent of a token within a rolling window.
+   *
+   * @param wallet - The wallet address.
+   * @param token - The normalized token.
+   * @param windowMs - The window length in milliseconds.
+   * @returns The total spent, in whole units.
+   */
+  private spentWithin(wallet: string, token: string, windowMs: number) {
+    const since = Date.now() - windowMs;
+    const entries = (this.#ledger.get(ledgerKey(wallet, token)) || []).filter(
+      (entry) => entry.timestamp >= since
+    );
+    this.#ledger.set(ledgerKey(wallet, token), entries);
+
+    return entries.reduce((sum, entry) => sum.plus(entry.amount), new Decimal(0));
+  }
+
+  /**
+   * Records spends as soon as they passed the checks, so that concurrent writes
+   * of the same wallet count them against the caps before they went through.
+   *
+   * Nothing is recorded in dry-run mode, so simulated writes are checked but do
+   * not use up the caps.
+   *
+   * @param wallet - The address of the wallet spending.
+   * @param spends - The spends to reserve.
+   * @returns A function that releases the reservation if the transaction is not sent.
+   */
+  private reserveSpends(wallet: string, spends: Spend[]): () => void {
+    if (isDryRun()) return () => undefined;
+
+    const timestamp = Date.now();
+    const reserved = spends.map(({ token, amount }) => {
+      const key = ledgerKey(wallet, token);
+      const entry = { timestamp, amount };
+      this.#ledger.set(key, [...(this.#ledger.get(key) || []), entry]);
+      return { key, entry };
+    });
+
+    return () =>
+      reserved.forEach(({ key, entry }) =>
+        this.#ledger.set(
+          key,
+          (this.#ledger.get(key) || []).filter((e) => e !== entry)
+        )
+      );
+  }
+
+  /**
+   * Works out what a transaction does from its value and decoded calldata.
+   *
+   * @param walletProvider - The wallet sending the transaction, used to resolve token decimals.
+   * @param transaction - The transaction to describe.
+   * @returns The effects of the transaction.
+   */
+  private async describeTransaction(
+    walletProvider: EvmWalletProvider,
+    transaction: TransactionRequest
+  ): Promise<WriteEffects> {
+    const to = (transaction.to || "").toLowerCase();
+    const value = transaction.value ?? BigInt(0);
+    const hasData = !!transaction.data && transaction.data !== "0x";
+    const decoded = decodeTransactionCalldata(transaction.data);
+
+    const effects: WriteEffects = {
+      contracts: hasData ? [to] : [],
+      tokens: [],
+      destinations: [],
+      spends: [],
+    };
+
+    const spend = async (token: string, amount: unknown) => {
+      const decimals = await this.tokenDecimals(walletProvider, token);
+      effects.spends.push({
+        token: normalizeToken(token),
+        amount: new Decimal(formatUnits(amount as bigint, decimals)),
+      });
+    };
+
+    if (value > BigInt(0)) {
+      effects.tokens.push(NATIVE_TOKEN);
+      await spend(NATIVE_TOKEN, value);
+      if (!hasData) effects.destinations.push(to);
+    }
+
+    if (decoded?.contract === "erc20") {
+      const { args } = decoded;
+      effects.erc20Call = true;
+      effects.tokens.push(to);
+
+      switch (decoded.functionName) {
+        case "transfer":
+        case "transferFrom":
+          effects.destinations.push(String(args.recipient).toLowerCase());
+          await spend(to, args.amount);
+          break;
+        case "approve":
+          // Both the token and the spender must be allowed contracts.
+          effects.contracts.push(String(args.spender).toLowerCase());
+          break;
+      }
+    }
+
+    if (decoded?.contract === "morpho_blue") {
+      const { args } = decoded;
+      const market = args.marketParams as
+        | { loanToken: Address; collateralToken: Address; lltv: bigint }
+        | undefined;
+
+      if (market) {
+        const loanToken = market.loanToken.toLowerCase();
+        const collateralToken = market.collateralToken.toLowerCase();
+
+        switch (decoded.functionName) {
+          case "supply":
+          case "repay":
+            effects.tokens.push(loanToken);
+            await spend(loanToken, args.assets);
+            break;
+          case "supplyCollateral":
+            effects.tokens.push(collateralToken);
+            await spend(collateralToken, args.assets);
+            break;
+          case "borrow":
+            effects.tokens.push(loanToken);
+            effects.destinations.push(String(args.receiver).toLowerCase());
+            effects.lltv = market.lltv;
+            break;
+          case "withdraw":
+            effects.tokens.push(loanToken);
+            effects.destinations.push(String(args.receiver).toLowerCase());
+            break;
+          case "withdrawCollateral":
+            effects.tokens.push(collateralToken);
+            effects.destinations.push(String(args.receiver).toLowerCase());
+            break;
+          default:
+            effects.tokens.push(loanToken, collateralToken);
+        }
+      }
+    }
+
+    return effects;
+  }
+
+  /**
+   * Resolves the decimals of a token, caching the result per chain and token.
+   *
+   * @param walletProvider - The wallet used to read the token contract.
+   * @param token - The token address, or `NATIVE_TOKEN`.
+   * @returns The token decimals.
+   */
+  private async tokenDecimals(
+    walletProvider: EvmWalletProvider,
+    token: string
+  ): Promise<number> {
+    if (token === NATIVE_TOKEN) return 18;
+
+    const key = `${walletProvider.getNetwork().chainId}:${token.toLowerCase()}`;
+    const cached = this.#decimals.get(key);
+    if (cached !== undefined) return cached;
+
+    const decimals = await walletProvider.readContract({
+      address: token as Address,
+      abi: ERC20_ABI,
+      functionName: "decimals",
+      args: [],
+    });
+    this.#decimals.set(key, decimals);
+
+    return decimals;
+  }
+}
+
+/**
+ * Normalizes a token for comparisons, mapping native placeholders to `NATIVE_TOKEN`.
+ *
+ * @param token - A token address, native placeholder or `NATIVE_TOKEN`.
+ * @returns The normalized token.
+ */
+const normalizeToken = (token: string): string =>
+  token === NATIVE_TOKEN || isNativeToken(token)
+    ? NATIVE_TOKEN
+    : token.toLowerCase();
+
+const ledgerKey = (wallet: string, token: string) =>
+  `${wallet.toLowerCase()}:${token}`;
+
+/**
+ * Creates a `POLICY_VIOLATION` error.
+ *
+ * @param message - A human readable description of the violation.
+ * @param rule - The rule that rejected the write.
+ * @param value - The offending value.
+ * @param limit - The limit the value was checked against.
+ * @returns The error to throw.
+ */
+const violation = (
+  message: string,
+  rule: PolicyRule,
+  value: string,
+  limit?: string
+) => {
+  const details: PolicyViolationDetails = { rule, value, limit };
+  return createError(
+    `Policy violation: ${message}`,
+    ErrorCode.POLICY_VIOLATION,
+    details
+  );
+};
@@ -0,0 +1,107 @@
+/**
+ * Token identifier used in policies to refer to the network's native asset.
+ */
+export const NATIVE_TOKEN = "native";
+
+/**
+ * Rolling window over which `SpendLimit.maxPerPeriod` is enforced.
+ */
+export type PolicyPeriod = "hour" | "day" | "week";
+
+/**
+ * Spend cap for a single token.
+ *
+ * Amounts are expressed in whole units (e.g. `"250"` for 250 USDC), the kit
+ * resolves token decimals on its own.
+ */
+export interface SpendLimit {
+  /**
+   * The token contract address, or `NATIVE_TOKEN` for the native asset.
+   */
+  token: string;
+
+  /**
+   * The maximum amount a single write may spend.
+   */
+  maxPerTransaction?: string | number;
+
+  /**
+   * The maximum cumulative amount that may be spent within `period`.
+   */
+  maxPerPeriod?: string | number;
+
+  /**
+   * The rolling window for `maxPerPeriod`. Defaults to `"day"`.
+   */
+  period?: PolicyPeriod;
+}
+
+/**
+ * Declarative policy checked before every write action is signed.
+ *
+ * Every rule is optional; an omitted rule is not enforced.
+ */
+export interface PolicyConfig {
+  /**
+   * Per-token spend caps.
+   */
+  spendLimits?: SpendLimit[];
+
+  /**
+   * Addresses allowed to receive funds (transfers, withdrawals and borrows).
+   * The wallet's own address is always allowed.
+   */
+  allowedDestinations?: string[];
+
+  /**
+   * Contracts the wallet may call or approve as spenders. An approval needs
+   * both the token and the spender to be allowed.
+   */
+  allowedContracts?: string[];
+
+  /**
+   * Tokens the wallet may spend, approve or receive. Use `NATIVE_TOKEN` for the native asset.
+   */
+  allowedTokens?: string[];
+
+  /**
+   * The maximum slippage a swap may request, e.g. `0.01` for 1%.
+   */
+  maxSlippage?: number;
+
+  /**
+   * The maximum liquidation LTV of a Morpho Blue market the wallet may borrow from, e.g. `0.86`.
+   */
+  maxMorphoLtv?: number;
+}
+
+/**
+ * The policy rule that rejected a write.
+ */
+export type PolicyRule =
+  | "spend_limit"
+  | "allowed_destinations"
+  | "allowed_contracts"
+  | "allowed_tokens"
+  | "max_slippage"
+  | "max_morpho_ltv";
+
+/**
+ * Details attached to a `POLICY_VIOLATION` error.
+ */
+export interface PolicyViolationDetails {
+  /**
+   * The rule that rejected the write.
+   */
+  rule: PolicyRule;
+
+  /**
+   * The offending value (address, amount, slippage, ...).
+   */
+  value: string;
+
+  /**
+   * The limit the value was checked against, if the rule has one.
+   */
+  limit?: string;
+}
@@ -0,0 +1,506 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { z } from "zod";
+import {
+  Action,
+  ActionInvokeOptions,
+  ActionResult,
+} from "../actionProviders";
+import { createError, CustomError, ErrorCode } from "../common/errors";
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "../common/types";
+import {
+  createBearerTokenCheck,
+  readJsonBody,
+  RequestBodyError,
+} from "../common/utils";
+import { actionToJsonSchema } from "../toolDefinitions";
+import type { TensaiKit } from "../tensaiKit";
+import {
+  ActionDescriptor,
+  HttpErrorBody,
+  HttpListenOptions,
+  HttpServerOptions,
+} from "./types";
+
+const InvokeBodySchema = z
+  .object({
+    args: z.record(z.unknown()).default({}),
+    dryRun: z.boolean().optional(),
+    walletId: z.string().optional(),
+  })
+  .strict();
+
+const DescribeParamsSchema = z.object({ name: z.string() });
+
+const InvokeParamsSchema = InvokeBodySchema.extend({ name: z.string() });
+
+const JsonRpcRequestSchema = z.object({
+  jsonrpc: z.literal("2.0"),
+  id: z.union([z.string(), z.number(), z.null()]).optional(),
+  method: z.string(),
+  params: z.record(z.unknown()).optional(),
+});
+
+const HTTP_STATUS: Partial<Record<string, number>> = {
+  [ErrorCode.INVALID_INPUT]: 400,
+  [ErrorCode.MISSING_REQUIRED_FIELD]: 400,
+  [ErrorCode.UNAUTHORIZED]: 401,
+  [ErrorCode.POLICY_VIOLATION]: 403,
+  [ErrorCode.APPROVAL_REJECTED]: 403,
+  [ErrorCode.NOT_FOUND]: 404,
+  [ErrorCode.WALLET_NOT_FOUND]: 404,
+  // Failures of the upstream APIs, whatever status they answered with.
+  [ErrorCode.API_CALL_FAILED]: 502,
+  [ErrorCode.NETWORK_ERROR]: 502,
+};
+
+const JSON_RPC_CODE: Partial<Record<string, number>> = {
+  [ErrorCode.INVALID_INPUT]: JSON_RPC_ERRORS.INVALID_PARAMS,
+  [ErrorCode.MISSING_REQUIRED_FIELD]: JSON_RPC_ERRORS.INVALID_PARAMS,
+};
+
+/**
+ * Serializes a value to JSON, rendering bigints as decimal strings.
+ *
+ * @param value - The value.
+ * @returns The JSON string.
+ */
+const toJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, entry) =>
+    typeof entry === "bigint" ? entry.toString() : entry
+  );
+
+/**
+ * Converts a thrown value to the body of an error response.
+ *
+ * @param error - The thrown value.
+ * @returns The error body.
+ */
+const toErrorBody = (error: unknown): HttpErrorBody => {
+  if (error instanceof CustomError) {
+    return {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+    };
+  }
+
+  return {
+    code: ErrorCode.UNKNOWN_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  };
+};
+
+/**
+ * Parses a request body or RPC params, throwing INVALID_INPUT with the
+ * offending fields.
+ *
+ * @param schema - The expected shape.
+ * @param value - The received value.
+ * @returns The parsed value.
+ */
+const parseRequest = <TSchema extends z.ZodSchema>(
+  schema: TSchema,
+  value: unknown
+): z.infer<TSchema> => {
+  const parsed = schema.safeParse(value);
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    throw createError(
+      `Invalid request: ${issues
+        .map((issue) => `${issue.path || "(root)"}: ${issue.message}`)
+        .join("; ")}`,
+      ErrorCode.INVALID_INPUT,
+      { issues }
+    );
+  }
+
+  return parsed.data;
+};
+
+/**
+ * TensaiKitHttpServer exposes the actions of a TensaiKit over HTTP, for agents
+ * that are not written in TypeScript.
+ *
+ * It serves a REST API and a JSON-RPC 2.0 endpoint:
+ *
+ * - `GET /actions` lists the actions with the JSON Schema of their arguments.
+ * - `GET /actions/:name` describes one action.
+ * - `POST /actions/:name/invoke` invokes an action with `{ args, dryRun?, walletId? }`.
+ * - `POST /rpc` accepts the `actions.list`, `actions.describe` and
+ *   `actions.invoke` methods, with the same parameters.
+ * - `GET /health` reports that the server is up, without authentication.
+ *
+ * Every other request must carry one of the configured bearer tokens. Actions
+ * are invoked through the kit, so its middleware, policy, approval gate,
+ * journal and telemetry apply. Errors carry their `ErrorCode`, as
+ * `{ error: { code, message, details } }` over REST and as the `data` of the
+ * JSON-RPC error over RPC.
+ */
+export class TensaiKitHttpServer {
+  readonly #tensaiKit: TensaiKit;
+  readonly #options: HttpServerOptions;
+  readonly #checkToken: (authorization: string | undefined) => boolean;
+
+  /**
+   * Creates a new TensaiKitHttpServer.
+   *
+   * @param tensaiKit - The configured kit whose actions are served.
+   * @param options - The server options.
+   *
+   * @throws CONFIGURATION_ERROR if no bearer token is configured.
+   */
+  constructor(tensaiKit: TensaiKit, options: HttpServerOptions) {
+    const tokens = [options.token].flat().filter(Boolean);
+
+    if (!tokens.length) {
+      throw createError(
+        "The HTTP server requires at least one bearer token.",
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    this.#tensaiKit = tensaiKit;
+    this.#options = options;
+    this.#checkToken = createBearerTokenCheck(tokens);
+  }
+
+  /**
+   * Starts listening.
+   *
+   * @param options - Where to listen.
+   * @returns The listening HTTP server. Close it to stop serving.
+   */
+  listen(options: HttpListenOptions): Promise<Server> {
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("HTTP request failed:", error);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(options.port, options.host ?? "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve(server);
+      });
+    });
+  }
+
+  /**
+   * Handles an HTTP request. Can be mounted on an existing `http` server or
+   * framework that exposes Node requests and responses.
+   *
+   * @param req - The request.
+   * @param res - The response.
+   */
+  async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const segments = url.pathname.split("/").filter(Boolean);
+
+    if (req.method === "GET" && url.pathname === "/health") {
+      this.send(res, 200, { status: "ok" });
+      return;
+    }
+
+    try {
+      this.authenticate(req);
+
+      if (req.method === "POST" && url.pathname === "/rpc") {
+        let message: unknown;
+        try {
+          message = await this.readBody(req);
+        } catch (error) {
+          const body = toErrorBody(error);
+          this.send(res, 200, {
+            jsonrpc: "2.0",
+            id: null,
+            error: {
+              code: JSON_RPC_ERRORS.PARSE_ERROR,
+              message: body.message,
+              data: body,
+            },
+          });
+          return;
+        }
+
+        const response = await this.handleRpc(message);
+        if (response) this.send(res, 200, response);
+        else res.writeHead(204).end();
+        return;
+      }
+
+      if (segments[0] === "actions") {
+        const name = segments[1] && decodeURIComponent(segments[1]);
+
+        if (req.method === "GET" && segments.length === 1) {
+          this.send(res, 200, { actions: this.listActions() });
+          return;
+        }
+
+        if (req.method === "GET" && segments.length === 2) {
+          this.send(res, 200, this.describeAction(name));
+          return;
+        }
+
+        if (
+          req.method === "POST" &&
+          segments.length === 3 &&
+          segments[2] === "invoke"
+        ) {
+          const { args, ...options } = parseRequest(
+            InvokeBodySchema,
+            await this.readBody(req)
+          );
+          const result = await this.invokeAction(name, args, options);
+          this.send(res, 200, { result });
+          return;
+        }
+      }
+
+      throw createError(
+        `No route for ${req.method} ${url.pathname}`,
+        ErrorCode.NOT_FOUND
+      );
+    } catch (error) {
+      const body = toErrorBody(error);
+      // Body read errors carry their own status (400, 413 or 415).
+      const status =
+        error instanceof RequestBodyError
+          ? error.status
+          : HTTP_STATUS[body.code] ?? 500;
+      this.send(res, status, { error: body });
+    }
+  }
+
+  /**
+   * Lists the served actions.
+   *
+   * @returns The action descriptors.
+   */
+  listActions(): ActionDescriptor[] {
+    return this.getActions().map((action) => this.toDescriptor(action));
+  }
+
+  /**
+   * Describes a served action.
+   *
+   * @param name - The name of the action.
+   * @returns The action descriptor.
+   *
+   * @throws NOT_FOUND if no served action has that name.
+   */
+  describeAction(name: string): ActionDescriptor {
+    return this.toDescriptor(this.getAction(name));
+  }
+
+  /**
+   * Invokes a served action.
+   *
+   * @param name - The name of the action.
+   * @param args - The arguments of the action.
+   * @param options - Whether to simulate the transactions instead of sending
+   * them, and the ID of the wallet to run with.
+   * @returns The result of the action.
+   *
+   * @throws NOT_FOUND if no served action has that name, or the error of the action.
+   */
+  invokeAction(
+    name: string,
+    args: unknown,
+    options: ActionInvokeOptions = {}
+  ): Promise<ActionResult> {
+    return this.getAction(name).invokeWithResult(args, options);
+  }
+
+  /**
+   * Handles a JSON-RPC message, or a batch of them.
+   *
+   * @param message - The parsed message.
+   * @returns The response, or undefined if the message only held notifications.
+   */
+  async handleRpc(
+    message: unknown
+  ): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    if (Array.isArray(message)) {
+      const responses = (
+        await Promise.all(message.map((entry) => this.handleRpcRequest(entry)))
+      ).filter((response): response is JsonRpcResponse => !!response);
+
+      return responses.length ? responses : undefined;
+    }
+
+    return this.handleRpcRequest(message);
+  }
+
+  /**
+   * Handles a single JSON-RPC request or notification.
+   *
+   * @param message - The parsed request.
+   * @returns The response, or undefined for a notification.
+   */
+  private async handleRpcRequest(
+    message: unknown
+  ): Promise<JsonRpcResponse | undefined> {
+    const request = JsonRpcRequestSchema.safeParse(message);
+
+    if (!request.success) {
+      return {
+        jsonrpc: "2.0",
+        id: null,
+        error: {
+          code: JSON_RPC_ERRORS.INVALID_REQUEST,
+          message: "Invalid Request",
+        },
+      };
+    }
+
+    const { id, method, params = {} }: JsonRpcRequest = request.data;
+
+    try {
+      const result = await this.dispatchRpc(method, params);
+      return id === undefined ? undefined : { jsonrpc: "2.0", id, result };
+    } catch (error) {
+      if (id === undefined) return undefined;
+
+      const body = toErrorBody(error);
+      return {
+        jsonrpc: "2.0",
+        id,
+        error: {
+          code: JSON_RPC_CODE[body.code] ?? JSON_RPC_ERRORS.SERVER_ERROR,
+          message: body.message,
+          data: body,
+        },
+      };
+    }
+  }
+
+  /**
+   * Runs a JSON-RPC method.
+   *
+   * @param method - The method name.
+   * @param params - The method parameters.
+   * @returns The method result.
+   */
+  private async dispatchRpc(
+    method: string,
+    params: Record<string, unknown>
+  ): Promise<unknown> {
+    switch (method) {
+      case "actions.list":
+        return { actions: this.listActions() };
+      case "actions.describe":
+        return this.describeAction(
+          parseRequest(DescribeParamsSchema, params).name
+        );
+      case "actions.invoke": {
+        const { name, args, ...options } = parseRequest(
+          InvokeParamsSchema,
+          params
+        );
+        return { result: await this.invokeAction(name, args, options) };
+      }
+      default:
+        throw createError(`Unknown method "${method}"`, ErrorCode.NOT_FOUND);
+    }
+  }
+
+  /**
+   * Checks the bearer token of a request.
+   *
+   * @param req - The request.
+   *
+   * @throws UNAUTHORIZED if the token is missing or unknown.
+   */
+  private authenticate(req: IncomingMessage): void {
+    if (!this.#checkToken(req.headers.authorization)) {
+      throw createError(
+        "Missing or invalid bearer token",
+        ErrorCode.UNAUTHORIZED
+      );
+    }
+  }
+
+  /**
+   * Reads the JSON body of a request.
+   *
+   * @param req - The request.
+   * @returns The parsed body.
+   */
+  private readBody(req: IncomingMessage): Promise<unknown> {
+    return readJsonBody(req, this.#options.maxBodyBytes);
+  }
+
+  /**
+   * Gets the served actions.
+   *
+   * @returns The actions selected by the `selection` option.
+   */
+  private getActions(): Action[] {
+    return this.#tensaiKit.getActions(this.#options.selection);
+  }
+
+  /**
+   * Gets a served action by name.
+   *
+   * @param name - The name of the action.
+   * @returns The action.
+   *
+   * @throws NOT_FOUND if no served action has that name.
+   */
+  private getAction(name: string): Action {
+    const action = this.getActions().find(
+      (candidate) => candidate.name === name
+    );
+
+    if (!action) {
+      throw createError(`Unknown action "${name}"`, ErrorCode.NOT_FOUND);
+    }
+
+    return action;
+  }
+
+  /**
+   * Describes an action.
+   *
+   * @param action - The action.
+   * @returns The action descriptor.
+   */
+  private toDescriptor(action: Action): ActionDescriptor {
+    return {
+      name: action.name,
+      description: action.description,
+      provider: action.provider,
+      metadata: action.metadata,
+      inputSchema: actionToJsonSchema(action),
+    };
+  }
+
+  /**
+   * Sends a JSON response.
+   *
+   * @param res - The response.
+   * @param status - The HTTP status.
+   * @param body - The body.
+   */
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res
+      .writeHead(status, { "Content-Type": "application/json" })
+      .end(toJson(body));
+  }
+}
@@ -0,0 +1,57 @@
+import { ActionClassification, ActionFilter } from "../actionProviders";
+import { JsonSchema } from "../toolDefinitions";
+
+/**
+ * Configuration options for a TensaiKitHttpServer.
+ */
+export interface HttpServerOptions {
+  /**
+   * The bearer token, or tokens, that clients must send in the `Authorization` header.
+   */
+  token: string | string[];
+
+  /**
+   * A filter, or the name of a configured toolset, selecting the actions served.
+   */
+  selection?: string | ActionFilter;
+
+  /**
+   * The largest request body accepted, in bytes. Defaults to 1 MiB.
+   */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Where the HTTP server listens.
+ */
+export interface HttpListenOptions {
+  /**
+   * The port to listen on.
+   */
+  port: number;
+
+  /**
+   * The host to bind to. Defaults to `"127.0.0.1"`.
+   */
+  host?: string;
+}
+
+/**
+ * An action as listed by the HTTP server.
+ */
+export interface ActionDescriptor {
+  name: string;
+  description: string;
+  provider: string;
+  metadata: ActionClassification;
+  inputSchema: JsonSchema;
+}
+
+/**
+ * The body of an error response, and the `data` of a JSON-RPC error.
+ */
+export interface HttpErrorBody {
+  code: string;
+  message: string;
+  details?: unknown;
+}
@@ -0,0 +1,92 @@
+/**
+ * A listener for an event of a typed event bus.
+ */
+export type EventListener<TEvent> = (event: TEvent) => void | Promise<void>;
+
+/**
+ * A minimal typed event bus.
+ *
+ * Listeners run in registration order. Emitting never throws: a listener that
+ * throws or rejects is reported on the console, so that telemetry can never
+ * break the code that emits.
+ */
+export class TypedEventBus<TEvents extends object> {
+  readonly #listeners = new Map<keyof TEvents, EventListener<never>[]>();
+
+  /**
+   * Registers a listener.
+   *
+   * @param event - The name of the event.
+   * @param listener - The listener to call on every emission.
+   * @returns A function that unregisters the listener.
+   */
+  on<K extends keyof TEvents>(
+    event: K,
+    listener: EventListener<TEvents[K]>
+  ): () => void {
+    this.#listeners.set(event, [
+      ...(this.#listeners.get(event) || []),
+      listener as EventListener<never>,
+    ]);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Registers a listener that is called on the next emission only.
+   *
+   * @param event - The name of the event.
+   * @param listener - The listener to call once.
+   * @returns A function that unregisters the listener.
+   */
+  once<K extends keyof TEvents>(
+    event: K,
+    listener: EventListener<TEvents[K]>
+  ): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      return listener(payload);
+    });
+
+    return off;
+  }
+
+  /**
+   * Unregisters a listener.
+   *
+   * @param event - The name of the event.
+   * @param listener - The listener to remove.
+   */
+  off<K extends keyof TEvents>(
+    event: K,
+    listener: EventListener<TEvents[K]>
+  ): void {
+    this.#listeners.set(
+      event,
+      (this.#listeners.get(event) || []).filter(
+        (registered) => registered !== listener
+      )
+    );
+  }
+
+  /**
+   * Emits an event to its listeners.
+   *
+   * @param event - The name of the event.
+   * @param payload - The event payload.
+   */
+  emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void {
+    for (const listener of this.#listeners.get(event) || []) {
+      try {
+        Promise.resolve(
+          (listener as EventListener<TEvents[K]>)(payload)
+        ).catch((error) => reportListenerError(event, error));
+      } catch (error) {
+        reportListenerError(event, error);
+      }
+    }
+  }
+}
+
+const reportListenerError = (event: PropertyKey, error: unknown) =>
+  console.warn(`Warning: A listener for "${String(event)}" failed:`, error);
@@ -0,0 +1,3 @@
+export * from "./types";
+export * from "./eventBus";
+export * from "./walletMetrics";
@@ -0,0 +1,140 @@
+import { ActionResultStatus } from "../actionProviders";
+
+/**
+ * Describes the wallet an action ran with.
+ */
+export interface WalletMetrics {
+  wallet_provider: string;
+  wallet_address: string;
+  network_id?: string;
+  chain_id?: string;
+  protocol_family: string;
+}
+
+/**
+ * Fields shared by every action event.
+ */
+export interface ActionEventBase {
+  /**
+   * Identifies the invocation, shared by its start and end events.
+   */
+  invocationId: string;
+
+  /**
+   * The name of the action.
+   */
+  action: string;
+
+  /**
+   * The name of the provider that registered the action.
+   */
+  provider: string;
+
+  /**
+   * The ID of the registered wallet the action ran with.
+   */
+  walletId: string;
+
+  /**
+   * The wallet the action ran with.
+   */
+  walletMetrics: WalletMetrics;
+
+  /**
+   * The arguments of the invocation, after redaction.
+   */
+  args: unknown;
+
+  /**
+   * Whether the invocation ran in dry-run mode.
+   */
+  dryRun: boolean;
+
+  /**
+   * When the event was emitted.
+   */
+  timestamp: Date;
+}
+
+/**
+ * Emitted when an action is invoked.
+ */
+export type ActionStartEvent = ActionEventBase;
+
+/**
+ * Emitted when an action resolved.
+ */
+export interface ActionSuccessEvent extends ActionEventBase {
+  /**
+   * How long the invocation took, in milliseconds.
+   */
+  durationMs: number;
+
+  /**
+   * The status of the result.
+   */
+  status: ActionResultStatus;
+
+  /**
+   * The length of the rendered result, in characters.
+   */
+  resultSize: number;
+
+  /**
+   * The hashes of the transactions the action sent.
+   */
+  txHashes: string[];
+}
+
+/**
+ * Emitted when an action threw.
+ */
+export interface ActionErrorEvent extends ActionEventBase {
+  /**
+   * How long the invocation took, in milliseconds.
+   */
+  durationMs: number;
+
+  /**
+   * The thrown error.
+   */
+  error: unknown;
+
+  /**
+   * The error code, for errors that carry one.
+   */
+  errorCode?: string;
+
+  /**
+   * The error message.
+   */
+  message: string;
+}
+
+/**
+ * The events emitted by `TensaiKit`, keyed by name.
+ */
+export interface ActionEventMap {
+  "action:start": ActionStartEvent;
+  "action:success": ActionSuccessEvent;
+  "action:error": ActionErrorEvent;
+}
+
+/**
+ * Controls how action arguments appear in events:
+ * - `false` (default): arguments are emitted as is.
+ * - `true`: arguments are replaced by `"[REDACTED]"`.
+ * - a list of keys: values under those keys are replaced, at any depth.
+ * - a function: returns the arguments to emit.
+ */
+export type ArgsRedaction = boolean | string[] | ((args: unknown) => unknown);
+
+/**
+ * Options for the events emitted by `TensaiKit`.
+ */
+export interface TelemetryOptions {
+  /**
+   * How action arguments are redacted.
+   */
+  redactArgs?: ArgsRedaction;
+}
@@ -0,0 +1,54 @@
+import { WalletProvider } from "../walletProviders";
+import { ArgsRedaction, WalletMetrics } from "./types";
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Describes the wallet an action runs with.
+ *
+ * @param walletProvider - The wallet provider.
+ * @returns The wallet metrics.
+ */
+export const getWalletMetrics = (
+  walletProvider: WalletProvider
+): WalletMetrics => {
+  const network = walletProvider.getNetwork();
+
+  return {
+    wallet_provider: walletProvider.getName(),
+    wallet_address: walletProvider.getAddress(),
+    network_id: network.networkId,
+    chain_id: network.chainId,
+    protocol_family: network.protocolFamily,
+  };
+};
+
+/**
+ * Redacts action arguments before they are emitted.
+ *
+ * @param args - The action arguments.
+ * @param redaction - How to redact them.
+ * @returns The arguments to emit.
+ */
+export const redactArgs = (
+  args: unknown,
+  redaction: ArgsRedaction = false
+): unknown => {
+  if (typeof redaction === "function") return redaction(args);
+  if (redaction === true) return REDACTED;
+  if (redaction === false) return args;
+
+  const redactKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(redactKeys);
+    if (typeof value !== "object" || value === null) return value;
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        redaction.includes(key) ? REDACTED : redactKeys(entry),
+      ])
+    );
+  };
+
+  return redactKeys(args);
+};
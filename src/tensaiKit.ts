@@ -1,83 +1,435 @@
-import { WalletProvider } from "./walletProviders";
+import { randomUUID } from "crypto";
+import { Chain } from "viem";
+import { z } from "zod";
+import { EvmWalletProvider, WalletProvider } from "./walletProviders";
+import {
+  getNetworkName,
+  Network,
+  NetworkSelector,
+  resolveNetworkChain,
+} from "./network";
 import {
   Action,
+  ActionFilter,
+  ActionInvokeOptions,
   ActionProvider,
+  createActionResult,
+  filterActions,
+  parseActionArgs,
+  renderActionResult,
   walletActionProvider,
 } from "./actionProviders";
+import { ActionMiddleware, runActionPipeline } from "./middleware";
+import { PolicyConfig, PolicyEngine } from "./policy";
+import { ApprovalGate, Approver } from "./approval";
+import { DryRunSession, runInDryRun } from "./dryRun";
+import { createError, CustomError, ErrorCode } from "./common/errors";
+import { AuditJournal, JournalBackend } from "./journal";
+import {
+  RegisteredWallet,
+  WalletRegistration,
+  WalletRegistry,
+} from "./walletRegistry";
+import {
+  createOptionsFromConfig,
+  loadTensaiKitConfig,
+  TensaiKitConfig,
+} from "./config";
+import {
+  invokeToolCall,
+  ToolDefinitionFormat,
+  ToolDefinitionMap,
+  toToolDefinitions,
+} from "./toolDefinitions";
+import {
+  ActionEventMap,
+  getWalletMetrics,
+  redactArgs,
+  TelemetryOptions,
+  TypedEventBus,
+} from "./telemetry";
 
 /**
  * Configuration options for initializing a TensaiKit instance.
  */
 export type TensaiKitOptions = {
   walletProvider?: WalletProvider;
+  wallets?: Record<string, WalletProvider | WalletRegistration>;
+  defaultWalletId?: string;
+  networks?: NetworkSelector[];
   actionProviders?: ActionProvider[];
+  middleware?: ActionMiddleware[];
+  policy?: PolicyConfig | PolicyEngine;
+  approval?: Approver | ApprovalGate;
+  dryRun?: boolean;
+  toolsets?: Record<string, ActionFilter>;
+  telemetry?: TelemetryOptions;
+  journal?: AuditJournal | JournalBackend;
 };
 
+/**
+ * The ID the `walletProvider` option is registered under.
+ */
+export const DEFAULT_WALLET_ID = "default";
+
+/**
+ * Options for selecting the actions of a kit.
+ */
+export interface GetActionsOptions {
+  /**
+   * The wallet the actions run with unless an invocation selects another one.
+   * Defaults to the default wallet of the kit.
+   */
+  walletId?: string;
+}
+
 /**
  * TensaiKit – Core SDK class for building autonomous DeFi AI agents on Katana.
  *
  * Provides integration with wallet and action providers to discover and perform
  * supported financial operations on-chain.
+ *
+ * A kit may hold many wallets keyed by ID, e.g. one Privy wallet per user, and
+ * every invocation selects the wallet it runs with through its `walletId` option.
  */
 export class TensaiKit {
-  private walletProvider: WalletProvider;
+  private wallets: WalletRegistry;
+  private defaultWalletId?: string;
+  private networks?: Chain[];
   private actionProviders: ActionProvider[];
+  private middleware: ActionMiddleware[];
+  private dryRun: boolean;
+  private toolsets: Record<string, ActionFilter>;
+  private telemetry: TelemetryOptions;
+
+  /**
+   * Emits `action:start`, `action:success` and `action:error` for every invocation
+   * of the actions returned by `getActions`.
+   */
+  public readonly events = new TypedEventBus<ActionEventMap>();
 
   /**
    * Internal constructor for TensaiKit. Use `TensaiKit.from()` to initialize.
    *
    * @param config - Configuration options for the TensaiKit
-   * @param config.walletProvider - The wallet provider to use
+   * @param config.walletProvider - The wallet provider to use, registered as the `"default"` wallet
+   * @param config.wallets - More wallets to register, by ID
+   * @param config.defaultWalletId - The wallet invocations run with unless they select another one
+   * @param config.networks - Exposes every action on each of these networks, selected by a `network` argument
    * @param config.actionProviders - The action providers to use
-   * @param config.actions - The actions to use
+   * @param config.middleware - The middlewares to run around every action
+   * @param config.policy - The policy enforced on every write, unless a wallet brings its own
+   * @param config.approval - The approver that must allow every transaction
+   * @param config.dryRun - Whether every action simulates its transactions instead of sending them
+   * @param config.toolsets - Named action filters that `getActions` can select by name
+   * @param config.telemetry - How action events are emitted
+   * @param config.journal - The audit journal, or the backend of one, recording every action and transaction, unless a wallet brings its own
    */
-  private constructor(
-    config: TensaiKitOptions & { walletProvider: WalletProvider }
-  ) {
-    this.walletProvider = config.walletProvider;
+  private constructor(config: TensaiKitOptions) {
+    this.wallets = new WalletRegistry({
+      policy: config.policy,
+      journal: config.journal,
+      approval: config.approval,
+    });
+
+    if (config.walletProvider) {
+      this.wallets.register(DEFAULT_WALLET_ID, config.walletProvider);
+    }
+
+    for (const [id, wallet] of Object.entries(config.wallets || {})) {
+      this.wallets.register(id, wallet);
+    }
+
+    this.defaultWalletId =
+      config.defaultWalletId ??
+      (config.walletProvider ? DEFAULT_WALLET_ID : undefined);
+    if (this.defaultWalletId) {
+      this.wallets.get(this.defaultWalletId);
+    }
+
+    this.networks = config.networks?.map(resolveNetworkChain);
     this.actionProviders = config.actionProviders || [walletActionProvider()];
+    this.middleware = [...(config.middleware || [])];
+    this.dryRun = config.dryRun ?? false;
+    this.toolsets = config.toolsets || {};
+    this.telemetry = config.telemetry || {};
   }
 
   /**
    * Factory method to asynchronously initialize a TensaiKit instance.
    *
    * @param config - Optional configuration object including wallet and action providers.
-   * @param config.walletProvider - The wallet provider to use
+   * @param config.walletProvider - The wallet provider to use, registered as the `"default"` wallet
+   * @param config.wallets - More wallets to register, by ID
+   * @param config.defaultWalletId - The wallet invocations run with unless they select another one
+   * @param config.networks - Exposes every action on each of these networks, selected by a `network` argument
    * @param config.actionProviders - The action providers to use
-   * @param config.actions - The actions to use
+   * @param config.middleware - The middlewares to run around every action
+   * @param config.policy - The policy enforced on every write, unless a wallet brings its own
+   * @param config.approval - The approver that must allow every transaction
+   * @param config.dryRun - Whether every action simulates its transactions instead of sending them
+   * @param config.toolsets - Named action filters that `getActions` can select by name
+   * @param config.telemetry - How action events are emitted
+   * @param config.journal - The audit journal, or the backend of one, recording every action and transaction, unless a wallet brings its own
    *
    * @returns A promise that resolves to an initialized TensaiKit instance.
    *
-   * @throws If `walletProvider` is not provided in the config.
+   * @throws If neither `walletProvider` nor `wallets` is provided in the config.
    */
   public static async from(
     config: TensaiKitOptions = { actionProviders: [walletActionProvider()] }
   ): Promise<TensaiKit> {
-    let walletProvider: WalletProvider | undefined = config.walletProvider;
-
-    if (!walletProvider) {
+    if (
+      !config.walletProvider &&
+      Object.keys(config.wallets || {}).length === 0
+    ) {
       throw new Error("WalletProvider is required to initialize TensaiKit.");
     }
 
-    return new TensaiKit({ ...config, walletProvider: walletProvider! });
+    return new TensaiKit(config);
+  }
+
+  /**
+   * Initializes a TensaiKit from a declarative configuration.
+   *
+   * The configuration describes the network, the wallet provider, the enabled
+   * action providers and their options, the policy, the toolsets and the dry-run
+   * mode. See `TensaiKitConfigSchema`.
+   *
+   * @param source - The path of a YAML or JSON file, a configuration object, or
+   * nothing to read the configuration from environment variables.
+   * @param overrides - Options the configuration cannot express, such as
+   * middleware or an approver. Its action providers are added to the configured ones.
+   * @returns A promise that resolves to an initialized TensaiKit instance.
+   *
+   * @throws CONFIGURATION_ERROR with the path of every invalid setting, or if the
+   * wallet or an action provider cannot be configured.
+   */
+  public static async fromConfig(
+    source?: string | TensaiKitConfig,
+    overrides: TensaiKitOptions = {}
+  ): Promise<TensaiKit> {
+    const options = await createOptionsFromConfig(
+      await loadTensaiKitConfig(source)
+    );
+
+    return TensaiKit.from({
+      ...options,
+      ...overrides,
+      actionProviders: [
+        ...(options.actionProviders || []),
+        ...(overrides.actionProviders || []),
+      ],
+    });
+  }
+
+  /**
+   * Registers a middleware that runs around every action of every provider.
+   *
+   * Middlewares run in registration order and also apply to actions that were
+   * retrieved before the middleware was registered.
+   *
+   * @param middleware - The middleware to register.
+   * @returns The TensaiKit instance, for chaining.
+   */
+  public use(middleware: ActionMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Registers a wallet, equipping it with the journal, policy, dry-run and
+   * approval interceptors of the kit.
+   *
+   * @param id - The ID to register the wallet under, e.g. a Privy wallet ID.
+   * @param wallet - The wallet provider, or the wallet with its own policy and journal.
+   * @returns The TensaiKit instance, for chaining.
+   *
+   * @throws CONFIGURATION_ERROR if the ID or the wallet provider is already registered.
+   */
+  public addWallet(
+    id: string,
+    wallet: WalletProvider | WalletRegistration
+  ): this {
+    this.wallets.register(id, wallet);
+    return this;
+  }
+
+  /**
+   * Unregisters a wallet. Actions retrieved earlier can no longer run with it.
+   *
+   * @param id - The ID of the wallet.
+   * @returns Whether a wallet was registered under the ID.
+   */
+  public removeWallet(id: string): boolean {
+    if (id === this.defaultWalletId) {
+      this.defaultWalletId = undefined;
+    }
+
+    return this.wallets.unregister(id);
+  }
+
+  /**
+   * Lists the IDs of the registered wallets.
+   *
+   * @returns The wallet IDs, in registration order.
+   */
+  public getWalletIds(): string[] {
+    return this.wallets.ids();
+  }
+
+  /**
+   * Gets the provider of a registered wallet.
+   *
+   * @param walletId - The ID of the wallet. Defaults to the default wallet.
+   * @returns The wallet provider.
+   *
+   * @throws WALLET_NOT_FOUND if no such wallet is registered.
+   */
+  public getWalletProvider(walletId?: string): WalletProvider {
+    return this.resolveWallet(walletId).walletProvider;
+  }
+
+  /**
+   * Gets the network a registered wallet is connected to.
+   *
+   * @param walletId - The ID of the wallet. Defaults to the default wallet.
+   * @returns The network of the wallet.
+   *
+   * @throws WALLET_NOT_FOUND if no such wallet is registered.
+   */
+  public getNetwork(walletId?: string): Network {
+    return this.getWalletProvider(walletId).getNetwork();
+  }
+
+  /**
+   * Switches wallets to another network, e.g. from katana-mainnet to katana-testnet.
+   *
+   * Each wallet is replaced by a provider for the same account on the network,
+   * with the same policy and journal. `getActions` lists the actions supported
+   * on the new network, and actions retrieved earlier run on it too, or fail
+   * with `INVALID_NETWORK` if their provider does not support it.
+   *
+   * @param network - The network ID, chain ID, or a chain definition for custom chains.
+   * @param walletId - The wallet to switch. Defaults to every registered wallet.
+   * @returns The TensaiKit instance, for chaining.
+   *
+   * @throws INVALID_NETWORK if the network is unknown.
+   * @throws NOT_IMPLEMENTED if a wallet provider cannot switch networks.
+   * @throws CONFIGURATION_ERROR if a wallet provider has no RPC URL configured for the network.
+   */
+  public switchNetwork(network: NetworkSelector, walletId?: string): this {
+    const chain = resolveNetworkChain(network);
+    const ids = walletId ? [walletId] : this.wallets.ids();
+
+    // Every switch is prepared before any is applied, so a failure leaves all wallets as they were.
+    const switched = ids.map((id) => {
+      const { walletProvider } = this.wallets.get(id);
+
+      if (walletProvider.getNetwork().chainId === String(chain.id)) {
+        return undefined;
+      }
+
+      if (!(walletProvider instanceof EvmWalletProvider)) {
+        throw createError(
+          `Wallet "${id}" cannot switch networks`,
+          ErrorCode.NOT_IMPLEMENTED
+        );
+      }
+
+      return { id, walletProvider: walletProvider.withChain(chain) };
+    });
+
+    for (const wallet of switched) {
+      if (wallet) this.wallets.replace(wallet.id, wallet.walletProvider);
+    }
+
+    return this;
+  }
+
+  /**
+   * Turns the kit-wide dry-run mode on or off.
+   *
+   * @param enabled - Whether every action simulates its transactions instead of sending them.
+   * @returns The TensaiKit instance, for chaining.
+   */
+  public setDryRun(enabled: boolean): this {
+    this.dryRun = enabled;
+    return this;
   }
 
   /**
    * Retrieves all supported actions from available action providers.
    *
-   * This filters out any action providers that do not support the current network
-   * and logs a warning for each unsupported provider.
+   * This filters out any action providers that do not support the network of
+   * the selected wallet and logs a warning for each unsupported provider. Every
+   * returned action runs through the registered middleware chain when invoked.
+   *
+   * The actions run with the wallet selected by `options.walletId`, or the
+   * default wallet, unless an invocation passes its own `walletId`. Without
+   * either, invocations must select a wallet.
    *
+   * In multi-network mode, i.e. with the `networks` option, each action is
+   * listed once with a required `network` argument naming one of the networks
+   * it is supported on.
+   *
+   * @param selection - Optionally, a filter or the name of a configured toolset to select actions with.
+   * @param options - Optionally, the wallet the actions run with.
    * @returns An array of supported actions available for execution.
+   *
+   * @throws CONFIGURATION_ERROR if `selection` names a toolset that was not configured.
+   * @throws WALLET_NOT_FOUND if `options.walletId` is not registered.
    */
-  public getActions(): Action[] {
+  public getActions(
+    selection?: string | ActionFilter,
+    options: GetActionsOptions = {}
+  ): Action[] {
+    const filter =
+      typeof selection === "string" ? this.toolsets[selection] : selection;
+
+    if (typeof selection === "string" && !filter) {
+      throw createError(
+        `Unknown toolset "${selection}". Configured toolsets: ${
+          Object.keys(this.toolsets).join(", ") || "none"
+        }`,
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    const walletId = options.walletId ?? this.defaultWalletId;
+    // Without a default wallet, the actions are listed for the first wallet.
+    const wallet = walletId
+      ? this.wallets.get(walletId)
+      : this.resolveWallet(this.wallets.ids()[0]);
+
+    if (this.networks) {
+      const actions = this.getMultiNetworkActions(
+        this.networks,
+        wallet,
+        walletId
+      );
+      return filter ? filterActions(actions, filter) : actions;
+    }
+
+    const { walletProvider } = wallet;
     const actions: Action[] = [];
 
     const unsupportedProviders: string[] = [];
 
     for (const actionProvider of this.actionProviders) {
-      if (actionProvider.supportsNetwork(this.walletProvider.getNetwork())) {
-        actions.push(...actionProvider.getActions(this.walletProvider));
+      if (actionProvider.supportsNetwork(walletProvider.getNetwork())) {
+        actions.push(
+          ...actionProvider
+            .getActions(walletProvider)
+            .map((action) =>
+              this.withMiddleware(
+                action,
+                actionProvider,
+                walletProvider,
+                walletId
+              )
+            )
+        );
       } else {
         unsupportedProviders.push(actionProvider.name);
       }
@@ -89,9 +441,325 @@ export class TensaiKit {
           ", "
         )}`
       );
-      console.info("Current network:", this.walletProvider.getNetwork());
+      console.info("Current network:", walletProvider.getNetwork());
+    }
+
+    return filter ? filterActions(actions, filter) : actions;
+  }
+
+  /**
+   * Describes the supported actions as JSON Schema tool definitions, for hosts
+   * that call the OpenAI or Anthropic APIs directly.
+   *
+   * @param format - The shape of the tool definitions.
+   * @param selection - Optionally, a filter or the name of a configured toolset to select actions with.
+   * @returns One tool definition per action.
+   */
+  public getToolDefinitions<TFormat extends ToolDefinitionFormat>(
+    format: TFormat,
+    selection?: string | ActionFilter
+  ): ToolDefinitionMap[TFormat][] {
+    return toToolDefinitions(this.getActions(selection), format);
+  }
+
+  /**
+   * Invokes the action a model called by name.
+   *
+   * @param name - The name of the called tool.
+   * @param args - The arguments of the call, as an object or as a JSON string.
+   * @param selection - The selection the tool definitions were built with, so
+   * that the model cannot call actions it was not offered.
+   * @param options - The invocation options.
+   * @returns The result of the action, rendered for the model.
+   *
+   * @throws INVALID_INPUT if no selected action has that name or the arguments are invalid.
+   */
+  public invokeToolCall(
+    name: string,
+    args: unknown,
+    selection?: string | ActionFilter,
+    options?: ActionInvokeOptions
+  ): Promise<string> {
+    return invokeToolCall(this.getActions(selection), name, args, options);
+  }
+
+  /**
+   * Lists every action once, with a `network` argument selecting the network it runs on.
+   *
+   * @param networks - The networks to expose the actions on.
+   * @param wallet - The wallet to list the actions for.
+   * @param walletId - The wallet invocations run with unless they select another one.
+   * @returns The actions supported on at least one of the networks.
+   */
+  private getMultiNetworkActions(
+    networks: Chain[],
+    wallet: RegisteredWallet,
+    walletId?: string
+  ): Action[] {
+    const byName = new Map<string, Map<string, Action>>();
+    const supported = new Set<string>();
+
+    for (const chain of networks) {
+      const { walletProvider } = this.wallets.getOnChain(wallet.id, chain);
+
+      for (const actionProvider of this.actionProviders) {
+        if (!actionProvider.supportsNetwork(walletProvider.getNetwork())) {
+          continue;
+        }
+        supported.add(actionProvider.name);
+
+        for (const action of actionProvider.getActions(walletProvider)) {
+          const perNetwork = byName.get(action.name) ?? new Map();
+          perNetwork.set(
+            getNetworkName(chain),
+            this.withMiddleware(
+              action,
+              actionProvider,
+              walletProvider,
+              walletId,
+              chain
+            )
+          );
+          byName.set(action.name, perNetwork);
+        }
+      }
+    }
+
+    const unsupportedProviders = this.actionProviders
+      .map((actionProvider) => actionProvider.name)
+      .filter((name) => !supported.has(name));
+    if (unsupportedProviders.length > 0) {
+      console.warn(
+        `Warning: The following action providers are not supported on any of the configured networks and will be skipped: ${unsupportedProviders.join(
+          ", "
+        )}`
+      );
     }
 
-    return actions;
+    return [...byName.values()].map(withNetworkArgument);
+  }
+
+  /**
+   * Gets a registered wallet.
+   *
+   * @param walletId - The ID of the wallet. Defaults to the default wallet.
+   * @returns The registered wallet.
+   *
+   * @throws WALLET_NOT_FOUND if no such wallet is registered, or if no ID was
+   * given and the kit has no default wallet.
+   */
+  private resolveWallet(walletId?: string): RegisteredWallet {
+    const id = walletId ?? this.defaultWalletId;
+
+    if (!id) {
+      throw createError(
+        `No wallet selected. Pass a walletId, one of: ${
+          this.wallets.ids().join(", ") || "none"
+        }`,
+        ErrorCode.WALLET_NOT_FOUND
+      );
+    }
+
+    return this.wallets.get(id);
+  }
+
+  /**
+   * Binds an action to the wallet an invocation selected.
+   *
+   * @param action - The action, as bound to the wallet it was listed for.
+   * @param actionProvider - The provider that registered the action.
+   * @param walletProvider - The wallet the action was listed for.
+   * @param wallet - The selected wallet.
+   * @returns The action bound to the selected wallet.
+   *
+   * @throws INVALID_NETWORK if the provider does not support the network of the selected wallet.
+   */
+  private bindAction(
+    action: Action,
+    actionProvider: ActionProvider,
+    walletProvider: WalletProvider,
+    wallet: RegisteredWallet
+  ): Action {
+    if (wallet.walletProvider === walletProvider) {
+      return action;
+    }
+
+    const bound = actionProvider.supportsNetwork(
+      wallet.walletProvider.getNetwork()
+    )
+      ? actionProvider
+          .getActions(wallet.walletProvider)
+          .find((candidate) => candidate.name === action.name)
+      : undefined;
+
+    if (!bound) {
+      throw createError(
+        `${action.name} is not supported on the network of wallet "${wallet.id}"`,
+        ErrorCode.INVALID_NETWORK,
+        { walletId: wallet.id, network: wallet.walletProvider.getNetwork() }
+      );
+    }
+
+    return bound;
+  }
+
+  /**
+   * Wraps an action so that its invocation runs through the middleware chain.
+   *
+   * The invocation runs with the wallet selected by its `walletId` option, or
+   * else by `walletId`, behind the journal and policy middlewares of that wallet.
+   * In dry-run mode, the invocation runs in a dry-run session and resolves to a
+   * `simulated` result whose data is the report of the transactions it would
+   * have sent. Every invocation is reported on `events`.
+   *
+   * @param action - The action to wrap.
+   * @param actionProvider - The provider that registered the action.
+   * @param walletProvider - The wallet the action is bound to.
+   * @param walletId - The wallet invocations run with unless they select another one.
+   * @param chain - The chain the invocations run on, in multi-network mode.
+   * @returns A copy of the action with wrapped `invoke` and `invokeWithResult`.
+   */
+  private withMiddleware(
+    action: Action,
+    actionProvider: ActionProvider,
+    walletProvider: WalletProvider,
+    walletId?: string,
+    chain?: Chain
+  ): Action {
+    const run = (wallet: RegisteredWallet, args: unknown) => {
+      const target = this.bindAction(
+        action,
+        actionProvider,
+        walletProvider,
+        wallet
+      );
+
+      return runActionPipeline(
+        [...wallet.middleware, ...this.middleware],
+        {
+          action: target,
+          actionProvider: actionProvider.name,
+          walletProvider: wallet.walletProvider,
+          walletId: wallet.id,
+          args,
+          attempt: 1,
+          state: {},
+        },
+        (pipelineArgs) => target.invokeWithResult(pipelineArgs)
+      );
+    };
+
+    const simulate = async (wallet: RegisteredWallet, args: unknown) => {
+      const session = new DryRunSession();
+      const output = await runInDryRun(session, () => run(wallet, args));
+      const report = session.toReport(action.name, output);
+      const reverted = report.transactions.filter((tx) => !tx.success).length;
+
+      return createActionResult(output.action, {
+        status: "simulated",
+        summary: `Dry run: ${report.transactions.length} transaction(s) simulated, ${reverted} would revert. Nothing was broadcast.`,
+        data: report,
+        warnings: [...output.warnings, ...report.warnings],
+      });
+    };
+
+    const invokeWithResult = async (
+      args: unknown,
+      options?: ActionInvokeOptions
+    ) => {
+      const dryRun = options?.dryRun ?? this.dryRun;
+      const selected = this.resolveWallet(options?.walletId ?? walletId);
+      const wallet = chain
+        ? this.wallets.getOnChain(selected.id, chain)
+        : selected;
+      const startedAt = Date.now();
+      const event = {
+        invocationId: randomUUID(),
+        action: action.name,
+        provider: action.provider,
+        walletId: wallet.id,
+        walletMetrics: getWalletMetrics(wallet.walletProvider),
+        args: redactArgs(args, this.telemetry.redactArgs),
+        dryRun,
+      };
+
+      this.events.emit("action:start", { ...event, timestamp: new Date() });
+
+      try {
+        const result = await (dryRun
+          ? simulate(wallet, args)
+          : run(wallet, args));
+
+        this.events.emit("action:success", {
+          ...event,
+          timestamp: new Date(),
+          durationMs: Date.now() - startedAt,
+          status: result.status,
+          resultSize: renderActionResult(result).length,
+          txHashes: result.txHashes,
+        });
+
+        return result;
+      } catch (error) {
+        this.events.emit("action:error", {
+          ...event,
+          timestamp: new Date(),
+          durationMs: Date.now() - startedAt,
+          error,
+          errorCode: error instanceof CustomError ? error.code : undefined,
+          message: error instanceof Error ? error.message : String(error),
+        });
+
+        throw error;
+      }
+    };
+
+    return {
+      ...action,
+      invoke: async (args, options) =>
+        renderActionResult(await invokeWithResult(args, options)),
+      invokeWithResult,
+    };
   }
 }
+
+/**
+ * Merges the variants of an action on several networks into one action with a
+ * `network` argument.
+ *
+ * @param perNetwork - The action on each network it is supported on, by network name.
+ * @returns The merged action.
+ */
+const withNetworkArgument = (perNetwork: Map<string, Action>): Action => {
+  const [first] = perNetwork.values();
+  const networks = [...perNetwork.keys()] as [string, ...string[]];
+  const network = z
+    .enum(networks)
+    .describe("The network to run the action on");
+  const NetworkSchema = z.object({ network }).passthrough();
+
+  const schema =
+    first.schema instanceof z.ZodObject
+      ? first.schema.extend({ network })
+      : z.object({ network }).and(first.schema);
+
+  const invokeWithResult = (args: unknown, options?: ActionInvokeOptions) => {
+    const { network: name, ...rest } = parseActionArgs(
+      first.name,
+      NetworkSchema,
+      args
+    );
+    return perNetwork.get(name)!.invokeWithResult(rest, options);
+  };
+
+  return {
+    ...first,
+    description: `${first.description}\n\nAvailable on: ${networks.join(
+      ", "
+    )}.`,
+    schema,
+    invoke: async (args, options) =>
+      renderActionResult(await invokeWithResult(args, options)),
+    invokeWithResult,
+  };
+};
@@ -0,0 +1,92 @@
+import { defaultAlchemyFixtures } from "./fixtures";
+import { MockApiServer, MockRoute } from "./mockApiServer";
+import { AlchemyFixtures, MockRequest } from "./types";
+
+/**
+ * The routes of the mock Alchemy Prices API, which failures are configured by.
+ */
+export type AlchemyMockRoute = "pricesBySymbol";
+
+/**
+ * AlchemyMockServer is a local stand-in for the `tokens/by-symbol` endpoint of
+ * the Alchemy Prices API, serving fixture prices in USD.
+ *
+ * Unknown symbols get an empty price list with an error, as the API does. A
+ * key other than the fixture `apiKey`, when set, is answered with 401.
+ *
+ * ```ts
+ * const alchemy = new AlchemyMockServer();
+ * await alchemy.listen();
+ * const provider = alchemyTokenPricesActionProvider({ apiKey: "test", ...alchemy.config });
+ * ```
+ */
+export class AlchemyMockServer extends MockApiServer<AlchemyMockRoute> {
+  readonly fixtures: AlchemyFixtures;
+
+  /**
+   * Creates a new AlchemyMockServer.
+   *
+   * @param fixtures - The data to serve. Defaults to the prices of `MOCK_TOKENS`.
+   */
+  constructor(fixtures: AlchemyFixtures = defaultAlchemyFixtures()) {
+    super();
+    this.fixtures = fixtures;
+  }
+
+  /**
+   * The provider config pointing at this server.
+   */
+  get config(): { baseUrl: string } {
+    return { baseUrl: `${this.url}/prices/v1` };
+  }
+
+  /**
+   * Resolves a request to the prices endpoint.
+   *
+   * @param request - The request.
+   * @returns The route, or undefined if none matches.
+   */
+  protected resolveRoute(
+    request: MockRequest & { query: URLSearchParams; path: string }
+  ): MockRoute<AlchemyMockRoute> | undefined {
+    const match = /^\/prices\/v1\/([^/]+)\/tokens\/by-symbol$/.exec(
+      request.path
+    );
+    if (request.method !== "GET" || !match) return undefined;
+
+    const apiKey = decodeURIComponent(match[1]);
+    const symbols = request.query.getAll("symbols");
+
+    return {
+      name: "pricesBySymbol",
+      respond: () => {
+        if (this.fixtures.apiKey && apiKey !== this.fixtures.apiKey) {
+          return {
+            status: 401,
+            body: { error: { message: "Must be authenticated!" } },
+          };
+        }
+
+        const lastUpdatedAt = new Date().toISOString();
+
+        return {
+          body: {
+            data: symbols.map((symbol) => {
+              const price = this.fixtures.prices[symbol];
+
+              return price === undefined
+                ? { symbol, prices: [], error: "Token not found" }
+                : {
+                    symbol,
+                    prices: [
+                      { currency: "usd", value: String(price), lastUpdatedAt },
+                    ],
+                    error: null,
+                  };
+            }),
+          },
+        };
+      },
+    };
+  }
+}
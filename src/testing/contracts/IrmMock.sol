@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: ISC
+pragma solidity ^0.8.0;
+
+struct MarketParams {
+    address loanToken;
+    address collateralToken;
+    address oracle;
+    address irm;
+    uint256 lltv;
+}
+
+struct Market {
+    uint128 totalSupplyAssets;
+    uint128 totalSupplyShares;
+    uint128 totalBorrowAssets;
+    uint128 totalBorrowShares;
+    uint128 lastUpdate;
+    uint128 fee;
+}
+
+/// @notice A Morpho Blue interest rate model for tests, where x% utilization is x% APR.
+contract IrmMock {
+    function borrowRateView(MarketParams memory, Market memory market) public pure returns (uint256) {
+        if (market.totalSupplyAssets == 0) return 0;
+
+        uint256 utilization = uint256(market.totalBorrowAssets) * 1e18 / market.totalSupplyAssets;
+
+        return utilization / 365 days;
+    }
+
+    function borrowRate(MarketParams memory marketParams, Market memory market) external pure returns (uint256) {
+        return borrowRateView(marketParams, market);
+    }
+}
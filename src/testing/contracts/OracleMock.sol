@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: ISC
+pragma solidity ^0.8.0;
+
+/// @notice A Morpho Blue oracle whose price is set directly, for tests.
+contract OracleMock {
+    /// @notice The price of one collateral unit in loan units, scaled by 1e36.
+    uint256 public price;
+
+    function setPrice(uint256 newPrice) external {
+        price = newPrice;
+    }
+}
@@ -0,0 +1,114 @@
+import { Account, Chain, createWalletClient, Hex, http } from "viem";
+import { mnemonicToAccount, privateKeyToAccount } from "viem/accounts";
+import {
+  ViemWalletProvider,
+  ViemWalletProviderGasConfig,
+} from "../walletProviders";
+import { katana } from "../network/katana";
+import { katanaTestnet } from "../network/katanaTestnet";
+
+/**
+ * The default JSON-RPC URL of Anvil and Hardhat.
+ */
+export const DEFAULT_DEVNET_RPC_URL = "http://127.0.0.1:8545";
+
+/**
+ * The mnemonic of the prefunded accounts of Anvil and Hardhat. Never fund its
+ * accounts on a public network.
+ */
+export const DEVNET_MNEMONIC =
+  "test test test test test test test test test test test junk";
+
+/**
+ * Options of a `DevnetWalletProvider`.
+ */
+export interface DevnetWalletProviderOptions {
+  /**
+   * The JSON-RPC URL of the node. Defaults to `http://127.0.0.1:8545`.
+   */
+  rpcUrl?: string;
+
+  /**
+   * The chain ID the node runs with. Defaults to 747474.
+   */
+  chainId?: number;
+
+  /**
+   * The index of a prefunded account of `DEVNET_MNEMONIC`, or a private key.
+   * Defaults to the first prefunded account.
+   */
+  account?: number | Hex;
+
+  /**
+   * Configuration for gas multipliers.
+   */
+  gasConfig?: ViemWalletProviderGasConfig;
+}
+
+/**
+ * Builds the chain of a local devnet: Katana mainnet or testnet when the node
+ * runs with their chain ID, so that the kit treats the devnet as Katana, with
+ * the local RPC URL.
+ *
+ * @param rpcUrl - The JSON-RPC URL of the node.
+ * @param chainId - The chain ID the node runs with.
+ * @returns The chain.
+ */
+export const devnetChain = (
+  rpcUrl: string = DEFAULT_DEVNET_RPC_URL,
+  chainId: number = 747474
+): Chain => {
+  const base =
+    chainId === 129399
+      ? katanaTestnet()
+      : { ...katana(), id: chainId, name: `Devnet ${chainId}` };
+
+  return {
+    ...base,
+    rpcUrls: { ...base.rpcUrls, default: { http: [rpcUrl] } },
+  };
+};
+
+/**
+ * Resolves the account of a devnet wallet.
+ *
+ * @param account - The index of a prefunded account, or a private key.
+ * @returns The account.
+ */
+export const devnetAccount = (account: number | Hex = 0): Account =>
+  typeof account === "number"
+    ? mnemonicToAccount(DEVNET_MNEMONIC, { addressIndex: account })
+    : privateKeyToAccount(account);
+
+/**
+ * DevnetWalletProvider is a Viem wallet provider for a local EVM node such as
+ * Anvil or Hardhat, signing with one of its prefunded accounts.
+ *
+ * Everything, including gas estimation and simulation, goes to the local node.
+ */
+export class DevnetWalletProvider extends ViemWalletProvider {
+  /**
+   * Creates a new DevnetWalletProvider.
+   *
+   * @param options - The RPC URL, chain ID and account of the wallet.
+   */
+  constructor(options: DevnetWalletProviderOptions = {}) {
+    super(
+      createWalletClient({
+        account: devnetAccount(options.account),
+        chain: devnetChain(options.rpcUrl, options.chainId),
+        transport: http(),
+      }),
+      options.gasConfig
+    );
+  }
+
+  /**
+   * Gets the name of the wallet provider.
+   *
+   * @returns The name of the wallet provider.
+   */
+  getName(): string {
+    return "devnet_wallet_provider";
+  }
+}
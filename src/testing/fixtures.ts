@@ -0,0 +1,190 @@
+import {
+  AlchemyFixtures,
+  MockToken,
+  MorphoFixtures,
+  SushiFixtures,
+} from "./types";
+
+/**
+ * Katana mainnet, the chain the default fixtures live on.
+ */
+export const MOCK_CHAIN_ID = 747474;
+
+/**
+ * The tokens of the default fixtures.
+ */
+export const MOCK_TOKENS = {
+  ETH: {
+    address: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE",
+    symbol: "ETH",
+    name: "Ether",
+    decimals: 18,
+    priceUsd: 3000,
+  },
+  WETH: {
+    address: "0xEE7D8BCFb72bC1880D0Cf19822eB0A2e6577aB62",
+    symbol: "WETH",
+    name: "Vault Bridge ETH",
+    decimals: 18,
+    priceUsd: 3000,
+  },
+  USDC: {
+    address: "0x203A662b0BD271A6ed5a60EdFbd04bFce608FD36",
+    symbol: "USDC",
+    name: "Vault Bridge USDC",
+    decimals: 6,
+    priceUsd: 1,
+  },
+  USDT: {
+    address: "0x2DCa96907fde857dd3D816880A0df407eeB2D2F2",
+    symbol: "USDT",
+    name: "Vault Bridge USDT",
+    decimals: 6,
+    priceUsd: 1,
+  },
+  WBTC: {
+    address: "0x0913DA6Da4b42f538B445599b46Bb4622342Cf52",
+    symbol: "WBTC",
+    name: "Vault Bridge WBTC",
+    decimals: 8,
+    priceUsd: 60000,
+  },
+} as const satisfies Record<string, MockToken>;
+
+/**
+ * The unique key of the WETH/USDC market of the default Morpho fixtures.
+ */
+export const MOCK_MARKET_UNIQUE_KEY =
+  "0x10b2d9edc87a5b62f8a6ac3a274b248e7219060d594617c41147c1ef116faee3";
+
+/**
+ * Builds the default data of the mock Sushi API.
+ *
+ * @returns A fresh copy of the fixtures, safe to modify.
+ */
+export const defaultSushiFixtures = (): SushiFixtures => ({
+  chainId: MOCK_CHAIN_ID,
+  tokens: Object.values(MOCK_TOKENS).map((token) => ({ ...token })),
+  liquidityProviders: ["SushiSwapV2", "SushiSwapV3"],
+  routerAddress: "0xAC4c6e212A361c968F1725b4d055b47E63F80b75",
+});
+
+/**
+ * Builds the default data of the mock Morpho GraphQL API: a WETH/USDC market,
+ * a USDC vault supplying it and its curator.
+ *
+ * @returns A fresh copy of the fixtures, safe to modify.
+ */
+export const defaultMorphoFixtures = (): MorphoFixtures => {
+  const { WETH, USDC } = MOCK_TOKENS;
+  const vault = {
+    id: "mock-vault-usdc",
+    address: "0xE4248e2105508FcBad3fe95691551d1AF14015f7",
+    symbol: "mUSDC",
+    name: "Mock USDC Vault",
+  };
+
+  return {
+    markets: [
+      {
+        id: "mock-market-weth-usdc",
+        uniqueKey: MOCK_MARKET_UNIQUE_KEY,
+        whitelisted: true,
+        lltv: "860000000000000000",
+        oracleAddress: "0x0000000000000000000000000000000000000001",
+        irmAddress: "0x0000000000000000000000000000000000000002",
+        creatorAddress: "0x0000000000000000000000000000000000000003",
+        supplyingVaults: [{ ...vault }],
+        loanAsset: {
+          address: USDC.address,
+          symbol: USDC.symbol,
+          decimals: USDC.decimals,
+        },
+        collateralAsset: {
+          address: WETH.address,
+          symbol: WETH.symbol,
+          decimals: WETH.decimals,
+        },
+        state: {
+          fee: 0,
+          utilization: 0.8,
+          supplyShares: "10000000000000000000",
+          supplyAssets: "10000000000000",
+          supplyAssetsUsd: 10000000,
+          borrowShares: "8000000000000000000",
+          borrowAssets: "8000000000000",
+          borrowAssetsUsd: 8000000,
+          collateralAssets: "5000000000000000000000",
+          collateralAssetsUsd: 15000000,
+          liquidityAssets: "2000000000000",
+          liquidityAssetsUsd: 2000000,
+          supplyApy: 0.04,
+          borrowApy: 0.05,
+          netSupplyApy: 0.045,
+          netBorrowApy: 0.048,
+          dailySupplyApy: 0.04,
+          dailyBorrowApy: 0.05,
+          dailyNetSupplyApy: 0.045,
+          dailyNetBorrowApy: 0.048,
+          rewards: [],
+        },
+      },
+    ],
+    vaults: [
+      {
+        id: vault.id,
+        address: vault.address,
+        name: vault.name,
+        whitelisted: true,
+        creatorAddress: "0x0000000000000000000000000000000000000003",
+        metadata: {
+          description: "A USDC vault of the mock fixtures",
+          image: "",
+        },
+        asset: {
+          id: USDC.address,
+          symbol: USDC.symbol,
+          name: USDC.name,
+          decimals: USDC.decimals,
+          isWhitelisted: true,
+        },
+        warnings: [],
+        state: {
+          totalAssets: "10000000000000",
+          totalAssetsUsd: 10000000,
+          totalSupply: "10000000000000000000",
+          apy: 0.04,
+          netApy: 0.045,
+          fee: 0.1,
+          dailyApy: 0.04,
+          dailyNetApy: 0.045,
+          yearlyApy: 0.04,
+          yearlyNetApy: 0.045,
+          rewards: [],
+        },
+      },
+    ],
+    curators: [
+      {
+        id: "mock-curator",
+        name: "Mock Curator",
+        image: "",
+        state: { aum: 10000000 },
+        verified: true,
+      },
+    ],
+    users: {},
+  };
+};
+
+/**
+ * Builds the default data of the mock Alchemy Prices API, with the prices of
+ * the default tokens.
+ *
+ * @returns A fresh copy of the fixtures, safe to modify.
+ */
+export const defaultAlchemyFixtures = (): AlchemyFixtures => ({
+  prices: Object.fromEntries(
+    Object.values(MOCK_TOKENS).map((token) => [token.symbol, token.priceUsd])
+  ),
+});
@@ -0,0 +1,12 @@
+export * from "./types";
+export * from "./fixtures";
+export { MockApiServer, graphqlNotFound } from "./mockApiServer";
+export type { MockRoute } from "./mockApiServer";
+export * from "./sushiMockServer";
+export * from "./morphoMockServer";
+export * from "./alchemyMockServer";
+export * from "./mockServers";
+export * from "./mockEvmWalletProvider";
+export * from "./devnetWalletProvider";
+export * from "./localDevnet";
+export * from "./artifacts";
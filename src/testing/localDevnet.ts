@@ -0,0 +1,480 @@
+import {
+  Abi,
+  Address,
+  BaseError,
+  Chain,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  encodeAbiParameters,
+  Hex,
+  http,
+  keccak256,
+  pad,
+  parseAbi,
+  parseEther,
+  PublicClient,
+  TestClient,
+  WalletClient,
+} from "viem";
+import { createError, ErrorCode } from "../common/errors";
+import { getMorphoBlueContractAddress } from "../actionProviders/morpho/utils";
+import { MORPHO_BLUE_ABI } from "../actionProviders/morpho/abi/morphoBlueABI";
+import {
+  DEFAULT_DEVNET_RPC_URL,
+  devnetAccount,
+  devnetChain,
+  DevnetWalletProvider,
+} from "./devnetWalletProvider";
+import { DEVNET_ARTIFACTS } from "./artifacts";
+import {
+  DevnetArtifact,
+  DevnetArtifacts,
+  DevnetMorphoMarket,
+  LocalDevnetOptions,
+} from "./types";
+
+const ERC20_MOCK_ABI = parseAbi([
+  "function setBalance(address account, uint256 amount)",
+]);
+
+const ORACLE_MOCK_ABI = parseAbi(["function setPrice(uint256 price)"]);
+
+const MORPHO_ABI = MORPHO_BLUE_ABI as Abi;
+
+/**
+ * LocalDevnet is the harness of integration tests against a local EVM node,
+ * Anvil or Hardhat, e.g. started with `anvil --chain-id 747474`.
+ *
+ * It hands out wallets for the prefunded accounts of the node, funds accounts,
+ * takes and reverts snapshots between tests, and deploys the bundled ERC-20,
+ * oracle, interest rate model and Morpho Blue contracts, or the given ones.
+ * Morpho Blue is placed at its Katana address, so that the Morpho actions run
+ * against it unchanged.
+ *
+ * ```ts
+ * const devnet = await LocalDevnet.connect();
+ * const market = await devnet.createMorphoMarket();
+ * const wallet = devnet.wallet(1);
+ * await devnet.fund(wallet.getAddress(), { tokens: { [market.collateralToken]: parseEther("10") } });
+ *
+ * await devnet.isolate(async () => {
+ *   await writeSupplyCollateralToken(wallet, { marketId: market.marketId, assets: "1" });
+ * });
+ * ```
+ */
+export class LocalDevnet {
+  readonly rpcUrl: string;
+  readonly chain: Chain;
+  readonly #artifacts: Required<DevnetArtifacts>;
+  readonly #publicClient: PublicClient;
+  readonly #testClient: TestClient;
+  readonly #deployer: WalletClient;
+
+  /**
+   * Creates a new LocalDevnet. Use `LocalDevnet.connect()` to check the node first.
+   *
+   * @param mode - The kind of node, which decides the names of its test methods.
+   * @param options - The RPC URL, chain ID and artifacts of the devnet.
+   */
+  private constructor(
+    mode: "anvil" | "hardhat",
+    options: LocalDevnetOptions
+  ) {
+    this.rpcUrl = options.rpcUrl ?? DEFAULT_DEVNET_RPC_URL;
+    this.chain = devnetChain(this.rpcUrl, options.chainId);
+    this.#artifacts = { ...DEVNET_ARTIFACTS, ...options.artifacts };
+    this.#publicClient = createPublicClient({
+      chain: this.chain,
+      transport: http(),
+    });
+    this.#testClient = createTestClient({
+      mode,
+      chain: this.chain,
+      transport: http(),
+    });
+    this.#deployer = createWalletClient({
+      account: devnetAccount(0),
+      chain: this.chain,
+      transport: http(),
+    });
+  }
+
+  /**
+   * Connects to a local node, checking that it is reachable, that it is Anvil
+   * or Hardhat, and that it runs with the expected chain ID.
+   *
+   * @param options - The RPC URL, chain ID and artifacts of the devnet.
+   * @returns The devnet.
+   *
+   * @throws CONFIGURATION_ERROR if the node is unreachable, unsupported, or runs with another chain ID.
+   */
+  static async connect(options: LocalDevnetOptions = {}): Promise<LocalDevnet> {
+    const rpcUrl = options.rpcUrl ?? DEFAULT_DEVNET_RPC_URL;
+    const chainId = options.chainId ?? 747474;
+    const client = createPublicClient({ transport: http(rpcUrl) });
+
+    let clientVersion: string;
+    let nodeChainId: number;
+    try {
+      clientVersion = await client.request({ method: "web3_clientVersion" });
+      nodeChainId = await client.getChainId();
+    } catch (error) {
+      throw createError(
+        `No local node reachable at ${rpcUrl}. Start one with \`anvil --chain-id ${chainId}\`: ${
+          error instanceof BaseError
+            ? error.shortMessage
+            : (error as Error).message
+        }`,
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    const mode = /anvil/i.test(clientVersion)
+      ? "anvil"
+      : /hardhat/i.test(clientVersion)
+      ? "hardhat"
+      : undefined;
+
+    if (!mode) {
+      throw createError(
+        `The node at ${rpcUrl} (${clientVersion}) is neither Anvil nor Hardhat`,
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    if (nodeChainId !== chainId) {
+      throw createError(
+        `The node at ${rpcUrl} runs with chain ID ${nodeChainId}, expected ${chainId}. Start it with \`anvil --chain-id ${chainId}\`.`,
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    return new LocalDevnet(mode, { ...options, rpcUrl, chainId });
+  }
+
+  /**
+   * Creates a wallet provider on the devnet.
+   *
+   * @param account - The index of a prefunded account, or a private key. Defaults to the first account, which also deploys the contracts.
+   * @returns The wallet provider.
+   */
+  wallet(account: number | Hex = 0): DevnetWalletProvider {
+    return new DevnetWalletProvider({
+      rpcUrl: this.rpcUrl,
+      chainId: this.chain.id,
+      account,
+    });
+  }
+
+  /**
+   * Funds an account with native tokens and ERC-20 mocks.
+   *
+   * @param address - The account.
+   * @param funds - The native balance to set, in whole units, and the ERC-20 balances to set, in atomic units, keyed by token.
+   * @param funds.native - The native balance, e.g. `"100"` ETH.
+   * @param funds.tokens - The ERC-20 balances. The tokens must be ERC-20 mocks with `setBalance`.
+   */
+  async fund(
+    address: string,
+    funds: { native?: string; tokens?: Record<string, bigint> }
+  ): Promise<void> {
+    if (funds.native !== undefined) {
+      await this.#testClient.setBalance({
+        address: address as Address,
+        value: parseEther(funds.native),
+      });
+    }
+
+    for (const [token, amount] of Object.entries(funds.tokens ?? {})) {
+      await this.send(token as Address, ERC20_MOCK_ABI, "setBalance", [
+        address,
+        amount,
+      ]);
+    }
+  }
+
+  /**
+   * Takes a snapshot of the chain state.
+   *
+   * @returns The snapshot ID. A snapshot can be reverted to only once.
+   */
+  async snapshot(): Promise<Hex> {
+    return this.#testClient.snapshot();
+  }
+
+  /**
+   * Reverts the chain state to a snapshot.
+   *
+   * @param id - The snapshot ID.
+   *
+   * @throws CONFIGURATION_ERROR if the node does not know the snapshot, e.g. because it was reverted to already.
+   */
+  async revert(id: Hex): Promise<void> {
+    const reverted = (await this.#testClient.request({
+      method: "evm_revert",
+      params: [id],
+    })) as unknown as boolean;
+
+    if (!reverted) {
+      throw createError(
+        `Could not revert to snapshot ${id}`,
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+  }
+
+  /**
+   * Runs a function and reverts the chain state afterwards, whether it
+   * succeeded or not.
+   *
+   * @param fn - The function, e.g. the body of a test.
+   * @returns The result of the function.
+   */
+  async isolate<T>(fn: () => Promise<T>): Promise<T> {
+    const id = await this.snapshot();
+
+    try {
+      return await fn();
+    } finally {
+      await this.revert(id);
+    }
+  }
+
+  /**
+   * Moves the chain forward in time and mines a block, e.g. to accrue interest.
+   *
+   * @param seconds - The number of seconds.
+   */
+  async increaseTime(seconds: number): Promise<void> {
+    await this.#testClient.increaseTime({ seconds });
+    await this.#testClient.mine({ blocks: 1 });
+  }
+
+  /**
+   * Deploys a contract from the first prefunded account.
+   *
+   * @param artifact - The compiled contract.
+   * @param args - The constructor arguments.
+   * @returns The address of the contract.
+   *
+   * @throws TRANSACTION_FAILED if the deployment reverted.
+   */
+  async deployContract(
+    artifact: DevnetArtifact,
+    args: readonly unknown[] = []
+  ): Promise<Address> {
+    const hash = await this.#deployer.deployContract({
+      abi: artifact.abi,
+      bytecode: artifact.bytecode,
+      args,
+      account: this.#deployer.account!,
+      chain: this.chain,
+    });
+    const receipt = await this.#publicClient.waitForTransactionReceipt({
+      hash,
+    });
+
+    if (receipt.status !== "success" || !receipt.contractAddress) {
+      throw createError(
+        `Deployment failed in transaction ${hash}`,
+        ErrorCode.TRANSACTION_FAILED
+      );
+    }
+
+    return receipt.contractAddress;
+  }
+
+  /**
+   * Deploys an ERC-20 mock.
+   *
+   * @param token - The token.
+   * @param token.name - The token name.
+   * @param token.symbol - The token symbol.
+   * @param token.decimals - The token decimals.
+   * @returns The address of the token.
+   */
+  async deployToken(token: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  }): Promise<Address> {
+    return this.deployContract(this.#artifacts.erc20, [
+      token.name,
+      token.symbol,
+      token.decimals,
+    ]);
+  }
+
+  /**
+   * Deploys an oracle mock.
+   *
+   * @param price - The price of one collateral unit in loan units, scaled by 1e36 as Morpho Blue expects.
+   * @returns The address of the oracle.
+   */
+  async deployOracle(price: bigint): Promise<Address> {
+    const oracle = await this.deployContract(this.#artifacts.oracle);
+    await this.send(oracle, ORACLE_MOCK_ABI, "setPrice", [price]);
+
+    return oracle;
+  }
+
+  /**
+   * Sets the price of an oracle mock.
+   *
+   * @param oracle - The oracle.
+   * @param price - The price, scaled by 1e36.
+   */
+  async setOraclePrice(oracle: Address, price: bigint): Promise<void> {
+    await this.send(oracle, ORACLE_MOCK_ABI, "setPrice", [price]);
+  }
+
+  /**
+   * Deploys Morpho Blue, owned by the first prefunded account, and places it
+   * at its address on the chain of the devnet, unless it is there already.
+   *
+   * The `DOMAIN_SEPARATOR` of the placed contract still names the deployment
+   * address, so signed authorizations do not work against it.
+   *
+   * @returns The address of Morpho Blue, as the Morpho actions expect it.
+   */
+  async deployMorphoBlue(): Promise<Address> {
+    const target = getMorphoBlueContractAddress(this.chain.id) as Address;
+    if (await this.#publicClient.getCode({ address: target })) {
+      return target;
+    }
+
+    const deployed = await this.deployContract(this.#artifacts.morphoBlue, [
+      this.#deployer.account!.address,
+    ]);
+
+    const bytecode = await this.#publicClient.getCode({ address: deployed });
+    await this.#testClient.setCode({ address: target, bytecode: bytecode! });
+    // The owner is the first storage slot of Morpho Blue.
+    await this.#testClient.setStorageAt({
+      address: target,
+      index: 0,
+      value: pad(this.#deployer.account!.address),
+    });
+
+    return target;
+  }
+
+  /**
+   * Creates a Morpho Blue market, deploying Morpho Blue and any contract not
+   * given: a 6-decimal loan token, an 18-decimal collateral token priced at
+   * 3000 loan tokens, and an interest rate model.
+   *
+   * @param market - The contracts and LLTV of the market.
+   * @param market.loanToken - The loan token.
+   * @param market.collateralToken - The collateral token.
+   * @param market.oracle - The oracle.
+   * @param market.irm - The interest rate model.
+   * @param market.lltv - The liquidation LTV, scaled by 1e18. Defaults to 86%.
+   * @returns The market.
+   */
+  async createMorphoMarket(
+    market: {
+      loanToken?: Address;
+      collateralToken?: Address;
+      oracle?: Address;
+      irm?: Address;
+      lltv?: bigint;
+    } = {}
+  ): Promise<DevnetMorphoMarket> {
+    const morphoBlue = await this.deployMorphoBlue();
+    const loanToken =
+      market.loanToken ??
+      (await this.deployToken({
+        name: "Loan Token",
+        symbol: "LOAN",
+        decimals: 6,
+      }));
+    const collateralToken =
+      market.collateralToken ??
+      (await this.deployToken({
+        name: "Collateral Token",
+        symbol: "COLL",
+        decimals: 18,
+      }));
+    const oracle =
+      market.oracle ??
+      (await this.deployOracle(BigInt(3000) * BigInt(10) ** BigInt(24)));
+    const irm = market.irm ?? (await this.deployContract(this.#artifacts.irm));
+    const lltv = market.lltv ?? parseEther("0.86");
+
+    const read = (functionName: string, arg: unknown) =>
+      this.#publicClient.readContract({
+        address: morphoBlue,
+        abi: MORPHO_ABI,
+        functionName,
+        args: [arg],
+      }) as Promise<boolean>;
+
+    if (!(await read("isIrmEnabled", irm))) {
+      await this.send(morphoBlue, MORPHO_ABI, "enableIrm", [irm]);
+    }
+
+    if (!(await read("isLltvEnabled", lltv))) {
+      await this.send(morphoBlue, MORPHO_ABI, "enableLltv", [lltv]);
+    }
+
+    const marketParams = { loanToken, collateralToken, oracle, irm, lltv };
+    await this.send(morphoBlue, MORPHO_ABI, "createMarket", [
+      marketParams,
+    ]);
+
+    return {
+      marketId: keccak256(
+        encodeAbiParameters(
+          [
+            { type: "address" },
+            { type: "address" },
+            { type: "address" },
+            { type: "address" },
+            { type: "uint256" },
+          ],
+          [loanToken, collateralToken, oracle, irm, lltv]
+        )
+      ),
+      morphoBlue,
+      ...marketParams,
+    };
+  }
+
+  /**
+   * Sends a transaction from the first prefunded account and waits for it.
+   *
+   * @param address - The contract.
+   * @param abi - The ABI of the contract.
+   * @param functionName - The function to call.
+   * @param args - The call arguments.
+   *
+   * @throws TRANSACTION_FAILED if the transaction reverted.
+   */
+  private async send(
+    address: Address,
+    abi: Abi,
+    functionName: string,
+    args: readonly unknown[]
+  ): Promise<void> {
+    const hash = await this.#deployer.writeContract({
+      address,
+      abi,
+      functionName,
+      args,
+      account: this.#deployer.account!,
+      chain: this.chain,
+    });
+    const receipt = await this.#publicClient.waitForTransactionReceipt({
+      hash,
+    });
+
+    if (receipt.status !== "success") {
+      throw createError(
+        `${functionName} reverted in transaction ${hash}`,
+        ErrorCode.TRANSACTION_FAILED
+      );
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { createError, ErrorCode } from "../common/errors";
+import { readJsonBody } from "../common/utils";
+import { MockFailure, MockRequest, MockResponse } from "./types";
+
+/**
+ * A route of a mock server, resolved from a request.
+ */
+export interface MockRoute<TRoute extends string> {
+  /**
+   * The name of the route, which failures are configured by.
+   */
+  name: TRoute;
+
+  /**
+   * Builds the response from the fixture data.
+   */
+  respond: () => MockResponse;
+}
+
+/**
+ * MockApiServer is the base of the local HTTP stand-ins for the APIs the
+ * action providers call, so that actions can run offline.
+ *
+ * Subclasses resolve requests to named routes that serve fixture data. Any
+ * route can be made to fail, for a number of requests or until cleared, and
+ * every request is recorded.
+ */
+export abstract class MockApiServer<TRoute extends string> {
+  readonly #failures = new Map<TRoute | "*", MockFailure>();
+  readonly #requests: MockRequest[] = [];
+  #server?: Server;
+  #url?: string;
+
+  /**
+   * Starts listening on the loopback interface.
+   *
+   * @param port - The port to listen on. Defaults to a free port.
+   * @returns The base URL of the server, e.g. `http://127.0.0.1:50123`.
+   */
+  async listen(port = 0): Promise<string> {
+    if (this.#url) return this.#url;
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        if (!res.headersSent) res.writeHead(500);
+        res.end(String(error));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.#server = server;
+    this.#url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.#url;
+  }
+
+  /**
+   * Stops listening and drops open connections, including timed out requests.
+   */
+  async close(): Promise<void> {
+    const server = this.#server;
+    if (!server) return;
+
+    this.#server = undefined;
+    this.#url = undefined;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * The base URL of the server.
+   *
+   * @throws CONFIGURATION_ERROR if the server is not listening.
+   */
+  get url(): string {
+    if (!this.#url) {
+      throw createError(
+        "The mock server is not listening. Call listen() first.",
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    return this.#url;
+  }
+
+  /**
+   * The requests received so far, in order.
+   */
+  get requests(): readonly MockRequest[] {
+    return this.#requests;
+  }
+
+  /**
+   * Makes a route fail, replacing any failure configured for it.
+   *
+   * @param route - The route, or `"*"` for every route.
+   * @param failure - The failure.
+   */
+  fail(route: TRoute | "*", failure: MockFailure): void {
+    this.#failures.set(route, { ...failure });
+  }
+
+  /**
+   * Removes configured failures.
+   *
+   * @param route - The route whose failure is removed. Removes every failure when omitted.
+   */
+  clearFailures(route?: TRoute | "*"): void {
+    if (route) {
+      this.#failures.delete(route);
+    } else {
+      this.#failures.clear();
+    }
+  }
+
+  /**
+   * Forgets the recorded requests.
+   */
+  clearRequests(): void {
+    this.#requests.length = 0;
+  }
+
+  /**
+   * Resolves a request to a route.
+   *
+   * @param request - The request.
+   * @returns The route, or undefined if none matches.
+   */
+  protected abstract resolveRoute(
+    request: MockRequest & { query: URLSearchParams; path: string }
+  ): MockRoute<TRoute> | undefined;
+
+  /**
+   * Handles a request: records it, applies any failure of its route and
+   * serves the fixture data otherwise.
+   *
+   * @param req - The request.
+   * @param res - The response.
+   */
+  private async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://127.0.0.1");
+    const body =
+      req.method === "POST"
+        ? await readJsonBody(req).catch(() => undefined)
+        : undefined;
+    const request: MockRequest = {
+      method: req.method ?? "GET",
+      url: `${url.pathname}${url.search}`,
+      body,
+    };
+    this.#requests.push(request);
+
+    const route = this.resolveRoute({
+      ...request,
+      path: url.pathname.replace(/\/+$/, ""),
+      query: url.searchParams,
+    });
+
+    if (!route) {
+      return send(res, { status: 404, body: { error: "Not found" } });
+    }
+
+    request.route = route.name;
+
+    const failure = this.takeFailure(route.name);
+    switch (failure?.type) {
+      case "status":
+        if (failure.retryAfterSeconds !== undefined) {
+          res.setHeader("Retry-After", String(failure.retryAfterSeconds));
+        }
+        return send(res, {
+          status: failure.status,
+          body: failure.body ?? { error: `Mock failure ${failure.status}` },
+        });
+      case "delay":
+        await new Promise((resolve) => setTimeout(resolve, failure.delayMs));
+        break;
+      case "timeout":
+        return;
+      case "networkError":
+        req.socket.destroy();
+        return;
+      case "invalidJson":
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end("{ not json");
+        return;
+      case "graphqlErrors":
+        return send(res, { body: { errors: failure.errors } });
+    }
+
+    send(res, route.respond());
+  }
+
+  /**
+   * Takes the failure that applies to the next request of a route, counting
+   * it against the number of failing requests.
+   *
+   * @param route - The route.
+   * @returns The failure, if the request fails.
+   */
+  private takeFailure(route: TRoute): MockFailure | undefined {
+    for (const key of [route, "*"] as const) {
+      const failure = this.#failures.get(key);
+      if (!failure) continue;
+
+      if (failure.times !== undefined && --failure.times <= 0) {
+        this.#failures.delete(key);
+      }
+
+      return failure;
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Sends a JSON response.
+ *
+ * @param res - The response.
+ * @param response - The status and body.
+ */
+const send = (res: ServerResponse, response: MockResponse): void => {
+  res.writeHead(response.status ?? 200, {
+    "Content-Type": "application/json",
+  });
+  res.end(JSON.stringify(response.body));
+};
+
+/**
+ * Builds the response of a GraphQL query that matched nothing, as the Morpho
+ * API does.
+ *
+ * @param message - The error message.
+ * @returns The response.
+ */
+export const graphqlNotFound = (message: string): MockResponse => ({
+  body: { errors: [{ message, status: "NOT_FOUND" }], data: null },
+});
+
+/**
+ * Reads the root field of a GraphQL query, e.g. `markets` of
+ * `query Markets($first: Int!) { markets(first: $first) { ... } }`.
+ *
+ * @param query - The GraphQL query.
+ * @returns The root field, if the query has one.
+ */
+export const graphqlRootField = (query: unknown): string | undefined => {
+  if (typeof query !== "string") return undefined;
+
+  const selection = query.slice(query.indexOf("{") + 1);
+  return /^\s*(\w+)/.exec(selection)?.[1];
+};
@@ -0,0 +1,71 @@
+import { AlchemyMockServer } from "./alchemyMockServer";
+import { MorphoMockServer } from "./morphoMockServer";
+import { SushiMockServer } from "./sushiMockServer";
+import { AlchemyFixtures, MorphoFixtures, SushiFixtures } from "./types";
+
+/**
+ * The mock servers of every HTTP API the action providers call, listening.
+ */
+export interface MockServers {
+  sushi: SushiMockServer;
+  morpho: MorphoMockServer;
+  alchemy: AlchemyMockServer;
+
+  /**
+   * Closes every server.
+   */
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts the mock Sushi, Morpho and Alchemy servers on free ports.
+ *
+ * ```ts
+ * const servers = await startMockServers();
+ * const kit = await TensaiKit.from({
+ *   walletProvider,
+ *   actionProviders: [
+ *     sushiSwapActionProvider({ subGraphApiKey: "test", ...servers.sushi.config }),
+ *     morphoSubgraphActionProvider(servers.morpho.config),
+ *   ],
+ * });
+ * // ...
+ * await servers.close();
+ * ```
+ *
+ * @param fixtures - The data served by each server. Defaults to the default fixtures.
+ * @param fixtures.sushi - The data of the Sushi APIs.
+ * @param fixtures.morpho - The data of the Morpho GraphQL API.
+ * @param fixtures.alchemy - The data of the Alchemy Prices API.
+ * @returns The listening servers.
+ */
+export const startMockServers = async (
+  fixtures: {
+    sushi?: SushiFixtures;
+    morpho?: MorphoFixtures;
+    alchemy?: AlchemyFixtures;
+  } = {}
+): Promise<MockServers> => {
+  const sushi = new SushiMockServer(fixtures.sushi);
+  const morpho = new MorphoMockServer(fixtures.morpho);
+  const alchemy = new AlchemyMockServer(fixtures.alchemy);
+  const servers = [sushi, morpho, alchemy];
+
+  try {
+    for (const server of servers) {
+      await server.listen();
+    }
+  } catch (error) {
+    await Promise.all(servers.map((server) => server.close()));
+    throw error;
+  }
+
+  return {
+    sushi,
+    morpho,
+    alchemy,
+    close: async () => {
+      await Promise.all(servers.map((server) => server.close()));
+    },
+  };
+};
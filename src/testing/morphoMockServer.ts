@@ -0,0 +1,155 @@
+import { defaultMorphoFixtures } from "./fixtures";
+import {
+  graphqlNotFound,
+  graphqlRootField,
+  MockApiServer,
+  MockRoute,
+} from "./mockApiServer";
+import { MockRequest, MockResponse, MorphoFixtures } from "./types";
+
+/**
+ * The routes of the mock Morpho GraphQL API, named after the root fields of
+ * the queries, which failures are configured by.
+ */
+export type MorphoMockRoute =
+  | "markets"
+  | "vaults"
+  | "curators"
+  | "marketByUniqueKey"
+  | "userByAddress";
+
+const MORPHO_ROUTES: readonly MorphoMockRoute[] = [
+  "markets",
+  "vaults",
+  "curators",
+  "marketByUniqueKey",
+  "userByAddress",
+];
+
+/**
+ * MorphoMockServer is a local stand-in for the Morpho GraphQL API, answering
+ * queries at `/graphql` from fixture data.
+ *
+ * Lists are paginated with the `skip` and `first` variables. Unknown markets
+ * and users are answered with a `NOT_FOUND` GraphQL error, as the API does.
+ *
+ * ```ts
+ * const morpho = new MorphoMockServer();
+ * await morpho.listen();
+ * const provider = morphoSubgraphActionProvider(morpho.config);
+ * ```
+ */
+export class MorphoMockServer extends MockApiServer<MorphoMockRoute> {
+  readonly fixtures: MorphoFixtures;
+
+  /**
+   * Creates a new MorphoMockServer.
+   *
+   * @param fixtures - The data to serve. Defaults to a WETH/USDC market, a USDC vault and its curator.
+   */
+  constructor(fixtures: MorphoFixtures = defaultMorphoFixtures()) {
+    super();
+    this.fixtures = fixtures;
+  }
+
+  /**
+   * The provider config pointing at this server.
+   */
+  get config(): { apiUrl: string } {
+    return { apiUrl: `${this.url}/graphql` };
+  }
+
+  /**
+   * Resolves a query to the route of its root field.
+   *
+   * @param request - The request.
+   * @returns The route, or undefined if the query is not one of the Morpho API.
+   */
+  protected resolveRoute(
+    request: MockRequest & { query: URLSearchParams; path: string }
+  ): MockRoute<MorphoMockRoute> | undefined {
+    if (request.method !== "POST" || request.path !== "/graphql") {
+      return undefined;
+    }
+
+    const { query, variables = {} } = (request.body ?? {}) as {
+      query?: string;
+      variables?: Record<string, unknown>;
+    };
+    const name = graphqlRootField(query) as MorphoMockRoute | undefined;
+
+    if (!name || !MORPHO_ROUTES.includes(name)) return undefined;
+
+    return { name, respond: () => this.respond(name, variables) };
+  }
+
+  /**
+   * Answers a query from the fixtures.
+   *
+   * @param name - The root field of the query.
+   * @param variables - The variables of the query.
+   * @returns The response.
+   */
+  private respond(
+    name: MorphoMockRoute,
+    variables: Record<string, unknown>
+  ): MockResponse {
+    switch (name) {
+      case "markets":
+      case "vaults":
+        return {
+          body: {
+            data: { [name]: paginate(this.fixtures[name], variables) },
+          },
+        };
+      case "curators":
+        return {
+          body: { data: { curators: { items: this.fixtures.curators } } },
+        };
+      case "marketByUniqueKey": {
+        const uniqueKey = String(variables.uniqueKey).toLowerCase();
+        const market = this.fixtures.markets.find(
+          (entry) => String(entry.uniqueKey).toLowerCase() === uniqueKey
+        );
+
+        return market
+          ? { body: { data: { marketByUniqueKey: market } } }
+          : graphqlNotFound("No results matching given parameters");
+      }
+      case "userByAddress": {
+        const user =
+          this.fixtures.users[String(variables.address).toLowerCase()];
+
+        return user
+          ? { body: { data: { userByAddress: user } } }
+          : graphqlNotFound("No results matching given parameters");
+      }
+    }
+  }
+}
+
+/**
+ * Serves a page of a list, with its `pageInfo`.
+ *
+ * @param items - The whole list.
+ * @param variables - The `skip` and `first` of the query.
+ * @returns The page.
+ */
+const paginate = (
+  items: Record<string, unknown>[],
+  variables: Record<string, unknown>
+) => {
+  const skip = Number(variables.skip ?? 0);
+  const first = Number(variables.first ?? 100);
+  const page = items.slice(skip, skip + first);
+
+  return {
+    items: page,
+    pageInfo: {
+      count: page.length,
+      countTotal: items.length,
+      limit: first,
+      skip,
+    },
+  };
+};
@@ -0,0 +1,306 @@
+import Decimal from "decimal.js";
+import { encodeFunctionData, parseAbi } from "viem";
+import {
+  SUSHI_LIQUIDITY_PATH,
+  SUSHI_PRICE_PATH,
+  SUSHI_QUOTE_PATH,
+  SUSHI_SWAP_PATH,
+  SUSHI_TOKEN_PATH,
+} from "../actionProviders/sushiSwap/utlis";
+import { isNativeToken } from "../utils";
+import { defaultSushiFixtures } from "./fixtures";
+import {
+  graphqlRootField,
+  MockApiServer,
+  MockRoute,
+} from "./mockApiServer";
+import { MockRequest, MockResponse, MockToken, SushiFixtures } from "./types";
+
+/**
+ * The routes of the mock Sushi API, which failures are configured by.
+ */
+export type SushiMockRoute =
+  | "token"
+  | "price"
+  | "prices"
+  | "liquidityProviders"
+  | "quote"
+  | "swap"
+  | "tokenList";
+
+const ROUTE_PROCESSOR_ABI = parseAbi([
+  "function processRoute(address tokenIn, uint256 amountIn, address tokenOut, uint256 amountOutMin, address to, bytes route) payable returns (uint256 amountOut)",
+]);
+
+// The fee taken by the mock pools, reported as the price impact of every swap.
+const MOCK_POOL_FEE = 0.003;
+
+/**
+ * SushiMockServer is a local stand-in for the Sushi token, price, liquidity
+ * provider, quote and swap REST APIs, and for the token list of the Sushi
+ * GraphQL API at `/graphql`.
+ *
+ * Quotes and swaps convert amounts at the fixture prices, less a 0.3% fee.
+ * Swap transactions call `processRoute` on the fixture router.
+ *
+ * ```ts
+ * const sushi = new SushiMockServer();
+ * await sushi.listen();
+ * const provider = sushiSwapActionProvider({ subGraphApiKey: "test", ...sushi.config });
+ * ```
+ */
+export class SushiMockServer extends MockApiServer<SushiMockRoute> {
+  readonly fixtures: SushiFixtures;
+
+  /**
+   * Creates a new SushiMockServer.
+   *
+   * @param fixtures - The data to serve. Defaults to the Katana tokens of `MOCK_TOKENS`.
+   */
+  constructor(fixtures: SushiFixtures = defaultSushiFixtures()) {
+    super();
+    this.fixtures = fixtures;
+  }
+
+  /**
+   * The provider config pointing at this server.
+   */
+  get config(): { apiUrl: string; graphUrl: string } {
+    return { apiUrl: this.url, graphUrl: `${this.url}/graphql` };
+  }
+
+  /**
+   * Resolves a request to a route of the Sushi APIs.
+   *
+   * @param request - The request.
+   * @returns The route, or undefined if none matches.
+   */
+  protected resolveRoute(
+    request: MockRequest & { query: URLSearchParams; path: string }
+  ): MockRoute<SushiMockRoute> | undefined {
+    const { path, query } = request;
+
+    if (request.method === "POST" && path === "/graphql") {
+      const { query: graphQuery, variables = {} } = (request.body ??
+        {}) as { query?: string; variables?: Record<string, unknown> };
+
+      if (graphqlRootField(graphQuery) !== "tokenList") return undefined;
+
+      return {
+        name: "tokenList",
+        respond: () => this.tokenList(variables),
+      };
+    }
+
+    const match = (base: string) =>
+      path.startsWith(`${base}/`)
+        ? path.slice(base.length + 1).split("/")
+        : undefined;
+
+    const [chainId, address] =
+      match(SUSHI_TOKEN_PATH) ??
+      match(SUSHI_PRICE_PATH) ??
+      match(SUSHI_LIQUIDITY_PATH) ??
+      match(SUSHI_QUOTE_PATH) ??
+      match(SUSHI_SWAP_PATH) ??
+      [];
+
+    if (chainId === undefined) return undefined;
+
+    const name: SushiMockRoute | undefined = match(SUSHI_TOKEN_PATH)
+      ? "token"
+      : match(SUSHI_PRICE_PATH)
+      ? address
+        ? "price"
+        : "prices"
+      : match(SUSHI_LIQUIDITY_PATH)
+      ? "liquidityProviders"
+      : match(SUSHI_QUOTE_PATH)
+      ? "quote"
+      : "swap";
+
+    return {
+      name,
+      respond: () => {
+        if (Number(chainId) !== this.fixtures.chainId) {
+          return notFound(`Chain ${chainId} is not supported`);
+        }
+
+        switch (name) {
+          case "token": {
+            const token = this.findToken(address);
+            return token
+              ? { body: describeToken(token, this.fixtures.chainId) }
+              : notFound(`Token ${address} not found`);
+          }
+          case "price": {
+            const token = this.findToken(address);
+            return token
+              ? { body: token.priceUsd }
+              : notFound(`Token ${address} not found`);
+          }
+          case "prices":
+            return {
+              body: Object.fromEntries(
+                this.fixtures.tokens.map((token) => [
+                  token.address.toLowerCase(),
+                  token.priceUsd,
+                ])
+              ),
+            };
+          case "liquidityProviders":
+            return { body: this.fixtures.liquidityProviders };
+          default:
+            return this.quote(query, name === "swap");
+        }
+      },
+    };
+  }
+
+  /**
+   * Serves a page of the token list.
+   *
+   * @param variables - The `chainId`, `skip` and `first` of the query.
+   * @returns The response.
+   */
+  private tokenList(variables: Record<string, unknown>): MockResponse {
+    const skip = Number(variables.skip ?? 0);
+    const first = Number(variables.first ?? 100);
+    const tokens =
+      Number(variables.chainId) === this.fixtures.chainId
+        ? this.fixtures.tokens.filter((token) => !isNativeToken(token.address))
+        : [];
+
+    return {
+      body: {
+        data: {
+          tokenList: tokens.slice(skip, skip + first).map((token) => ({
+            address: token.address,
+            symbol: token.symbol,
+            name: token.name,
+            decimals: token.decimals,
+            approved: true,
+          })),
+        },
+      },
+    };
+  }
+
+  /**
+   * Serves a quote, or a swap with its transaction.
+   *
+   * @param query - The `tokenIn`, `tokenOut`, `amount`, `maxSlippage` and `sender` of the request.
+   * @param withTransaction - Whether to include the swap transaction.
+   * @returns The response.
+   */
+  private quote(
+    query: URLSearchParams,
+    withTransaction: boolean
+  ): MockResponse {
+    const tokenIn = this.findToken(query.get("tokenIn") ?? undefined);
+    const tokenOut = this.findToken(query.get("tokenOut") ?? undefined);
+    const amount = query.get("amount");
+
+    if (!amount || !/^\d+$/.test(amount)) {
+      return { status: 422, body: { error: "Invalid amount" } };
+    }
+
+    if (!tokenIn || !tokenOut || tokenIn === tokenOut) {
+      return { body: { status: "NoWay" } };
+    }
+
+    const amountOut = new Decimal(amount)
+      .mul(tokenIn.priceUsd)
+      .div(tokenOut.priceUsd)
+      .mul(new Decimal(10).pow(tokenOut.decimals - tokenIn.decimals))
+      .mul(1 - MOCK_POOL_FEE)
+      .toFixed(0, Decimal.ROUND_DOWN);
+    const maxSlippage = Number(query.get("maxSlippage") ?? 0.005);
+
+    const quote = {
+      status: "Success",
+      tokens: [tokenIn, tokenOut].map((token) =>
+        describeToken(token, this.fixtures.chainId)
+      ),
+      tokenFrom: 0,
+      tokenTo: 1,
+      swapPrice: (tokenIn.priceUsd / tokenOut.priceUsd) * (1 - MOCK_POOL_FEE),
+      priceImpact: MOCK_POOL_FEE,
+      amountIn: amount,
+      assumedAmountOut: amountOut,
+    };
+
+    if (!withTransaction) {
+      return { body: quote };
+    }
+
+    const sender = (query.get("sender") ??
+      "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+    return {
+      body: {
+        ...quote,
+        tx: {
+          from: sender,
+          to: this.fixtures.routerAddress,
+          gasPrice: 1000000000,
+          data: encodeFunctionData({
+            abi: ROUTE_PROCESSOR_ABI,
+            functionName: "processRoute",
+            args: [
+              tokenIn.address,
+              BigInt(amount),
+              tokenOut.address,
+              BigInt(
+                new Decimal(amountOut)
+                  .mul(1 - maxSlippage)
+                  .toFixed(0, Decimal.ROUND_DOWN)
+              ),
+              sender,
+              "0x",
+            ],
+          }),
+          value: isNativeToken(tokenIn.address) ? amount : "0",
+        },
+      },
+    };
+  }
+
+  /**
+   * Finds a fixture token by address.
+   *
+   * @param address - The token address, in any case.
+   * @returns The token, if it is known.
+   */
+  private findToken(address?: string): MockToken | undefined {
+    return this.fixtures.tokens.find(
+      (token) => token.address.toLowerCase() === address?.toLowerCase()
+    );
+  }
+}
+
+/**
+ * Describes a token as the Sushi token API does.
+ *
+ * @param token - The fixture token.
+ * @param chainId - The chain of the token.
+ * @returns The token description.
+ */
+const describeToken = (token: MockToken, chainId: number) => ({
+  chainId,
+  address: token.address,
+  symbol: token.symbol,
+  name: token.name,
+  decimals: token.decimals,
+});
+
+/**
+ * Builds a 404 response.
+ *
+ * @param message - The error message.
+ * @returns The response.
+ */
+const notFound = (message: string): MockResponse => ({
+  status: 404,
+  body: { error: message },
+});
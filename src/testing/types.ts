@@ -0,0 +1,311 @@
+import {
+  Abi,
+  Address,
+  Chain,
+  Hex,
+  TransactionReceipt,
+  TransactionRequest,
+} from "viem";
+import { DecodedCalldata } from "../utils";
+
+/**
+ * A failure served by a mock server instead of its fixture data.
+ *
+ * - `status`: responds with an HTTP error, optionally with a `Retry-After` header.
+ * - `delay`: responds normally, after a delay.
+ * - `timeout`: never responds, until the server is closed.
+ * - `networkError`: drops the connection without responding.
+ * - `invalidJson`: responds with a body that is not JSON.
+ * - `graphqlErrors`: responds with GraphQL `errors` and no `data`.
+ */
+export type MockFailure = (
+  | {
+      type: "status";
+      status: number;
+      body?: unknown;
+      retryAfterSeconds?: number;
+    }
+  | { type: "delay"; delayMs: number }
+  | { type: "timeout" }
+  | { type: "networkError" }
+  | { type: "invalidJson" }
+  | {
+      type: "graphqlErrors";
+      errors: { message: string; status?: string }[];
+    }
+) & {
+  /**
+   * How many requests fail before the route recovers. Every request fails
+   * until the failure is cleared when omitted.
+   */
+  times?: number;
+};
+
+/**
+ * A request received by a mock server.
+ */
+export interface MockRequest {
+  /**
+   * The route that served the request, or undefined if no route matched.
+   */
+  route?: string;
+
+  method: string;
+
+  /**
+   * The path and query of the request.
+   */
+  url: string;
+
+  /**
+   * The parsed JSON body of the request, if any.
+   */
+  body?: unknown;
+}
+
+/**
+ * A response of a mock server.
+ */
+export interface MockResponse {
+  /**
+   * The HTTP status. Defaults to 200.
+   */
+  status?: number;
+
+  /**
+   * The body, serialized as JSON.
+   */
+  body: unknown;
+}
+
+/**
+ * A token known to the mock Sushi and Alchemy APIs.
+ */
+export interface MockToken {
+  address: `0x${string}`;
+  symbol: string;
+  name: string;
+  decimals: number;
+
+  /**
+   * The USD price of the token.
+   */
+  priceUsd: number;
+}
+
+/**
+ * The data served by the mock Sushi API.
+ */
+export interface SushiFixtures {
+  /**
+   * The chain the tokens live on. Requests for other chains are answered with 404.
+   */
+  chainId: number;
+
+  tokens: MockToken[];
+
+  /**
+   * The liquidity providers listed by the API.
+   */
+  liquidityProviders: string[];
+
+  /**
+   * The router that swap transactions are sent to.
+   */
+  routerAddress: `0x${string}`;
+}
+
+/**
+ * The data served by the mock Morpho GraphQL API. Entries are served as they
+ * are, regardless of the fields selected by the query.
+ */
+export interface MorphoFixtures {
+  /**
+   * The whitelisted markets. `marketByUniqueKey` looks them up by `uniqueKey`.
+   */
+  markets: Record<string, unknown>[];
+
+  vaults: Record<string, unknown>[];
+
+  curators: Record<string, unknown>[];
+
+  /**
+   * The portfolios served by `userByAddress`, keyed by lowercase address.
+   * Other addresses are answered with a `NOT_FOUND` GraphQL error.
+   */
+  users: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * The data served by the mock Alchemy Prices API.
+ */
+export interface AlchemyFixtures {
+  /**
+   * The USD prices, keyed by token symbol.
+   */
+  prices: Record<string, number>;
+
+  /**
+   * The API key the server accepts. Any key is accepted when omitted.
+   */
+  apiKey?: string;
+}
+
+/**
+ * Selects the contract reads a scripted response applies to.
+ */
+export interface MockReadMatcher {
+  /**
+   * The contract address, in any case. Matches every contract when omitted.
+   */
+  address?: `0x${string}`;
+
+  functionName: string;
+
+  /**
+   * The call arguments. Matches any arguments when omitted. Addresses are
+   * compared case-insensitively.
+   */
+  args?: readonly unknown[];
+}
+
+/**
+ * A scripted `readContract` response: the return value, a function of the call
+ * arguments, or an error to throw.
+ */
+export type MockReadResponse =
+  | unknown
+  | Error
+  | ((args: readonly unknown[]) => unknown);
+
+/**
+ * Selects the transactions a scripted revert applies to.
+ */
+export interface MockTransactionMatcher {
+  /**
+   * The recipient, in any case. Matches every recipient when omitted.
+   */
+  to?: `0x${string}`;
+
+  /**
+   * The called function, decoded against the ERC-20 and Morpho Blue ABIs.
+   * Matches every call when omitted.
+   */
+  functionName?: string;
+}
+
+/**
+ * A transaction sent through a `MockEvmWalletProvider`.
+ */
+export interface MockSentTransaction {
+  hash: `0x${string}`;
+
+  /**
+   * The transaction, as it left the interceptors.
+   */
+  transaction: TransactionRequest;
+
+  /**
+   * The calldata decoded against the ERC-20 and Morpho Blue ABIs, if it matches either.
+   */
+  decoded?: DecodedCalldata;
+
+  /**
+   * The synthetic receipt returned by `waitForTransactionReceipt`.
+   */
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Options of a `MockEvmWalletProvider`.
+ */
+export interface MockEvmWalletProviderOptions {
+  /**
+   * The key that signs messages and transactions. Defaults to the first
+   * account of the Anvil and Hardhat test mnemonic.
+   */
+  privateKey?: `0x${string}`;
+
+  /**
+   * The chain of the wallet. Defaults to Katana mainnet.
+   */
+  chain?: Chain;
+
+  /**
+   * The native balance of the wallet, in wei. Defaults to 100 ETH.
+   */
+  balance?: bigint;
+
+  /**
+   * The gas every transaction is estimated to use. Defaults to 21000 for
+   * native transfers and 100000 for contract calls.
+   */
+  gasEstimate?: bigint;
+}
+
+/**
+ * A compiled contract, e.g. from the `out/` directory of a Foundry project.
+ */
+export interface DevnetArtifact {
+  abi: Abi;
+
+  /**
+   * The creation bytecode.
+   */
+  bytecode: Hex;
+}
+
+/**
+ * The compiled contracts a `LocalDevnet` deploys, each replacing the bundled
+ * one of `DEVNET_ARTIFACTS`.
+ *
+ * - `morphoBlue`: Morpho Blue, with `constructor(address owner)`.
+ * - `erc20`: an ERC-20 mock with `constructor(string name, string symbol, uint8 decimals)`
+ *   and `setBalance(address account, uint256 amount)`.
+ * - `oracle`: an oracle mock with `constructor()` and `setPrice(uint256 price)`.
+ * - `irm`: an interest rate model mock with `constructor()`.
+ */
+export interface DevnetArtifacts {
+  morphoBlue?: DevnetArtifact;
+  erc20?: DevnetArtifact;
+  oracle?: DevnetArtifact;
+  irm?: DevnetArtifact;
+}
+
+/**
+ * Options of a `LocalDevnet`.
+ */
+export interface LocalDevnetOptions {
+  /**
+   * The JSON-RPC URL of the node. Defaults to `http://127.0.0.1:8545`.
+   */
+  rpcUrl?: string;
+
+  /**
+   * The chain ID the node runs with. Defaults to 747474, so that the kit
+   * treats the devnet as Katana mainnet, e.g. `anvil --chain-id 747474`.
+   */
+  chainId?: number;
+
+  /**
+   * The compiled contracts to deploy instead of the bundled ones.
+   */
+  artifacts?: DevnetArtifacts;
+}
+
+/**
+ * A Morpho Blue market created on a devnet, with the contracts behind it.
+ */
+export interface DevnetMorphoMarket {
+  /**
+   * The market ID, as passed to the Morpho actions.
+   */
+  marketId: Hex;
+
+  morphoBlue: Address;
+  loanToken: Address;
+  collateralToken: Address;
+  oracle: Address;
+  irm: Address;
+  lltv: bigint;
+}
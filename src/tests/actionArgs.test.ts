@@ -0,0 +1,72 @@
+import { parseActionArgs } from "../actionProviders/actionArgs";
+import { GetExecuteSwapSchema } from "../actionProviders/sushiSwap/schemas";
+import { CustomError, ErrorCode } from "../common/errors";
+import { MOCK_TOKENS } from "../testing";
+
+const swap = (overrides: Record<string, unknown>) => ({
+  tokenIn: MOCK_TOKENS.USDC.address,
+  tokenOut: MOCK_TOKENS.WETH.address,
+  amount: 1,
+  maxSlippage: 0.005,
+  ...overrides,
+});
+
+const parseSwap = (args: unknown) =>
+  parseActionArgs("swap", GetExecuteSwapSchema, args);
+
+describe("parseActionArgs", () => {
+  it("coerces decimal strings to numbers", () => {
+    expect(parseSwap(swap({ amount: "3.5", maxSlippage: "0.01" }))).toEqual(
+      swap({ amount: 3.5, maxSlippage: 0.01 })
+    );
+  });
+
+  it.each(["", " ", "abc", "1e3", "-1", "0x10"])(
+    "rejects the amount string %j",
+    (amount) => {
+      expect(() => parseSwap(swap({ amount }))).toThrow(CustomError);
+    }
+  );
+
+  it.each([null, [], true, {}])("rejects the amount %j", (amount) => {
+    expect(() => parseSwap(swap({ amount }))).toThrow(CustomError);
+  });
+
+  it("rejects a zero or negative amount", () => {
+    expect(() => parseSwap(swap({ amount: 0 }))).toThrow(/amount/);
+    expect(() => parseSwap(swap({ amount: "0" }))).toThrow(/amount/);
+    expect(() => parseSwap(swap({ amount: -1 }))).toThrow(/amount/);
+  });
+
+  it("bounds the slippage between 0 and 1", () => {
+    expect(parseSwap(swap({ maxSlippage: "0" })).maxSlippage).toBe(0);
+    expect(parseSwap(swap({ maxSlippage: 1 })).maxSlippage).toBe(1);
+    expect(() => parseSwap(swap({ maxSlippage: "1.5" }))).toThrow(
+      /maxSlippage/
+    );
+    expect(() => parseSwap(swap({ maxSlippage: -0.1 }))).toThrow(
+      /maxSlippage/
+    );
+  });
+
+  it("lists every invalid field in the error details", () => {
+    let error: unknown;
+    try {
+      parseSwap({ tokenIn: "0x", amount: "" });
+    } catch (thrown) {
+      error = thrown;
+    }
+
+    expect(error).toBeInstanceOf(CustomError);
+    expect((error as CustomError).code).toBe(ErrorCode.INVALID_INPUT);
+    expect((error as CustomError).details).toMatchObject({
+      action: "swap",
+      issues: expect.arrayContaining([
+        expect.objectContaining({ path: "tokenIn" }),
+        expect.objectContaining({ path: "tokenOut" }),
+        expect.objectContaining({ path: "amount" }),
+        expect.objectContaining({ path: "maxSlippage" }),
+      ]),
+    });
+  });
+});
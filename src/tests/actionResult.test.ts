@@ -0,0 +1,56 @@
+import {
+  createActionResult,
+  renderActionResult,
+  toActionResult,
+} from "../actionProviders";
+import { wrapAndStringify } from "../common/utils";
+
+describe("toActionResult", () => {
+  it("reports legacy summaries as successes", () => {
+    expect(toActionResult("echo", "gm")).toMatchObject({
+      action: "echo",
+      status: "success",
+      summary: "gm",
+    });
+  });
+
+  it("reports legacy error summaries as errors", () => {
+    expect(toActionResult("echo", "Error: no route")).toMatchObject({
+      status: "error",
+      summary: "Error: no route",
+    });
+    expect(
+      toActionResult("echo", wrapAndStringify("echo", "Error fetching quote"))
+    ).toMatchObject({ status: "error", summary: "Error fetching quote" });
+    expect(toActionResult("echo", "Errors: none")).toMatchObject({
+      status: "success",
+    });
+  });
+});
+
+describe("renderActionResult", () => {
+  it("renders an object referenced twice in full", () => {
+    const token = { symbol: "USDC" };
+    const result = createActionResult("swap", {
+      summary: "Swapped",
+      data: { tokenIn: token, tokens: [token] },
+    });
+
+    expect(JSON.parse(renderActionResult(result)).data).toEqual({
+      tokenIn: { symbol: "USDC" },
+      tokens: [{ symbol: "USDC" }],
+    });
+  });
+
+  it("renders cycles and bigints", () => {
+    const data: Record<string, unknown> = { amount: BigInt(10) };
+    data.self = data;
+
+    const result = createActionResult("a", { summary: "", data });
+
+    expect(JSON.parse(renderActionResult(result)).data).toEqual({
+      amount: "10",
+      self: "[Circular]",
+    });
+  });
+});
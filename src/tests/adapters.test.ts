@@ -0,0 +1,171 @@
+import { z } from "zod";
+import {
+  getLangChainTools,
+  getOpenAIAgentsTools,
+  getVercelAITools,
+  OpenAIAgentsToolOptions,
+} from "../adapters";
+import {
+  customActionProvider,
+  walletActionProvider,
+} from "../actionProviders";
+import { createError, ErrorCode } from "../common/errors";
+import {
+  createTestKit,
+  ECHO,
+  ECHO_ACTION,
+  RECIPIENT,
+  TRANSFER_ACTION,
+} from "./helpers/kit";
+import {
+  runOpenAIAgentsAgent,
+  runVercelAIAgent,
+  ScriptedModel,
+} from "./helpers/scriptedModel";
+
+const GUARDED_ACTION = "CustomActionProvider_guarded";
+
+const setup = () =>
+  createTestKit({
+    actionProviders: [
+      customActionProvider([
+        ECHO,
+        {
+          name: "guarded",
+          description: "Always fails",
+          schema: z.object({}),
+          requiresApproval: true,
+          invoke: async () => {
+            throw createError("Not allowed", ErrorCode.POLICY_VIOLATION);
+          },
+        },
+      ]),
+      walletActionProvider(),
+    ],
+  });
+
+describe("getVercelAITools", () => {
+  it("returns the output of the tool calls to the model", async () => {
+    const { kit } = await setup();
+    const model = new ScriptedModel([
+      { toolCalls: [{ name: ECHO_ACTION, args: { message: "gm" } }] },
+      { text: "done" },
+    ]);
+
+    await expect(runVercelAIAgent(model, getVercelAITools(kit))).resolves.toBe(
+      "done"
+    );
+    expect(model.received[1]).toEqual([
+      { name: ECHO_ACTION, output: expect.stringContaining("echo: gm") },
+    ]);
+  });
+
+  it("reports invalid arguments to the model instead of throwing", async () => {
+    const { kit } = await setup();
+    const model = new ScriptedModel([
+      { toolCalls: [{ name: ECHO_ACTION, args: { message: 42 } }] },
+      { text: "sorry" },
+    ]);
+
+    await runVercelAIAgent(model, getVercelAITools(kit));
+
+    expect(model.received[1][0].output).toMatch(
+      new RegExp(`^Error running ${ECHO_ACTION} \\(INVALID_INPUT\\): `)
+    );
+  });
+
+  it("throws action errors when handleErrors is false", async () => {
+    const { kit } = await setup();
+    const model = new ScriptedModel([
+      { toolCalls: [{ name: GUARDED_ACTION, args: {} }] },
+    ]);
+
+    await expect(
+      runVercelAIAgent(model, getVercelAITools(kit, { handleErrors: false }))
+    ).rejects.toMatchObject({ code: ErrorCode.POLICY_VIOLATION });
+  });
+
+  it("only offers the selected actions", async () => {
+    const { kit } = await setup();
+
+    expect(
+      Object.keys(getVercelAITools(kit, { selection: { readOnly: true } }))
+    ).toEqual([ECHO_ACTION, "WalletActionProvider_get_wallet_details"]);
+  });
+});
+
+describe("getOpenAIAgentsTools", () => {
+  const collect = (options: OpenAIAgentsToolOptions) => options;
+
+  it("returns the output of the tool calls to the model", async () => {
+    const { kit, wallet } = await setup();
+    const model = new ScriptedModel([
+      {
+        toolCalls: [
+          { name: ECHO_ACTION, args: { message: "gm" } },
+          { name: TRANSFER_ACTION, args: { to: RECIPIENT, value: "0.5" } },
+        ],
+      },
+      { text: "done" },
+    ]);
+
+    await runOpenAIAgentsAgent(model, getOpenAIAgentsTools(kit, collect));
+
+    expect(model.received[1].map(({ output }) => output)).toEqual([
+      expect.stringContaining("echo: gm"),
+      expect.stringContaining("Transferred 0.5"),
+    ]);
+    expect(wallet.sentTransactions).toHaveLength(1);
+  });
+
+  it("passes action errors to the model through errorFunction", async () => {
+    const { kit } = await setup();
+    const model = new ScriptedModel([
+      { toolCalls: [{ name: GUARDED_ACTION, args: {} }] },
+      { text: "sorry" },
+    ]);
+
+    await runOpenAIAgentsAgent(model, getOpenAIAgentsTools(kit, collect));
+
+    expect(model.received[1][0].output).toBe(
+      `Error running ${GUARDED_ACTION} (POLICY_VIOLATION): Not allowed`
+    );
+  });
+
+  it("throws action errors when handleErrors is false", async () => {
+    const { kit } = await setup();
+    const model = new ScriptedModel([
+      { toolCalls: [{ name: GUARDED_ACTION, args: {} }] },
+    ]);
+    const tools = getOpenAIAgentsTools(kit, collect, { handleErrors: false });
+
+    await expect(runOpenAIAgentsAgent(model, tools)).rejects.toThrow(
+      "Not allowed"
+    );
+  });
+
+  it("asks for approval of the actions that require it", async () => {
+    const { kit } = await setup();
+    const tools = getOpenAIAgentsTools(kit, collect);
+
+    expect(
+      Object.fromEntries(tools.map((tool) => [tool.name, tool.needsApproval]))
+    ).toMatchObject({ [ECHO_ACTION]: false, [GUARDED_ACTION]: true });
+    expect(tools.every((tool) => tool.strict === false)).toBe(true);
+  });
+});
+
+describe("getLangChainTools", () => {
+  it("invokes the action and reports errors as the tool output", async () => {
+    const { kit } = await setup();
+    const tools = getLangChainTools(kit);
+    const byName = (name: string) => tools.find((tool) => tool.name === name)!;
+
+    await expect(
+      byName(ECHO_ACTION).invoke({ message: "gm" })
+    ).resolves.toContain("echo: gm");
+    await expect(byName(GUARDED_ACTION).invoke({})).resolves.toBe(
+      `Error running ${GUARDED_ACTION} (POLICY_VIOLATION): Not allowed`
+    );
+  });
+});
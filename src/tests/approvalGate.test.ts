@@ -0,0 +1,114 @@
+import { parseEther } from "viem";
+import {
+  ApprovalGate,
+  PendingApprovalRequest,
+  staticApprover,
+} from "../approval";
+import { ErrorCode } from "../common/errors";
+import {
+  createTestKit,
+  getAction,
+  RECIPIENT,
+  TRANSFER_ACTION,
+} from "./helpers/kit";
+
+const ARGS = { to: RECIPIENT, value: "0.5" };
+
+describe("ApprovalGate", () => {
+  it("sends approved transactions", async () => {
+    const { kit, wallet } = await createTestKit({
+      approval: staticApprover(true),
+    });
+
+    await getAction(kit, TRANSFER_ACTION).invoke(ARGS);
+
+    expect(wallet.sentTransactions).toHaveLength(1);
+  });
+
+  it("rejects transactions the approver rejects", async () => {
+    const { kit, wallet } = await createTestKit({
+      approval: staticApprover(false, "too risky"),
+    });
+
+    await expect(
+      getAction(kit, TRANSFER_ACTION).invoke(ARGS)
+    ).rejects.toMatchObject({
+      code: ErrorCode.APPROVAL_REJECTED,
+      message: `Transaction to ${RECIPIENT} was rejected: too risky`,
+    });
+    expect(wallet.sentTransactions).toHaveLength(0);
+  });
+
+  it("describes the transaction and the action to the approver", async () => {
+    const requests: PendingApprovalRequest[] = [];
+    const { kit, wallet } = await createTestKit({
+      approval: (request) => {
+        requests.push(request);
+        return true;
+      },
+    });
+
+    await getAction(kit, TRANSFER_ACTION).invoke(ARGS);
+
+    expect(requests).toEqual([
+      expect.objectContaining({
+        action: TRANSFER_ACTION,
+        actionArgs: ARGS,
+        from: wallet.getAddress(),
+        to: RECIPIENT,
+        value: parseEther("0.5"),
+        estimatedGas: BigInt(21000),
+      }),
+    ]);
+  });
+
+  it("lists the request as pending until it is decided", async () => {
+    let decide: (approved: boolean) => void = () => undefined;
+    const gate = new ApprovalGate({
+      approver: () => new Promise((resolve) => (decide = resolve)),
+    });
+    const { kit, wallet } = await createTestKit({ approval: gate });
+
+    const invocation = getAction(kit, TRANSFER_ACTION).invoke(ARGS);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(gate.getPendingRequests()).toEqual([
+      expect.objectContaining({ to: RECIPIENT }),
+    ]);
+
+    decide(true);
+    await invocation;
+
+    expect(gate.getPendingRequests()).toEqual([]);
+    expect(wallet.sentTransactions).toHaveLength(1);
+  });
+
+  it("rejects transactions that are not decided in time", async () => {
+    const onDecision = jest.fn();
+    const gate = new ApprovalGate({
+      approver: () => new Promise(() => undefined),
+      timeoutMs: 10,
+      onDecision,
+    });
+    const { kit } = await createTestKit({ approval: gate });
+
+    await expect(
+      getAction(kit, TRANSFER_ACTION).invoke(ARGS)
+    ).rejects.toMatchObject({ code: ErrorCode.APPROVAL_REJECTED });
+    expect(onDecision).toHaveBeenCalledWith(
+      expect.objectContaining({ to: RECIPIENT }),
+      false,
+      "no decision within 10ms"
+    );
+  });
+
+  it("never asks for approval of simulated transactions", async () => {
+    const approver = jest.fn(() => false);
+    const { kit } = await createTestKit({ approval: approver });
+
+    await expect(
+      getAction(kit, TRANSFER_ACTION).invokeWithResult(ARGS, { dryRun: true })
+    ).resolves.toMatchObject({ status: "simulated" });
+    expect(approver).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { runCli } from "../cli/commands";
+import { MockEvmWalletProvider } from "../testing";
+import { TensaiKit } from "../tensaiKit";
+import {
+  createTestKit,
+  ECHO_ACTION,
+  RECIPIENT,
+  TRANSFER_ACTION,
+} from "./helpers/kit";
+
+describe("runCli", () => {
+  let kit: TensaiKit;
+  let wallet: MockEvmWalletProvider;
+  let stdout: string[];
+  let stderr: string[];
+
+  beforeEach(async () => {
+    ({ kit, wallet } = await createTestKit());
+    stdout = [];
+    stderr = [];
+  });
+
+  const run = (...argv: string[]) =>
+    runCli(
+      argv,
+      {
+        stdout: (text) => stdout.push(text),
+        stderr: (text) => stderr.push(text),
+      },
+      async () => kit
+    );
+
+  it("lists the actions with their classification", async () => {
+    expect(await run("list-actions")).toBe(0);
+    expect(stdout.join("\n")).toContain(
+      `${TRANSFER_ACTION}  [wallet, write, risk: medium]`
+    );
+
+    stdout = [];
+    expect(await run("list-actions", "--output", "json")).toBe(0);
+    expect(JSON.parse(stdout[0])).toContainEqual(
+      expect.objectContaining({
+        name: ECHO_ACTION,
+        metadata: expect.objectContaining({ mutatesState: false }),
+      })
+    );
+  });
+
+  it("describes an action with its arguments", async () => {
+    expect(await run("describe", ECHO_ACTION, "--output", "json")).toBe(0);
+    expect(JSON.parse(stdout[0])).toMatchObject({
+      name: ECHO_ACTION,
+      arguments: { properties: { message: { type: "string" } } },
+    });
+  });
+
+  it("invokes an action with JSON arguments", async () => {
+    const code = await run(
+      "invoke",
+      TRANSFER_ACTION,
+      "--json",
+      JSON.stringify({ to: RECIPIENT, value: "0.1" })
+    );
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout[0])).toMatchObject({ status: "success" });
+    expect(wallet.sentTransactions).toHaveLength(1);
+  });
+
+  it("simulates the transactions with --dry-run", async () => {
+    const code = await run(
+      "invoke",
+      TRANSFER_ACTION,
+      "--dry-run",
+      "--json",
+      JSON.stringify({ to: RECIPIENT, value: "0.1" })
+    );
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout[0])).toMatchObject({ status: "simulated" });
+    expect(wallet.sentTransactions).toHaveLength(0);
+  });
+
+  it("shows the wallet details", async () => {
+    expect(await run("wallet")).toBe(0);
+    expect(stdout[0]).toContain(wallet.getAddress());
+  });
+
+  it.each([
+    [["invoke", ECHO_ACTION, "--json", "{"], "Error (INVALID_INPUT): --json"],
+    [["invoke", ECHO_ACTION, "--json", "{}"], "Error (INVALID_INPUT)"],
+    [["describe", "nope"], 'Error (NOT_FOUND): Unknown action "nope"'],
+    [["describe"], "Error (MISSING_REQUIRED_FIELD)"],
+  ])("exits with 1 on %j", async (argv, message) => {
+    expect(await run(...argv)).toBe(1);
+    expect(stderr[0]).toContain(message);
+  });
+
+  it("exits with 2 on usage errors", async () => {
+    expect(await run()).toBe(2);
+    expect(await run("nope")).toBe(2);
+    expect(await run("list-actions", "--nope")).toBe(2);
+    expect(stderr.join("\n")).toContain('Unknown command "nope"');
+  });
+});
@@ -0,0 +1,78 @@
+import { ErrorCode } from "../common/errors";
+import { TensaiKitConfig } from "../config";
+import { TensaiKit } from "../tensaiKit";
+
+// The first account of the Anvil and Hardhat test mnemonic.
+const PRIVATE_KEY =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+const config = (network: TensaiKitConfig["network"]): TensaiKitConfig => ({
+  network,
+  wallet: { type: "viem", privateKey: PRIVATE_KEY },
+});
+
+describe("TensaiKit.fromConfig", () => {
+  it("switches to networks with a configured RPC URL", async () => {
+    const kit = await TensaiKit.fromConfig(
+      config({
+        networkId: "katana-mainnet",
+        rpcUrls: { 129399: "http://127.0.0.1:8545" },
+      })
+    );
+
+    kit.switchNetwork(129399);
+
+    expect(kit.getNetwork().chainId).toBe("129399");
+  });
+
+  it("does not switch to networks without an RPC URL", async () => {
+    const kit = await TensaiKit.fromConfig(
+      config({ networkId: "katana-mainnet" })
+    );
+
+    expect(() => kit.switchNetwork(129399)).toThrow(
+      expect.objectContaining({ code: ErrorCode.CONFIGURATION_ERROR })
+    );
+  });
+
+  it("rejects RPC URLs keyed by anything but a chain ID", async () => {
+    await expect(
+      TensaiKit.fromConfig(
+        config({
+          networkId: "katana-mainnet",
+          rpcUrls: { testnet: "http://127.0.0.1:8545" },
+        })
+      )
+    ).rejects.toMatchObject({ code: ErrorCode.CONFIGURATION_ERROR });
+  });
+
+  it("creates the enabled action providers with their options", async () => {
+    const kit = await TensaiKit.fromConfig({
+      ...config({ networkId: "katana-mainnet" }),
+      actionProviders: {
+        wallet: true,
+        erc20: false,
+        sushiSwapExecute: { apiUrl: "http://127.0.0.1:8545" },
+      },
+    });
+
+    expect(kit.getActions().map((action) => action.provider)).toEqual(
+      expect.arrayContaining(["wallet", "sushi_swap.execute_only"])
+    );
+    expect(
+      kit.getActions().filter((action) => action.provider === "erc20")
+    ).toHaveLength(0);
+  });
+
+  it("rejects spend limits that are not decimal numbers", async () => {
+    await expect(
+      TensaiKit.fromConfig({
+        ...config({ networkId: "katana-mainnet" }),
+        policy: { spendLimits: [{ token: "native", maxPerPeriod: "1o" }] },
+      })
+    ).rejects.toMatchObject({
+      code: ErrorCode.CONFIGURATION_ERROR,
+      message: expect.stringContaining("policy.spendLimits.0.maxPerPeriod"),
+    });
+  });
+});
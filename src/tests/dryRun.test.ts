@@ -0,0 +1,81 @@
+import { parseEther } from "viem";
+import { DryRunReport } from "../dryRun";
+import { InMemoryJournalBackend } from "../journal";
+import {
+  createTestKit,
+  getAction,
+  RECIPIENT,
+  TRANSFER_ACTION,
+} from "./helpers/kit";
+
+describe("dry-run mode", () => {
+  it("simulates transfers instead of sending them", async () => {
+    const { kit, wallet } = await createTestKit({ dryRun: true });
+    const balance = await wallet.getBalance();
+
+    const result = await getAction(kit, TRANSFER_ACTION).invokeWithResult({
+      to: RECIPIENT,
+      value: "0.5",
+    });
+
+    expect(result.status).toBe("simulated");
+    expect(result.summary).toBe(
+      "Dry run: 1 transaction(s) simulated, 0 would revert. Nothing was broadcast."
+    );
+    expect((result.data as DryRunReport).transactions).toEqual([
+      expect.objectContaining({
+        to: RECIPIENT,
+        value: parseEther("0.5"),
+        success: true,
+      }),
+    ]);
+    expect(wallet.sentTransactions).toHaveLength(0);
+    expect(await wallet.getBalance()).toBe(balance);
+  });
+
+  it("reports transactions that would revert", async () => {
+    const { kit, wallet } = await createTestKit({ dryRun: true });
+    wallet.mockRevert({ to: RECIPIENT }, "blocked");
+
+    const result = await getAction(kit, TRANSFER_ACTION).invokeWithResult({
+      to: RECIPIENT,
+      value: "0.5",
+    });
+
+    expect(result.summary).toContain("1 would revert");
+    expect((result.data as DryRunReport).transactions[0]).toMatchObject({
+      success: false,
+      revertReason: expect.stringContaining("blocked"),
+    });
+  });
+
+  it("lets an invocation override the mode of the kit", async () => {
+    const { kit, wallet } = await createTestKit();
+    const transfer = getAction(kit, TRANSFER_ACTION);
+
+    await transfer.invoke({ to: RECIPIENT, value: "0.1" }, { dryRun: true });
+    expect(wallet.sentTransactions).toHaveLength(0);
+
+    kit.setDryRun(true);
+    await transfer.invoke({ to: RECIPIENT, value: "0.1" });
+    expect(wallet.sentTransactions).toHaveLength(0);
+
+    await transfer.invoke({ to: RECIPIENT, value: "0.1" }, { dryRun: false });
+    expect(wallet.sentTransactions).toHaveLength(1);
+  });
+
+  it("journals the action but not its simulated transactions", async () => {
+    const backend = new InMemoryJournalBackend();
+    const { kit } = await createTestKit({ dryRun: true, journal: backend });
+
+    await getAction(kit, TRANSFER_ACTION).invoke({
+      to: RECIPIENT,
+      value: "0.1",
+    });
+
+    expect((await backend.read()).map((entry) => entry.type)).toEqual([
+      "action_invoked",
+      "action_completed",
+    ]);
+  });
+});
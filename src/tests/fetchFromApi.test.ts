@@ -0,0 +1,47 @@
+import { ErrorCode } from "../common/errors";
+import { fetchFromApi } from "../common/utils";
+
+const failOnce = () =>
+  jest
+    .fn()
+    .mockResolvedValueOnce(new Response("down", { status: 503 }))
+    .mockResolvedValue(Response.json({ ok: true }));
+
+describe("fetchFromApi", () => {
+  const retry = { retries: 1, baseDelayMs: 0 };
+
+  it("retries GET requests", async () => {
+    const fetch = failOnce();
+
+    await expect(
+      fetchFromApi("http://api.test", { fetch, retry })
+    ).resolves.toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry POST requests", async () => {
+    const fetch = failOnce();
+
+    await expect(
+      fetchFromApi("http://api.test", { method: "POST", fetch, retry })
+    ).rejects.toMatchObject({
+      code: ErrorCode.API_CALL_FAILED,
+      details: { status: 503, attempts: 1 },
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries POST requests marked as idempotent", async () => {
+    const fetch = failOnce();
+
+    await expect(
+      fetchFromApi("http://api.test", {
+        method: "POST",
+        idempotent: true,
+        fetch,
+        retry,
+      })
+    ).resolves.toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
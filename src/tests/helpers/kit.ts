@@ -0,0 +1,63 @@
+import { z } from "zod";
+import {
+  customActionProvider,
+  TensaiKit,
+  TensaiKitOptions,
+  walletActionProvider,
+} from "../..";
+import { MockEvmWalletProvider } from "../../testing";
+
+/**
+ * The second account of the Anvil and Hardhat test mnemonic, used as the
+ * destination of transfers.
+ */
+export const RECIPIENT = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+export const ECHO_ACTION = "CustomActionProvider_echo";
+export const TRANSFER_ACTION = "WalletActionProvider_native_transfer";
+
+/**
+ * A read-only custom action that echoes its message.
+ */
+export const ECHO = {
+  name: "echo",
+  description: "Echoes a message",
+  schema: z.object({ message: z.string() }),
+  mutatesState: false,
+  invoke: async ({ message }: { message: string }) => `echo: ${message}`,
+};
+
+/**
+ * Creates a kit on a mock wallet, with the echo action and the wallet actions.
+ *
+ * Custom actions are registered on the `CustomActionProvider` class, so a
+ * test file that adds more custom actions sees them in every kit it creates.
+ *
+ * @param options - Options added to the kit options, e.g. a policy.
+ * @returns The kit and its wallet.
+ */
+export const createTestKit = async (
+  options: TensaiKitOptions = {}
+): Promise<{ kit: TensaiKit; wallet: MockEvmWalletProvider }> => {
+  const wallet = new MockEvmWalletProvider();
+  const kit = await TensaiKit.from({
+    walletProvider: wallet,
+    actionProviders: [customActionProvider(ECHO), walletActionProvider()],
+    ...options,
+  });
+
+  return { kit, wallet };
+};
+
+/**
+ * Gets an action of a kit by name.
+ *
+ * @param kit - The kit.
+ * @param name - The name of the action.
+ * @returns The action.
+ */
+export const getAction = (kit: TensaiKit, name: string) => {
+  const action = kit.getActions().find((candidate) => candidate.name === name);
+  if (!action) throw new Error(`No action named ${name}`);
+  return action;
+};
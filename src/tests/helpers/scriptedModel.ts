@@ -0,0 +1,125 @@
+import { OpenAIAgentsToolOptions, VercelAITool } from "../../adapters";
+
+/**
+ * A tool call made by a scripted model.
+ */
+export interface ScriptedToolCall {
+  name: string;
+  args: unknown;
+}
+
+/**
+ * The output of a tool call, as sent back to the model.
+ */
+export interface ToolOutput {
+  name: string;
+  output: string;
+}
+
+/**
+ * A turn of a scripted model: either tool calls or the final answer.
+ */
+export type ScriptedTurn =
+  | { toolCalls: ScriptedToolCall[] }
+  | { text: string };
+
+/**
+ * ScriptedModel is a fake LLM that plays back a fixed list of turns, so that
+ * agent loops can be tested without a network. It records the tool outputs it
+ * receives before each turn.
+ */
+export class ScriptedModel {
+  readonly received: ToolOutput[][] = [];
+  readonly #turns: ScriptedTurn[];
+
+  /**
+   * Creates a new ScriptedModel.
+   *
+   * @param turns - The turns to play back, in order.
+   */
+  constructor(turns: ScriptedTurn[]) {
+    this.#turns = [...turns];
+  }
+
+  /**
+   * Plays back the next turn.
+   *
+   * @param outputs - The outputs of the tool calls of the previous turn.
+   * @returns The next turn.
+   */
+  respond(outputs: ToolOutput[]): ScriptedTurn {
+    this.received.push(outputs);
+
+    const turn = this.#turns.shift();
+    if (!turn) throw new Error("The scripted model ran out of turns");
+
+    return turn;
+  }
+}
+
+/**
+ * Runs an agent loop over Vercel AI SDK tools the way `generateText` does:
+ * the arguments of every call are parsed with the tool parameters, then
+ * passed to `execute`.
+ *
+ * @param model - The scripted model.
+ * @param tools - The tools by name.
+ * @returns The final answer of the model.
+ */
+export const runVercelAIAgent = async (
+  model: ScriptedModel,
+  tools: Record<string, VercelAITool>
+): Promise<string> => {
+  let outputs: ToolOutput[] = [];
+
+  for (;;) {
+    const turn = model.respond(outputs);
+    if ("text" in turn) return turn.text;
+
+    outputs = await Promise.all(
+      turn.toolCalls.map(async ({ name, args }) => {
+        const tool = tools[name];
+        if (!tool) throw new Error(`The model called an unknown tool ${name}`);
+
+        const output = await tool.execute(tool.parameters.parse(args));
+        return { name, output };
+      })
+    );
+  }
+};
+
+/**
+ * Runs an agent loop over the options of OpenAI Agents SDK tools the way
+ * `run` does: the arguments of every call arrive as a JSON string, and errors
+ * are turned into the tool output by `errorFunction`, or thrown without one.
+ *
+ * @param model - The scripted model.
+ * @param tools - The tool options.
+ * @returns The final answer of the model.
+ */
+export const runOpenAIAgentsAgent = async (
+  model: ScriptedModel,
+  tools: OpenAIAgentsToolOptions[]
+): Promise<string> => {
+  let outputs: ToolOutput[] = [];
+
+  for (;;) {
+    const turn = model.respond(outputs);
+    if ("text" in turn) return turn.text;
+
+    outputs = await Promise.all(
+      turn.toolCalls.map(async ({ name, args }) => {
+        const tool = tools.find((candidate) => candidate.name === name);
+        if (!tool) throw new Error(`The model called an unknown tool ${name}`);
+
+        try {
+          const input = JSON.parse(JSON.stringify(args));
+          return { name, output: await tool.execute(input) };
+        } catch (error) {
+          if (!tool.errorFunction) throw error;
+          return { name, output: tool.errorFunction({}, error) };
+        }
+      })
+    );
+  }
+};
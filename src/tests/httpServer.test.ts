@@ -0,0 +1,189 @@
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { z } from "zod";
+import {
+  customActionProvider,
+  walletActionProvider,
+} from "../actionProviders";
+import { createError, ErrorCode } from "../common/errors";
+import { TensaiKitHttpServer } from "../server";
+import {
+  createTestKit,
+  ECHO,
+  ECHO_ACTION,
+  RECIPIENT,
+  TRANSFER_ACTION,
+} from "./helpers/kit";
+
+const TOKEN = "secret";
+const UPSTREAM_ACTION = "CustomActionProvider_upstream";
+
+describe("TensaiKitHttpServer", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const { kit } = await createTestKit({
+      actionProviders: [
+        customActionProvider([
+          ECHO,
+          {
+            name: "upstream",
+            description: "Fails like an API that answered 404",
+            schema: z.object({}),
+            mutatesState: false,
+            invoke: async () => {
+              throw createError("Not found", ErrorCode.API_CALL_FAILED, {
+                status: 404,
+              });
+            },
+          },
+        ]),
+        walletActionProvider(),
+      ],
+      policy: { spendLimits: [{ token: "native", maxPerTransaction: 1 }] },
+    });
+    server = await new TensaiKitHttpServer(kit, { token: TOKEN }).listen({
+      port: 0,
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const request = async (
+    path: string,
+    init: { method?: string; body?: unknown; headers?: object } = {}
+  ) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: init.method ?? (init.body === undefined ? "GET" : "POST"),
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+
+    return { status: response.status, body: await response.json() };
+  };
+
+  it("reports its health without authentication", async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok" });
+  });
+
+  it.each([undefined, "Bearer wrong", "secret"])(
+    "rejects the authorization header %j",
+    async (authorization) => {
+      const response = await fetch(`${baseUrl}/actions`, {
+        headers: authorization ? { Authorization: authorization } : {},
+      });
+
+      expect(response.status).toBe(401);
+    }
+  );
+
+  it("lists and describes the actions", async () => {
+    const list = await request("/actions");
+    const described = await request(`/actions/${ECHO_ACTION}`);
+
+    expect(list.status).toBe(200);
+    expect(list.body.actions.map(({ name }: { name: string }) => name)).toEqual(
+      expect.arrayContaining([ECHO_ACTION, TRANSFER_ACTION])
+    );
+    expect(described.body).toMatchObject({
+      name: ECHO_ACTION,
+      metadata: { mutatesState: false },
+      inputSchema: { properties: { message: { type: "string" } } },
+    });
+  });
+
+  it("invokes an action", async () => {
+    const response = await request(`/actions/${ECHO_ACTION}/invoke`, {
+      body: { args: { message: "gm" } },
+    });
+
+    expect(response).toEqual({
+      status: 200,
+      body: {
+        result: expect.objectContaining({
+          status: "success",
+          summary: "echo: gm",
+        }),
+      },
+    });
+  });
+
+  it("maps errors to HTTP statuses", async () => {
+    const invalid = await request(`/actions/${ECHO_ACTION}/invoke`, {
+      body: { args: { message: 1 } },
+    });
+    const unknown = await request("/actions/nope/invoke", {
+      body: { args: {} },
+    });
+    const violation = await request(`/actions/${TRANSFER_ACTION}/invoke`, {
+      body: { args: { to: RECIPIENT, value: "2" } },
+    });
+
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.code).toBe("INVALID_INPUT");
+    expect(unknown.status).toBe(404);
+    expect(violation.status).toBe(403);
+    expect(violation.body.error.code).toBe("POLICY_VIOLATION");
+  });
+
+  it("answers upstream API failures with 502", async () => {
+    const response = await request(`/actions/${UPSTREAM_ACTION}/invoke`, {
+      body: { args: {} },
+    });
+
+    expect(response.status).toBe(502);
+    expect(response.body.error).toMatchObject({
+      code: "API_CALL_FAILED",
+      details: { status: 404 },
+    });
+  });
+
+  it("rejects bodies that are not JSON", async () => {
+    const response = await request(`/actions/${ECHO_ACTION}/invoke`, {
+      body: { args: { message: "gm" } },
+      headers: { "Content-Type": "text/plain" },
+    });
+
+    expect(response.status).toBe(415);
+  });
+
+  it("serves JSON-RPC requests", async () => {
+    const response = await request("/rpc", {
+      body: [
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "actions.invoke",
+          params: { name: ECHO_ACTION, args: { message: "gm" } },
+        },
+        { jsonrpc: "2.0", id: 2, method: "actions.nope" },
+      ],
+    });
+
+    expect(response.body).toEqual([
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        result: { result: expect.objectContaining({ summary: "echo: gm" }) },
+      },
+      {
+        jsonrpc: "2.0",
+        id: 2,
+        error: expect.objectContaining({
+          message: 'Unknown method "actions.nope"',
+        }),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { McpHttpOptions, TensaiKitMcpServer } from "../mcp";
+import { createTestKit, ECHO_ACTION } from "./helpers/kit";
+
+describe("TensaiKitMcpServer over HTTP", () => {
+  let server: Server;
+
+  const listen = async (options: Omit<McpHttpOptions, "port">) => {
+    const { kit } = await createTestKit();
+    server = await new TensaiKitMcpServer(kit).listen({ port: 0, ...options });
+  };
+
+  const post = (headers: Record<string, string>, body: unknown) =>
+    fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+
+  const callEcho = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "tools/call",
+    params: { name: ECHO_ACTION, arguments: { message: "gm" } },
+  };
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("calls tools for authenticated requests", async () => {
+    await listen({ token: "secret" });
+
+    const response = await post({ Authorization: "Bearer secret" }, callEcho);
+
+    expect(response.status).toBe(200);
+    expect(JSON.stringify(await response.json())).toContain("echo: gm");
+  });
+
+  it("rejects requests without a valid token", async () => {
+    await listen({ token: "secret" });
+
+    expect((await post({}, callEcho)).status).toBe(401);
+    expect(
+      (await post({ Authorization: "Bearer wrong" }, callEcho)).status
+    ).toBe(401);
+  });
+
+  it("only accepts browser requests from allowed origins", async () => {
+    await listen({ allowedOrigins: ["http://localhost:3000"] });
+
+    const allowed = await post({ Origin: "http://localhost:3000" }, callEcho);
+    const other = await post({ Origin: "https://evil.example" }, callEcho);
+
+    expect(allowed.status).toBe(200);
+    expect(other.status).toBe(403);
+  });
+
+  it("rejects bodies that are not JSON", async () => {
+    await listen({});
+
+    const response = await post({ "Content-Type": "text/plain" }, callEcho);
+
+    expect(response.status).toBe(415);
+  });
+});
@@ -0,0 +1,67 @@
+import { createActionResult } from "../actionProviders";
+import {
+  ActionMiddleware,
+  ActionMiddlewareContext,
+  MAX_ACTION_ATTEMPTS,
+  runActionPipeline,
+} from "../middleware";
+import { createTestKit, ECHO_ACTION, getAction } from "./helpers/kit";
+
+const createContext = async (
+  args: unknown
+): Promise<ActionMiddlewareContext> => {
+  const { kit } = await createTestKit();
+  const action = getAction(kit, ECHO_ACTION);
+
+  return {
+    action,
+    actionProvider: action.provider,
+    walletProvider: kit.getWalletProvider(),
+    args,
+    attempt: 1,
+    state: {},
+  };
+};
+
+describe("runActionPipeline", () => {
+  it("stops retrying after the maximum number of attempts", async () => {
+    const context = await createContext({});
+    const invoke = jest.fn().mockRejectedValue(new Error("down"));
+    const retry: ActionMiddleware = {
+      name: "retry",
+      onError: () => ({ retry: true }),
+    };
+
+    await expect(runActionPipeline([retry], context, invoke)).rejects.toThrow(
+      "down"
+    );
+    expect(invoke).toHaveBeenCalledTimes(MAX_ACTION_ATTEMPTS);
+  });
+
+  it("runs every attempt from the original args and state", async () => {
+    const context = await createContext({ message: "gm" });
+    const seen: unknown[] = [];
+    const rewrite: ActionMiddleware = {
+      name: "rewrite",
+      before: (context) => {
+        seen.push({ args: context.args, state: { ...context.state } });
+        context.state.rewritten = true;
+        const { message } = context.args as { message: string };
+        return { args: { message: `${message}!` } };
+      },
+      onError: (context) => (context.attempt < 2 ? { retry: true } : undefined),
+    };
+    const invoke = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("down"))
+      .mockResolvedValue(createActionResult("echo", { summary: "ok" }));
+
+    await runActionPipeline([rewrite], context, invoke);
+
+    expect(seen).toEqual([
+      { args: { message: "gm" }, state: {} },
+      { args: { message: "gm" }, state: {} },
+    ]);
+    expect(invoke).toHaveBeenLastCalledWith({ message: "gm!" });
+  });
+});
@@ -0,0 +1,183 @@
+import { parseUnits } from "viem";
+import {
+  createActionResult,
+  sushiSwapExecuteOnlyActionProvider,
+} from "../actionProviders";
+import { ErrorCode } from "../common/errors";
+import { PolicyConfig } from "../policy";
+import { MOCK_TOKENS, SushiMockServer } from "../testing";
+import { approve } from "../utils";
+import {
+  createTestKit,
+  getAction,
+  RECIPIENT,
+  TRANSFER_ACTION,
+} from "./helpers/kit";
+
+const REVERTING = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const SWAP_ACTION = "SushiSwapExecuteOnlyActionProvider_execute_swap";
+
+const setup = async (policy: PolicyConfig) => {
+  const { kit, wallet } = await createTestKit({ policy });
+  const transfer = (value: string, options?: { dryRun?: boolean }) =>
+    getAction(kit, TRANSFER_ACTION).invokeWithResult(
+      { to: RECIPIENT, value },
+      options
+    );
+
+  return { kit, wallet, transfer };
+};
+
+const NATIVE_LIMIT: PolicyConfig = {
+  spendLimits: [{ token: "native", maxPerTransaction: 1, maxPerPeriod: 1.5 }],
+};
+
+describe("PolicyEngine", () => {
+  it("rejects a transfer above the per-transaction limit", async () => {
+    const { wallet, transfer } = await setup(NATIVE_LIMIT);
+
+    await expect(transfer("1.1")).rejects.toMatchObject({
+      code: ErrorCode.POLICY_VIOLATION,
+      details: { rule: "spend_limit", value: "1.1", limit: "1" },
+    });
+    expect(wallet.sentTransactions).toHaveLength(0);
+  });
+
+  it("counts earlier transfers against the period limit", async () => {
+    const { wallet, transfer } = await setup(NATIVE_LIMIT);
+
+    await transfer("1");
+    await expect(transfer("0.6")).rejects.toMatchObject({
+      code: ErrorCode.POLICY_VIOLATION,
+    });
+    await transfer("0.5");
+
+    expect(wallet.sentTransactions).toHaveLength(2);
+  });
+
+  it("lets one of two concurrent transfers through the limit", async () => {
+    const { wallet, transfer } = await setup(NATIVE_LIMIT);
+
+    const results = await Promise.allSettled([transfer("1"), transfer("1")]);
+
+    expect(results.map(({ status }) => status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(wallet.sentTransactions).toHaveLength(1);
+  });
+
+  it("releases the spend of a transfer that failed", async () => {
+    const { kit, wallet, transfer } = await setup(NATIVE_LIMIT);
+    wallet.mockRevert({ to: REVERTING });
+
+    await expect(
+      getAction(kit, TRANSFER_ACTION).invoke({ to: REVERTING, value: "1" })
+    ).rejects.toMatchObject({ code: ErrorCode.TRANSACTION_FAILED });
+    await transfer("1");
+
+    expect(wallet.sentTransactions).toHaveLength(1);
+  });
+
+  it("rejects destinations that are not allowed", async () => {
+    const { wallet, transfer } = await setup({
+      allowedDestinations: [REVERTING],
+    });
+
+    await expect(transfer("0.1")).rejects.toMatchObject({
+      code: ErrorCode.POLICY_VIOLATION,
+      details: { rule: "allowed_destinations" },
+    });
+    expect(wallet.sentTransactions).toHaveLength(0);
+  });
+
+  it("checks simulated transfers without counting them", async () => {
+    const { wallet, transfer } = await setup(NATIVE_LIMIT);
+
+    await expect(transfer("2", { dryRun: true })).rejects.toMatchObject({
+      code: ErrorCode.POLICY_VIOLATION,
+    });
+    await expect(transfer("1", { dryRun: true })).resolves.toMatchObject({
+      status: "simulated",
+    });
+    await expect(transfer("1", { dryRun: true })).resolves.toMatchObject({
+      status: "simulated",
+    });
+    await transfer("1");
+
+    expect(wallet.sentTransactions).toHaveLength(1);
+  });
+
+  it("checks both the token and the spender of an approval", async () => {
+    const { wallet } = await setup({ allowedContracts: [RECIPIENT] });
+
+    await expect(
+      approve(wallet, MOCK_TOKENS.USDC.address, RECIPIENT, BigInt(1))
+    ).rejects.toMatchObject({
+      code: ErrorCode.POLICY_VIOLATION,
+      details: {
+        rule: "allowed_contracts",
+        value: MOCK_TOKENS.USDC.address.toLowerCase(),
+      },
+    });
+    expect(wallet.sentTransactions).toHaveLength(0);
+  });
+
+  describe("swaps", () => {
+    const sushi = new SushiMockServer();
+    const { USDC, WETH } = MOCK_TOKENS;
+
+    beforeAll(() => sushi.listen());
+    afterAll(() => sushi.close());
+    afterEach(() => sushi.clearFailures());
+
+    const setupSwaps = async () => {
+      const { kit, wallet } = await createTestKit({
+        actionProviders: [sushiSwapExecuteOnlyActionProvider(sushi.config)],
+        policy: {
+          spendLimits: [{ token: USDC.address, maxPerPeriod: 100 }],
+        },
+        middleware: [
+          {
+            name: "recover",
+            onError: () => ({
+              result: createActionResult("recover", { summary: "recovered" }),
+            }),
+          },
+        ],
+      });
+      wallet.setTokenDecimals(USDC.address, USDC.decimals);
+      wallet.setTokenBalance(USDC.address, parseUnits("1000", USDC.decimals));
+
+      const swap = (amount: number) =>
+        getAction(kit, SWAP_ACTION).invokeWithResult({
+          tokenIn: USDC.address,
+          tokenOut: WETH.address,
+          amount,
+          maxSlippage: 0.005,
+        });
+
+      return { wallet, swap };
+    };
+
+    it("does not count a swap whose error was recovered from", async () => {
+      const { swap } = await setupSwaps();
+      sushi.fail("swap", { type: "status", status: 400 });
+
+      await expect(swap(100)).resolves.toMatchObject({
+        summary: "recovered",
+      });
+      sushi.clearFailures();
+      await expect(swap(100)).resolves.toMatchObject({ status: "success" });
+    });
+
+    it("counts a sent swap against the period limit", async () => {
+      const { swap } = await setupSwaps();
+
+      await swap(60);
+      await expect(swap(60)).rejects.toMatchObject({
+        code: ErrorCode.POLICY_VIOLATION,
+      });
+    });
+  });
+});
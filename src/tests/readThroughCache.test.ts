@@ -0,0 +1,111 @@
+import { fetchAllTokenPrices } from "../actionProviders/sushiSwap/logic";
+import {
+  configureCache,
+  getCache,
+  LruCacheBackend,
+  ReadThroughCache,
+} from "../cache";
+import { MOCK_CHAIN_ID, SushiMockServer } from "../testing";
+
+const CHAIN_ID = String(MOCK_CHAIN_ID);
+
+describe("read-through cache", () => {
+  const sushi = new SushiMockServer();
+  const other = new SushiMockServer();
+
+  beforeAll(async () => {
+    await sushi.listen();
+    await other.listen();
+  });
+
+  afterAll(async () => {
+    await sushi.close();
+    await other.close();
+  });
+
+  afterEach(() => {
+    configureCache(false);
+    sushi.clearRequests();
+    other.clearRequests();
+  });
+
+  it("is off until configured", async () => {
+    expect(getCache()).toBeUndefined();
+
+    await fetchAllTokenPrices(CHAIN_ID, sushi.config);
+    await fetchAllTokenPrices(CHAIN_ID, sushi.config);
+
+    expect(sushi.requests).toHaveLength(2);
+  });
+
+  it("serves repeated reads from the cache once configured", async () => {
+    configureCache({});
+
+    const first = await fetchAllTokenPrices(CHAIN_ID, sushi.config);
+    const second = await fetchAllTokenPrices(CHAIN_ID, sushi.config);
+
+    expect(second).toEqual(first);
+    expect(sushi.requests).toHaveLength(1);
+  });
+
+  it("keys the entries by API endpoint", async () => {
+    configureCache({});
+
+    await fetchAllTokenPrices(CHAIN_ID, sushi.config);
+    await fetchAllTokenPrices(CHAIN_ID, other.config);
+
+    expect(sushi.requests).toHaveLength(1);
+    expect(other.requests).toHaveLength(1);
+  });
+
+  it("does not cache a source whose TTL is 0", async () => {
+    configureCache({ ttls: { tokenPrices: 0 } });
+
+    await fetchAllTokenPrices(CHAIN_ID, sushi.config);
+    await fetchAllTokenPrices(CHAIN_ID, sushi.config);
+
+    expect(sushi.requests).toHaveLength(2);
+  });
+});
+
+describe("ReadThroughCache", () => {
+  it("loads concurrent reads of a key once", async () => {
+    const cache = new ReadThroughCache();
+    const load = jest.fn(async () => 42);
+
+    const values = await Promise.all([
+      cache.read("tokenDecimals", "a", load),
+      cache.read("tokenDecimals", "a", load),
+    ]);
+
+    expect(values).toEqual([42, 42]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("expires entries after their TTL", async () => {
+    const cache = new ReadThroughCache({ ttls: { tokenPrices: 1000 } });
+    const load = jest.fn(async () => 1);
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+
+    try {
+      await cache.read("tokenPrices", "a", load);
+      now.mockReturnValue(999);
+      await cache.read("tokenPrices", "a", load);
+      now.mockReturnValue(1000);
+      await cache.read("tokenPrices", "a", load);
+    } finally {
+      now.mockRestore();
+    }
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("only keeps the values accepted by cacheIf", async () => {
+    const backend = new LruCacheBackend();
+    const cache = new ReadThroughCache({ backend });
+
+    await cache.read("tokenMetadata", "a", async () => null, Boolean);
+
+    expect(await backend.get("tokenMetadata:a")).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import { prepareAndSendSwapTransaction } from "../actionProviders";
+import { ErrorCode } from "../common/errors";
+import {
+  MockEvmWalletProvider,
+  MOCK_TOKENS,
+  SushiMockServer,
+} from "../testing";
+
+describe("prepareAndSendSwapTransaction", () => {
+  const sushi = new SushiMockServer();
+  const { ETH, USDC } = MOCK_TOKENS;
+  const args = {
+    tokenIn: ETH.address,
+    tokenOut: USDC.address,
+    amount: 0.1,
+    maxSlippage: 0.005,
+  };
+
+  beforeAll(() => sushi.listen());
+  afterAll(() => sushi.close());
+  afterEach(() => sushi.clearFailures());
+
+  it("sends the transaction of the swap API", async () => {
+    const wallet = new MockEvmWalletProvider();
+
+    const result = await prepareAndSendSwapTransaction(
+      wallet,
+      args,
+      sushi.config
+    );
+
+    expect(wallet.sentTransactions).toHaveLength(1);
+    expect(wallet.sentTransactions[0].hash).toBe(result.txHash);
+    expect(wallet.sentTransactions[0].transaction.value).toBe(
+      BigInt("100000000000000000")
+    );
+  });
+
+  it.each([
+    [
+      "a transaction without calldata",
+      { to: USDC.address, from: USDC.address },
+    ],
+    [
+      "a transaction to an invalid address",
+      { to: "router", from: USDC.address, data: "0x" },
+    ],
+    [
+      "a value that is not an integer",
+      { to: USDC.address, from: USDC.address, data: "0x", value: "0.1" },
+    ],
+  ])("rejects a response with %s", async (_, tx) => {
+    const wallet = new MockEvmWalletProvider();
+    sushi.fail("swap", {
+      type: "status",
+      status: 200,
+      body: {
+        status: "Success",
+        assumedAmountOut: "1",
+        priceImpact: 0,
+        tx,
+      },
+    });
+
+    await expect(
+      prepareAndSendSwapTransaction(wallet, args, sushi.config)
+    ).rejects.toMatchObject({ code: ErrorCode.API_CALL_FAILED });
+    expect(wallet.sentTransactions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,133 @@
+import { ZodFirstPartyTypeKind } from "zod";
+import { ignoreOverride, zodToJsonSchema } from "zod-to-json-schema";
+import { Action, ActionInvokeOptions } from "../actionProviders";
+import { createError, ErrorCode } from "../common/errors";
+import {
+  AnthropicToolDefinition,
+  JsonSchema,
+  OpenAIToolDefinition,
+  ToolDefinitionFormat,
+  ToolDefinitionMap,
+} from "./types";
+
+/**
+ * Converts the schema of an action to JSON Schema.
+ *
+ * Descriptions set with `.describe()` are kept. Types JSON cannot represent are
+ * exposed as strings: bigints as strings of digits, and `z.custom()` fields,
+ * such as the ERC20 transfer amount, as plain strings their schema accepts.
+ * Piped schemas are described by what they accept as input.
+ *
+ * @param action - The action.
+ * @returns The JSON Schema of the action arguments.
+ */
+export const actionToJsonSchema = (action: Action): JsonSchema => {
+  const { $schema: _, ...schema } = zodToJsonSchema(action.schema, {
+    $refStrategy: "none",
+    pipeStrategy: "input",
+    override: (def) => {
+      switch ((def as { typeName?: ZodFirstPartyTypeKind }).typeName) {
+        case ZodFirstPartyTypeKind.ZodBigInt:
+          return { type: "string", pattern: "^-?\\d+$" };
+        case ZodFirstPartyTypeKind.ZodAny:
+          return { type: "string" };
+        default:
+          return ignoreOverride;
+      }
+    },
+  });
+
+  return schema;
+};
+
+/**
+ * Describes an action as an OpenAI function-calling tool.
+ *
+ * @param action - The action.
+ * @returns The tool definition.
+ */
+export const toOpenAITool = (action: Action): OpenAIToolDefinition => ({
+  type: "function",
+  function: {
+    name: action.name,
+    description: action.description,
+    parameters: actionToJsonSchema(action),
+  },
+});
+
+/**
+ * Describes an action as an Anthropic tool-use tool.
+ *
+ * @param action - The action.
+ * @returns The tool definition.
+ */
+export const toAnthropicTool = (action: Action): AnthropicToolDefinition => ({
+  name: action.name,
+  description: action.description,
+  input_schema: actionToJsonSchema(action),
+});
+
+const converters: {
+  [TFormat in ToolDefinitionFormat]: (
+    action: Action
+  ) => ToolDefinitionMap[TFormat];
+} = {
+  openai: toOpenAITool,
+  anthropic: toAnthropicTool,
+};
+
+/**
+ * Describes actions as tool definitions.
+ *
+ * @param actions - The actions.
+ * @param format - The shape of the tool definitions.
+ * @returns One tool definition per action.
+ */
+export const toToolDefinitions = <TFormat extends ToolDefinitionFormat>(
+  actions: Action[],
+  format: TFormat
+): ToolDefinitionMap[TFormat][] =>
+  actions.map((action) => converters[format](action));
+
+/**
+ * Routes a tool call emitted by a model to the action of the same name.
+ *
+ * @param actions - The actions the model was offered.
+ * @param name - The name of the called tool.
+ * @param args - The arguments of the call, as an object or as a JSON string
+ * (the OpenAI API sends them as a string).
+ * @param options - The invocation options.
+ * @returns The result of the action, rendered for the model.
+ *
+ * @throws INVALID_INPUT if no action has that name or the arguments are not valid JSON.
+ */
+export const invokeToolCall = async (
+  actions: Action[],
+  name: string,
+  args: unknown,
+  options?: ActionInvokeOptions
+): Promise<string> => {
+  const action = actions.find((candidate) => candidate.name === name);
+
+  if (!action) {
+    throw createError(`Unknown tool "${name}"`, ErrorCode.INVALID_INPUT);
+  }
+
+  if (typeof args !== "string") {
+    return action.invoke(args ?? {}, options);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = args.trim() ? JSON.parse(args) : {};
+  } catch (error) {
+    throw createError(
+      `Invalid arguments for ${name}: not valid JSON (${
+        error instanceof Error ? error.message : String(error)
+      })`,
+      ErrorCode.INVALID_INPUT
+    );
+  }
+
+  return action.invoke(parsed, options);
+};
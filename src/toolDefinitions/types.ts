@@ -0,0 +1,38 @@
+/**
+ * A JSON Schema (draft-07) document describing the arguments of an action.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * An action described as a function, in the shape of the OpenAI function-calling API.
+ */
+export interface OpenAIToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+  };
+}
+
+/**
+ * An action described as a tool, in the shape of the Anthropic tool-use API.
+ */
+export interface AnthropicToolDefinition {
+  name: string;
+  description: string;
+  input_schema: JsonSchema;
+}
+
+/**
+ * The tool definition shapes `TensaiKit.getToolDefinitions` can produce.
+ */
+export type ToolDefinitionFormat = "openai" | "anthropic";
+
+/**
+ * Maps every tool definition format to the shape it produces.
+ */
+export interface ToolDefinitionMap {
+  openai: OpenAIToolDefinition;
+  anthropic: AnthropicToolDefinition;
+}
@@ -1,6 +1,9 @@
-import { encodeFunctionData } from "viem";
+import { Abi, decodeFunctionData, encodeFunctionData, Hex } from "viem";
 import { EvmWalletProvider } from "./walletProviders";
-import { createError, ErrorCode } from "./common/errors";
+import { createError, CustomError, ErrorCode } from "./common/errors";
+import { abi as ERC20_TOKEN_ABI } from "./actionProviders/erc20/constants";
+import { MORPHO_BLUE_ABI } from "./actionProviders/morpho/abi/morphoBlueABI";
+import { cachedRead } from "./cache";
 
 const ERC20_ABI = [
   {
@@ -36,6 +39,7 @@ const ERC20_ABI = [
  * @param spenderAddress - The address being approved to spend tokens.
  * @param amount - The amount of tokens to approve (in atomic units, e.g., wei).
  * @returns A promise that resolves to a success or error message string.
+ * @throws The original error if sending failed with a `CustomError`, e.g. a policy violation.
  */
 export const approve = async (
   wallet: EvmWalletProvider,
@@ -59,6 +63,10 @@ export const approve = async (
 
     return `Approval successful: ${spenderAddress} is now allowed to spend up to ${amount.toString()} tokens.`;
   } catch (error) {
+    if (error instanceof CustomError) {
+      throw error;
+    }
+
     return `Error approving tokens for ${spenderAddress}: ${
       (error as Error).message || error
     }`;
@@ -106,9 +114,6 @@ export const allowance = async (
       args: [ownerAddress, spenderAddress as `0x${string}`],
     });
 
-    console.log(
-      `[Token Allowance] Spender: ${spenderAddress} | Owner: ${ownerAddress} | Allowance: ${allowanceAmount.toString()}`
-    );
     return allowanceAmount;
   } catch (error) {
     throw createError(
@@ -118,6 +123,31 @@ export const allowance = async (
   }
 };
 
+/**
+ * Reads the decimals of an ERC-20 token.
+ *
+ * Decimals never change, so they are cached permanently by default.
+ *
+ * @param wallet - The EVM wallet provider used to read from the contract
+ * @param tokenAddress - The address of the ERC-20 token contract
+ * @returns A promise that resolves to the token decimals
+ */
+export const tokenDecimals = async (
+  wallet: EvmWalletProvider,
+  tokenAddress: string
+): Promise<number> =>
+  cachedRead(
+    "tokenDecimals",
+    `${wallet.getNetwork().chainId}:${tokenAddress.toLowerCase()}`,
+    () =>
+      wallet.readContract({
+        address: tokenAddress as `0x${string}`,
+        abi: ERC20_TOKEN_ABI,
+        functionName: "decimals",
+        args: [],
+      })
+  );
+
 /**
  * Checks if the provided token address represents a native token (e.g., ETH, MATIC).
  *
@@ -135,3 +165,64 @@ export const isNativeToken = (tokenAddress: string): boolean => {
     normalized === "0x0000000000000000000000000000000000000000"
   );
 };
+
+/**
+ * A transaction calldata decoded against one of the ABIs known to the kit.
+ */
+export interface DecodedCalldata {
+  /**
+   * The kind of contract whose ABI matched the calldata.
+   */
+  contract: "erc20" | "morpho_blue";
+
+  /**
+   * The name of the called function.
+   */
+  functionName: string;
+
+  /**
+   * The call arguments, keyed by their ABI parameter names.
+   */
+  args: Record<string, unknown>;
+}
+
+const KNOWN_ABIS: { contract: DecodedCalldata["contract"]; abi: Abi }[] = [
+  { contract: "erc20", abi: ERC20_TOKEN_ABI },
+  { contract: "morpho_blue", abi: MORPHO_BLUE_ABI as Abi },
+];
+
+/**
+ * Decodes transaction calldata against the ERC-20 and Morpho Blue ABIs.
+ *
+ * @param data - The calldata of the transaction.
+ * @returns The decoded call, or `undefined` if the calldata is empty or unknown.
+ */
+export const decodeTransactionCalldata = (
+  data?: Hex
+): DecodedCalldata | undefined => {
+  if (!data || data === "0x") {
+    return undefined;
+  }
+
+  for (const { contract, abi } of KNOWN_ABIS) {
+    try {
+      const { functionName, args = [] } = decodeFunctionData({ abi, data });
+      const item = abi.find(
+        (entry) => entry.type === "function" && entry.name === functionName
+      );
+      const inputs = item && "inputs" in item ? item.inputs : [];
+
+      return {
+        contract,
+        functionName,
+        args: Object.fromEntries(
+          inputs.map((input, index) => [input.name || `${index}`, args[index]])
+        ),
+      };
+    } catch {
+      continue;
+    }
+  }
+
+  return undefined;
+};
@@ -2,6 +2,8 @@
 
 import { toAccount } from "viem/accounts";
 import { WalletProvider } from "./walletProvider";
+import { TransactionInterceptor } from "./transactionInterceptor";
+import { SimulationResult } from "./transactionSimulation";
 import {
   TransactionRequest,
   ReadContractParameters,
@@ -11,7 +13,10 @@ import {
   ContractFunctionArgs,
   Account,
   Address,
+  Chain,
+  Hex,
 } from "viem";
+import { createError, ErrorCode } from "../common/errors";
 
 /**
  * Abstract base class for all EVM-compatible wallet providers.
@@ -22,6 +27,102 @@ import {
  * @abstract
  */
 export abstract class EvmWalletProvider extends WalletProvider {
+  #transactionInterceptors: TransactionInterceptor[] = [];
+
+  /**
+   * Registers an interceptor that runs around every transaction sent by this wallet.
+   *
+   * @param interceptor - The interceptor to register.
+   * @returns A function that unregisters the interceptor.
+   */
+  addTransactionInterceptor(interceptor: TransactionInterceptor): () => void {
+    this.#transactionInterceptors.push(interceptor);
+
+    return () => {
+      this.#transactionInterceptors = this.#transactionInterceptors.filter(
+        (registered) => registered !== interceptor
+      );
+    };
+  }
+
+  /**
+   * Runs a transaction through the registered interceptors before sending it.
+   *
+   * Implementations call this from `sendTransaction` (and from any other method
+   * that broadcasts on its own) so that interceptors see every transaction.
+   *
+   * @param transaction - The transaction to send.
+   * @param send - Signs and broadcasts the transaction once all interceptors passed it on.
+   * @returns The resulting transaction hash.
+   */
+  protected interceptSendTransaction(
+    transaction: TransactionRequest,
+    send: (transaction: TransactionRequest) => Promise<Hex>
+  ): Promise<Hex> {
+    const interceptors = this.#transactionInterceptors.filter(
+      (interceptor) => interceptor.onSendTransaction
+    );
+
+    const run = (index: number, request: TransactionRequest): Promise<Hex> =>
+      index < interceptors.length
+        ? interceptors[index].onSendTransaction!(
+            request,
+            (next) => run(index + 1, next),
+            this
+          )
+        : send(request);
+
+    return run(0, transaction);
+  }
+
+  /**
+   * Runs a receipt lookup through the registered interceptors.
+   *
+   * Implementations call this from `waitForTransactionReceipt` so that interceptors
+   * can answer for transactions they handled themselves.
+   *
+   * @param txHash - The hash of the transaction.
+   * @param wait - Waits for the receipt once all interceptors passed the lookup on.
+   * @returns The transaction receipt, typed as the one `wait` resolves to even
+   * when an interceptor answered with a receipt of its own.
+   */
+  protected interceptWaitForTransactionReceipt<TReceipt>(
+    txHash: Hex,
+    wait: (txHash: Hex) => Promise<TReceipt>
+  ): Promise<TReceipt> {
+    const interceptors = this.#transactionInterceptors.filter(
+      (interceptor) => interceptor.onWaitForTransactionReceipt
+    );
+
+    const run = (index: number, hash: Hex): Promise<unknown> =>
+      index < interceptors.length
+        ? interceptors[index].onWaitForTransactionReceipt!(
+            hash,
+            (next) => run(index + 1, next),
+            this
+          )
+        : wait(hash);
+
+    return run(0, txHash) as Promise<TReceipt>;
+  }
+
+  /**
+   * Creates a provider for the same account on another chain.
+   *
+   * The new provider starts without transaction interceptors; `TensaiKit`
+   * equips it when it switches networks.
+   *
+   * @param chain - The chain to connect to, e.g. with a custom RPC URL.
+   * @returns The wallet provider for the chain.
+   * @throws NOT_IMPLEMENTED unless the provider supports switching networks.
+   */
+  withChain(chain: Chain): EvmWalletProvider {
+    throw createError(
+      `${this.getName()} cannot switch to chain ${chain.id}`,
+      ErrorCode.NOT_IMPLEMENTED
+    );
+  }
+
   /**
    * Converts this wallet provider into a Viem-compatible `Account` signer object.
    *
@@ -78,6 +179,24 @@ export abstract class EvmWalletProvider extends WalletProvider {
     transaction: TransactionRequest
   ): Promise<`0x${string}`>;
 
+  /**
+   * Estimates the gas a transaction would use if sent from this wallet.
+   *
+   * @param transaction - The transaction to estimate.
+   * @returns The estimated gas limit.
+   */
+  abstract estimateGas(transaction: TransactionRequest): Promise<bigint>;
+
+  /**
+   * Simulates a sequence of transactions from this wallet without broadcasting them.
+   *
+   * @param transactions - The transactions to simulate, in order.
+   * @returns The outcome of each transaction and the expected balance changes.
+   */
+  abstract simulateTransactions(
+    transactions: TransactionRequest[]
+  ): Promise<SimulationResult>;
+
   /**
    * Waits for a transaction to be confirmed on-chain and returns its receipt.
    *
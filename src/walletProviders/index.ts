@@ -1,5 +1,7 @@
 export * from "./walletProvider";
 export * from "./evmWalletProvider";
+export * from "./transactionInterceptor";
+export * from "./transactionSimulation";
 export * from "./viemWalletProvider";
 export * from "./privyWalletProvider";
 export * from "./privyEvmWalletProvider";
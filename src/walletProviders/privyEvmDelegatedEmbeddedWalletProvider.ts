@@ -4,6 +4,7 @@ import crypto from "crypto";
 import {
   Abi,
   Address,
+  Chain,
   ContractFunctionArgs,
   ContractFunctionName,
   Hex,
@@ -17,13 +18,23 @@ import {
   parseEther,
 } from "viem";
 import { Network } from "../network";
-import { NETWORK_ID_TO_CHAIN_ID, getChain } from "../network/network";
 import {
+  CHAIN_ID_TO_NETWORK_ID,
+  NETWORK_ID_TO_CHAIN_ID,
+  getChain,
+} from "../network/network";
+import {
+  PRIVY_WALLET_API_URL,
   PrivyWalletConfig,
   PrivyWalletExport,
   createPrivyClient,
 } from "./privyShared";
-import { WalletProvider } from "./walletProvider";
+import { FetchFunction, resolveFetch } from "../common/utils";
+import { EvmWalletProvider } from "./evmWalletProvider";
+import {
+  SimulationResult,
+  simulateTransactionsWithClient,
+} from "./transactionSimulation";
 
 interface PrivyResponse<T> {
   data: T;
@@ -43,8 +54,14 @@ export interface PrivyEvmDelegatedEmbeddedWalletConfig
   /** The chain ID to connect to */
   chainId?: string;
 
+  /** The chain definition, e.g. with a custom RPC URL. Takes precedence over `chainId` for reads */
+  chain?: Chain;
+
   /** The wallet type to use */
   walletType: "embedded";
+
+  /** Optional `fetch` implementation used for wallet RPC requests. Defaults to the global `fetch` */
+  fetch?: FetchFunction;
 }
 
 /**
@@ -52,7 +69,7 @@ export interface PrivyEvmDelegatedEmbeddedWalletConfig
  * This provider extends the EvmWalletProvider to provide Privy-specific wallet functionality
  * while maintaining compatibility with the wallet provider interface.
  */
-export class PrivyEvmDelegatedEmbeddedWalletProvider extends WalletProvider {
+export class PrivyEvmDelegatedEmbeddedWalletProvider extends EvmWalletProvider {
   #walletId: string;
   #address: string;
   #appId: string;
@@ -60,6 +77,7 @@ export class PrivyEvmDelegatedEmbeddedWalletProvider extends WalletProvider {
   #authKey: string;
   #network: Network;
   #publicClient: PublicClient;
+  #config: PrivyEvmDelegatedEmbeddedWalletConfig & { address: string };
 
   /**
    * Private constructor to enforce use of factory method.
@@ -71,6 +89,7 @@ export class PrivyEvmDelegatedEmbeddedWalletProvider extends WalletProvider {
   ) {
     super();
 
+    this.#config = config;
     this.#walletId = config.walletId;
     this.#address = config.address;
     this.#appId = config.appId;
@@ -87,7 +106,7 @@ export class PrivyEvmDelegatedEmbeddedWalletProvider extends WalletProvider {
     };
 
     // Create a public client for read operations
-    const chain = getChain(chainId);
+    const chain = config.chain ?? getChain(chainId);
     if (!chain) {
       throw new Error(`Chain with ID ${chainId} not found`);
     }
@@ -184,6 +203,21 @@ export class PrivyEvmDelegatedEmbeddedWalletProvider extends WalletProvider {
     return this.#address;
   }
 
+  /**
+   * Creates a provider for the same delegated wallet on another chain.
+   *
+   * @param chain - The chain to connect to.
+   * @returns The wallet provider for the chain.
+   */
+  withChain(chain: Chain): PrivyEvmDelegatedEmbeddedWalletProvider {
+    return new PrivyEvmDelegatedEmbeddedWalletProvider({
+      ...this.#config,
+      networkId: CHAIN_ID_TO_NETWORK_ID[chain.id] ?? String(chain.id),
+      chainId: String(chain.id),
+      chain,
+    });
+  }
+
   /**
    * Gets the network of the wallet.
    *
@@ -328,30 +362,47 @@ export class PrivyEvmDelegatedEmbeddedWalletProvider extends WalletProvider {
    * @returns The hash of the transaction.
    */
   async sendTransaction(transaction: TransactionRequest): Promise<Hex> {
-    const body = {
-      address: this.#address,
-      chain_type: "ethereum",
-      method: "eth_sendTransaction",
-      caip2: `eip155:${this.#network.chainId!}`,
-      params: {
-        transaction: {
-          ...transaction,
-          from: this.#address,
+    return this.interceptSendTransaction(transaction, async (request) => {
+      const body = {
+        address: this.#address,
+        chain_type: "ethereum",
+        method: "eth_sendTransaction",
+        caip2: `eip155:${this.#network.chainId!}`,
+        params: {
+          transaction: {
+            ...request,
+            from: this.#address,
+          },
         },
-      },
-    };
+      };
 
-    try {
-      const response = await this.executePrivyRequest<
-        PrivyResponse<{ hash: Hex }>
-      >(body);
-      return response.data?.hash;
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Transaction sending failed: ${error.message}`);
+      try {
+        const response = await this.executePrivyRequest<
+          PrivyResponse<{ hash: Hex }>
+        >(body);
+        return response.data?.hash;
+      } catch (error) {
+        if (error instanceof Error) {
+          throw new Error(`Transaction sending failed: ${error.message}`);
+        }
+        throw new Error("Transaction sending failed");
       }
-      throw new Error("Transaction sending failed");
-    }
+    });
+  }
+
+  /**
+   * Estimates the gas a transaction would use.
+   *
+   * @param transaction - The transaction to estimate.
+   * @returns The estimated gas limit.
+   */
+  async estimateGas(transaction: TransactionRequest): Promise<bigint> {
+    return this.#publicClient.estimateGas({
+      account: this.#address as Address,
+      to: transaction.to,
+      value: transaction.value,
+      data: transaction.data,
+    });
   }
 
   /**
@@ -361,9 +412,25 @@ export class PrivyEvmDelegatedEmbeddedWalletProvider extends WalletProvider {
    * @returns The transaction receipt.
    */
   async waitForTransactionReceipt(txHash: Hex): Promise<TransactionReceipt> {
-    return await this.#publicClient.waitForTransactionReceipt({
-      hash: txHash,
-    });
+    return this.interceptWaitForTransactionReceipt(txHash, (hash) =>
+      this.#publicClient.waitForTransactionReceipt({ hash })
+    );
+  }
+
+  /**
+   * Simulates a sequence of transactions without broadcasting them.
+   *
+   * @param transactions - The transactions to simulate, in order.
+   * @returns The outcome of the simulation.
+   */
+  async simulateTransactions(
+    transactions: TransactionRequest[]
+  ): Promise<SimulationResult> {
+    return simulateTransactionsWithClient(
+      this.#publicClient,
+      this.#address as Address,
+      transactions
+    );
   }
 
   /**
@@ -395,27 +462,32 @@ export class PrivyEvmDelegatedEmbeddedWalletProvider extends WalletProvider {
    */
   async nativeTransfer(to: string, value: string): Promise<Hex> {
     const valueInWei = parseEther(value);
-    const valueHex = `0x${valueInWei.toString(16)}`;
-
-    const body = {
-      address: this.#address,
-      chain_type: "ethereum",
-      method: "eth_sendTransaction",
-      caip2: `eip155:${this.#network.chainId!}`,
-      params: {
-        transaction: {
-          to,
-          value: valueHex,
-        },
-      },
-    };
 
     try {
-      const response = await this.executePrivyRequest<
-        PrivyResponse<{ hash: Hex }>
-      >(body);
+      const hash = await this.interceptSendTransaction(
+        { to: to as Address, value: valueInWei },
+        async (request) => {
+          const body = {
+            address: this.#address,
+            chain_type: "ethereum",
+            method: "eth_sendTransaction",
+            caip2: `eip155:${this.#network.chainId!}`,
+            params: {
+              transaction: {
+                to: request.to,
+                value: `0x${(request.value ?? BigInt(0)).toString(16)}`,
+              },
+            },
+          };
+
+          const response = await this.executePrivyRequest<
+            PrivyResponse<{ hash: Hex }>
+          >(body);
+          return response.data.hash;
+        }
+      );
 
-      const receipt = await this.waitForTransactionReceipt(response.data.hash);
+      const receipt = await this.waitForTransactionReceipt(hash);
 
       if (!receipt) {
         throw new Error("Transaction failed");
@@ -520,11 +592,12 @@ export class PrivyEvmDelegatedEmbeddedWalletProvider extends WalletProvider {
   private async executePrivyRequest<T>(
     body: Record<string, unknown>
   ): Promise<T> {
-    const url = `https://api.privy.io/v1/wallets/rpc`;
+    const apiUrl = this.#config.walletApiUrl ?? PRIVY_WALLET_API_URL;
+    const url = `${apiUrl.replace(/\/+$/, "")}/v1/wallets/rpc`;
     const headers = this.getPrivyHeaders(url, body);
 
     try {
-      const response = await fetch(url, {
+      const response = await resolveFetch(this.#config.fetch)(url, {
         method: "POST",
         headers,
         body: JSON.stringify(body, (_key, value) =>
@@ -1,9 +1,21 @@
-import { PrivyClient } from "@privy-io/server-auth";
 import { createViemAccount } from "@privy-io/server-auth/viem";
-import { ViemWalletProvider } from "./viemWalletProvider";
-import { Chain, createWalletClient, http, WalletClient } from "viem";
+import {
+  ViemWalletProvider,
+  ViemWalletProviderGasConfig,
+} from "./viemWalletProvider";
+import {
+  Chain,
+  createWalletClient,
+  http,
+  Transport,
+  WalletClient,
+} from "viem";
 import { getChain } from "../network/network";
-import { PrivyWalletConfig, PrivyWalletExport } from "./privyShared";
+import {
+  PrivyWalletConfig,
+  PrivyWalletExport,
+  createPrivyClient,
+} from "./privyShared";
 
 /**
  * Configuration options for the Privy wallet provider.
@@ -13,7 +25,12 @@ import { PrivyWalletConfig, PrivyWalletExport } from "./privyShared";
 export interface PrivyEvmWalletConfig extends PrivyWalletConfig {
   /** Optional chain ID to connect to */
   chainId?: string;
+  /** Optional chain definition, e.g. with a custom RPC URL. Required for Katana */
   chain?: Chain;
+  /** Optional gas multipliers */
+  gasConfig?: ViemWalletProviderGasConfig;
+  /** Optional RPC URLs, or transports, by chain ID, for the networks the wallet can switch to */
+  rpcUrls?: Record<number, string | Transport>;
 }
 
 /**
@@ -24,6 +41,7 @@ export interface PrivyEvmWalletConfig extends PrivyWalletConfig {
 export class PrivyEvmWalletProvider extends ViemWalletProvider {
   #walletId: string;
   #authorizationPrivateKey: string | undefined;
+  #config: PrivyEvmWalletConfig & { walletId: string };
 
   /**
    * Private constructor to enforce use of factory method.
@@ -33,11 +51,12 @@ export class PrivyEvmWalletProvider extends ViemWalletProvider {
    */
   private constructor(
     walletClient: WalletClient,
-    config: PrivyWalletConfig & { walletId: string } // Require walletId in constructor
+    config: PrivyEvmWalletConfig & { walletId: string } // Require walletId in constructor
   ) {
-    super(walletClient);
+    super(walletClient, config.gasConfig, { rpcUrls: config.rpcUrls });
     this.#walletId = config.walletId; // Now guaranteed to exist
     this.#authorizationPrivateKey = config.authorizationPrivateKey;
+    this.#config = config;
   }
 
   /**
@@ -59,13 +78,7 @@ export class PrivyEvmWalletProvider extends ViemWalletProvider {
   public static async configureWithWallet(
     config: PrivyEvmWalletConfig
   ): Promise<PrivyEvmWalletProvider> {
-    const privy = new PrivyClient(config.appId, config.appSecret, {
-      walletApi: config.authorizationPrivateKey
-        ? {
-            authorizationPrivateKey: config.authorizationPrivateKey,
-          }
-        : undefined,
-    });
+    const privy = createPrivyClient(config);
 
     let walletId: string;
     let address: `0x${string}`;
@@ -125,9 +138,10 @@ export class PrivyEvmWalletProvider extends ViemWalletProvider {
 
     // TODO: Remove below code once Katana is available on Viem and is public
     const chain =
-      chainId === "129399" || chainId === "747474"
-        ? config.chain
-        : getChain(chainId);
+      config.chain ??
+      (chainId === "129399" || chainId === "747474"
+        ? undefined
+        : getChain(chainId));
     if (!chain) {
       throw new Error(`Chain with ID ${chainId} not found`);
     }
@@ -140,6 +154,21 @@ export class PrivyEvmWalletProvider extends ViemWalletProvider {
     return new PrivyEvmWalletProvider(walletClient, { ...config, walletId });
   }
 
+  /**
+   * Creates a provider for the same Privy wallet on another chain.
+   *
+   * @param chain - The chain to connect to.
+   * @returns The wallet provider for the chain.
+   */
+  withChain(chain: Chain): PrivyEvmWalletProvider {
+    return new PrivyEvmWalletProvider(this.walletClientFor(chain), {
+      ...this.#config,
+      chainId: String(chain.id),
+      chain,
+      rpcUrls: this.rpcUrls,
+    });
+  }
+
   /**
    * Gets the name of the wallet provider.
    *
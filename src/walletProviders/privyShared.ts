@@ -16,8 +16,12 @@ export interface PrivyWalletConfig {
   authorizationPrivateKey?: string;
   /** Optional authorization key ID for creating new wallets */
   authorizationKeyId?: string;
+  /** Optional URL of Privy's wallet API, which serves wallet RPC requests. Defaults to `https://api.privy.io` */
+  walletApiUrl?: string;
 }
 
+export const PRIVY_WALLET_API_URL = "https://api.privy.io";
+
 export type PrivyWalletExport = {
   walletId: string;
   authorizationPrivateKey: string | undefined;
@@ -38,11 +42,13 @@ type CreatePrivyWalletReturnType = {
  */
 export const createPrivyClient = (config: PrivyWalletConfig) => {
   return new PrivyClient(config.appId, config.appSecret, {
-    walletApi: config.authorizationPrivateKey
-      ? {
-          authorizationPrivateKey: config.authorizationPrivateKey,
-        }
-      : undefined,
+    walletApi:
+      config.authorizationPrivateKey || config.walletApiUrl
+        ? {
+            authorizationPrivateKey: config.authorizationPrivateKey,
+            apiURL: config.walletApiUrl,
+          }
+        : undefined,
   });
 };
 
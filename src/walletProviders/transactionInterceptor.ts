@@ -0,0 +1,47 @@
+import { Hex, TransactionRequest } from "viem";
+import type { EvmWalletProvider } from "./evmWalletProvider";
+
+/**
+ * Hook that runs around every transaction an EVM wallet provider sends,
+ * including the ones sent indirectly by helpers such as `approve()`.
+ *
+ * Interceptors run in registration order. Each one receives a `next` function
+ * that continues with the remaining interceptors and finally broadcasts the
+ * transaction; an interceptor may inspect or rewrite the transaction, throw to
+ * abort it, or resolve without calling `next`.
+ */
+export interface TransactionInterceptor {
+  /**
+   * The name of the interceptor, used in logs and error messages.
+   */
+  name: string;
+
+  /**
+   * Runs before a transaction is signed and broadcast.
+   *
+   * @param transaction - The transaction about to be sent.
+   * @param next - Continues with the remaining interceptors and sends the transaction.
+   * @param walletProvider - The wallet provider sending the transaction.
+   * @returns The transaction hash.
+   */
+  onSendTransaction?: (
+    transaction: TransactionRequest,
+    next: (transaction: TransactionRequest) => Promise<Hex>,
+    walletProvider: EvmWalletProvider
+  ) => Promise<Hex>;
+
+  /**
+   * Runs when the wallet waits for the receipt of a transaction.
+   *
+   * @param txHash - The hash of the transaction.
+   * @param next - Continues with the remaining interceptors and waits for the receipt.
+   * @param walletProvider - The wallet provider waiting for the receipt.
+   * @returns The transaction receipt, which an interceptor that handled the
+   * transaction itself may build on its own, e.g. from a simulation.
+   */
+  onWaitForTransactionReceipt?: (
+    txHash: Hex,
+    next: (txHash: Hex) => Promise<unknown>,
+    walletProvider: EvmWalletProvider
+  ) => Promise<unknown>;
+}
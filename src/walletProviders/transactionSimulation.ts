@@ -0,0 +1,249 @@
+import {
+  Address,
+  BaseError,
+  decodeErrorResult,
+  Hex,
+  Log,
+  PublicClient,
+  TransactionRequest,
+} from "viem";
+import { simulateCalls } from "viem/actions";
+
+/**
+ * The outcome of simulating a single transaction.
+ */
+export interface TransactionSimulation {
+  /**
+   * The simulated transaction.
+   */
+  transaction: TransactionRequest;
+
+  /**
+   * Whether the transaction would succeed.
+   */
+  success: boolean;
+
+  /**
+   * The gas the transaction would use, if it could be estimated.
+   */
+  gasEstimate?: bigint;
+
+  /**
+   * The decoded revert reason, if the transaction would revert.
+   */
+  revertReason?: string;
+
+  /**
+   * The data the call would return.
+   */
+  returnData?: Hex;
+
+  /**
+   * The logs the transaction would emit, if the node traced them.
+   */
+  logs?: Log[];
+}
+
+/**
+ * The expected change of a token balance of the wallet.
+ */
+export interface BalanceChange {
+  /**
+   * The token address. The native asset is reported as `0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE`.
+   */
+  token: Address;
+
+  /**
+   * The token symbol, if known.
+   */
+  symbol?: string;
+
+  /**
+   * The token decimals, if known.
+   */
+  decimals?: number;
+
+  /**
+   * The balance before the transactions, in atomic units.
+   */
+  before: bigint;
+
+  /**
+   * The balance after the transactions, in atomic units.
+   */
+  after: bigint;
+
+  /**
+   * The difference, in atomic units.
+   */
+  diff: bigint;
+}
+
+/**
+ * The outcome of simulating a sequence of transactions.
+ */
+export interface SimulationResult {
+  /**
+   * The outcome of each transaction, in order.
+   */
+  transactions: TransactionSimulation[];
+
+  /**
+   * The expected balance changes of the wallet across all transactions.
+   */
+  balanceChanges: BalanceChange[];
+
+  /**
+   * Anything that limits the accuracy of the simulation.
+   */
+  warnings: string[];
+}
+
+const REVERT_ABI = [
+  {
+    type: "error",
+    name: "Error",
+    inputs: [{ name: "reason", type: "string" }],
+  },
+  {
+    type: "error",
+    name: "Panic",
+    inputs: [{ name: "code", type: "uint256" }],
+  },
+] as const;
+
+/**
+ * Simulates a sequence of transactions from an account without broadcasting them.
+ *
+ * Transactions are simulated as a bundle with `eth_simulateV1`, so that each one
+ * sees the state left by the previous ones (e.g. an approval followed by a supply)
+ * and the balance changes of the account can be traced. When the node does not
+ * support it, every transaction is simulated on its own with `eth_call` and
+ * `eth_estimateGas`, and no balance changes are reported.
+ *
+ * @param publicClient - The client used to reach the node.
+ * @param account - The account sending the transactions.
+ * @param transactions - The transactions to simulate, in order.
+ * @returns The outcome of the simulation.
+ */
+export const simulateTransactionsWithClient = async (
+  publicClient: PublicClient,
+  account: Address,
+  transactions: TransactionRequest[]
+): Promise<SimulationResult> => {
+  try {
+    const { results, assetChanges } = await simulateCalls(publicClient, {
+      account,
+      calls: transactions.map(({ to, data, value }) => ({
+        to: to as Address,
+        data,
+        value,
+      })),
+      traceAssetChanges: true,
+    });
+
+    return {
+      transactions: results.map((result, index) => ({
+        transaction: transactions[index],
+        success: result.status === "success",
+        gasEstimate: result.gasUsed,
+        returnData: result.data,
+        logs: result.logs,
+        revertReason:
+          result.status === "failure"
+            ? decodeRevertReason(result.data, result.error)
+            : undefined,
+      })),
+      balanceChanges: assetChanges
+        .filter(({ value }) => value.diff !== BigInt(0))
+        .map(({ token, value }) => ({
+          token: token.address,
+          symbol: token.symbol,
+          decimals: token.decimals,
+          before: value.pre,
+          after: value.post,
+          diff: value.diff,
+        })),
+      warnings: [],
+    };
+  } catch (error) {
+    const simulations: TransactionSimulation[] = [];
+
+    for (const transaction of transactions) {
+      const request = {
+        account,
+        to: transaction.to ?? undefined,
+        data: transaction.data,
+        value: transaction.value,
+      };
+
+      try {
+        const { data } = await publicClient.call(request);
+        const gasEstimate = await publicClient.estimateGas(request);
+        simulations.push({
+          transaction,
+          success: true,
+          gasEstimate,
+          returnData: data,
+        });
+      } catch (callError) {
+        simulations.push({
+          transaction,
+          success: false,
+          revertReason: decodeRevertReason(undefined, callError),
+        });
+      }
+    }
+
+    return {
+      transactions: simulations,
+      balanceChanges: [],
+      warnings: [
+        `Bundle simulation is not available (${errorMessage(
+          error
+        )}); transactions were simulated one by one against the current state and balance changes could not be traced.`,
+      ],
+    };
+  }
+};
+
+/**
+ * Decodes the reason a call reverted.
+ *
+ * @param data - The revert data, if known.
+ * @param error - The error raised by the node or viem, used to find the revert data and as a fallback.
+ * @returns The revert reason.
+ */
+export const decodeRevertReason = (data?: Hex, error?: unknown): string => {
+  let revertData = data;
+
+  if ((!revertData || revertData === "0x") && error instanceof BaseError) {
+    const cause = error.walk(
+      (e) => typeof (e as { data?: unknown }).data === "string"
+    ) as { data?: Hex } | null;
+    revertData = cause?.data;
+  }
+
+  if (revertData && revertData !== "0x") {
+    try {
+      const { errorName, args } = decodeErrorResult({
+        abi: REVERT_ABI,
+        data: revertData,
+      });
+      return errorName === "Error"
+        ? String(args[0])
+        : `panic 0x${(args[0] as bigint).toString(16)}`;
+    } catch {
+      return `execution reverted with data ${revertData}`;
+    }
+  }
+
+  return error ? errorMessage(error) : "execution reverted";
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof BaseError
+    ? error.shortMessage
+    : error instanceof Error
+    ? error.message
+    : String(error);
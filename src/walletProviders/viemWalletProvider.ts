@@ -3,6 +3,8 @@
 import {
   WalletClient as ViemWalletClient,
   createPublicClient,
+  createWalletClient,
+  custom,
   http,
   TransactionRequest,
   PublicClient as ViemPublicClient,
@@ -13,11 +15,17 @@ import {
   ContractFunctionName,
   ContractFunctionArgs,
   Chain,
+  Transport,
 } from "viem";
 import { Network } from "../network";
 import { CHAIN_ID_TO_NETWORK_ID } from "../network/network";
 import { applyGasMultiplier } from "../utils";
+import { createError, ErrorCode } from "../common/errors";
 import { EvmWalletProvider } from "./evmWalletProvider";
+import {
+  SimulationResult,
+  simulateTransactionsWithClient,
+} from "./transactionSimulation";
 
 /**
  * Configuration for gas multipliers.
@@ -34,6 +42,18 @@ export interface ViemWalletProviderGasConfig {
   feePerGasMultiplier?: number;
 }
 
+/**
+ * Configuration for the networks a provider can switch to.
+ */
+export interface ViemWalletProviderNetworkConfig {
+  /**
+   * The RPC URL, or the viem transport, to connect with per chain ID when
+   * switching networks. The chain of the wallet client defaults to the
+   * transport of the client. Reads use the RPC URL of the chain, if it is one.
+   */
+  rpcUrls?: Record<number, string | Transport>;
+}
+
 /**
  * Wallet provider implementation using Viem's WalletClient.
  *
@@ -45,23 +65,43 @@ export class ViemWalletProvider extends EvmWalletProvider {
   #publicClient: ViemPublicClient;
   #gasLimitMultiplier: number;
   #feePerGasMultiplier: number;
+  #gasConfig?: ViemWalletProviderGasConfig;
+  #rpcUrls: Record<number, string | Transport>;
 
   /**
    * Constructs a new ViemWalletProvider.
    *
+   * Reads go through a public client of their own, on the RPC URL configured
+   * for the chain in `networkConfig`, or else on the public RPC of the chain.
+   *
    * @param walletClient - The wallet client.
    * @param gasConfig - Configuration for gas multipliers.
+   * @param networkConfig - The RPC URLs of the networks the provider can switch to.
    */
   constructor(
     walletClient: ViemWalletClient,
-    gasConfig?: ViemWalletProviderGasConfig
+    gasConfig?: ViemWalletProviderGasConfig,
+    networkConfig?: ViemWalletProviderNetworkConfig
   ) {
     super();
 
+    const chainId = walletClient.chain?.id;
+    const rpcUrl =
+      chainId === undefined ? undefined : networkConfig?.rpcUrls?.[chainId];
+
     this.#walletClient = walletClient;
+    this.#gasConfig = gasConfig;
+    // The chain of the wallet client stays reachable, e.g. to switch back to it.
+    this.#rpcUrls =
+      chainId === undefined
+        ? { ...networkConfig?.rpcUrls }
+        : {
+            [chainId]: clientRpcUrl(walletClient),
+            ...networkConfig?.rpcUrls,
+          };
     this.#publicClient = createPublicClient({
       chain: walletClient.chain,
-      transport: http(),
+      transport: http(typeof rpcUrl === "string" ? rpcUrl : undefined),
     });
     this.#gasLimitMultiplier = Math.max(
       gasConfig?.gasLimitMultiplier ?? 1.2,
@@ -133,46 +173,70 @@ export class ViemWalletProvider extends EvmWalletProvider {
   async sendTransaction(
     transaction: TransactionRequest
   ): Promise<`0x${string}`> {
+    return this.interceptSendTransaction(transaction, async (request) => {
+      const account = this.#walletClient.account;
+      if (!account) {
+        throw new Error("Account not found");
+      }
+
+      const chain = this.#walletClient.chain;
+      if (!chain) {
+        throw new Error("Chain not found");
+      }
+
+      const feeData = await this.#publicClient.estimateFeesPerGas();
+      const maxFeePerGas = applyGasMultiplier(
+        feeData.maxFeePerGas,
+        this.#feePerGasMultiplier
+      );
+      const maxPriorityFeePerGas = applyGasMultiplier(
+        feeData.maxPriorityFeePerGas,
+        this.#feePerGasMultiplier
+      );
+
+      const gasLimit = await this.#publicClient.estimateGas({
+        account,
+        to: request.to,
+        value: request.value,
+        data: request.data,
+      });
+      const gas = BigInt(
+        Math.round(Number(gasLimit) * this.#gasLimitMultiplier)
+      );
+
+      const txParams = {
+        account: account,
+        chain: chain,
+        data: request.data,
+        to: request.to,
+        value: request.value,
+        gas,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+      };
+
+      return this.#walletClient.sendTransaction(txParams);
+    });
+  }
+
+  /**
+   * Estimates the gas a transaction would use.
+   *
+   * @param transaction - The transaction to estimate.
+   * @returns The estimated gas limit.
+   */
+  async estimateGas(transaction: TransactionRequest): Promise<bigint> {
     const account = this.#walletClient.account;
     if (!account) {
       throw new Error("Account not found");
     }
 
-    const chain = this.#walletClient.chain;
-    if (!chain) {
-      throw new Error("Chain not found");
-    }
-
-    const feeData = await this.#publicClient.estimateFeesPerGas();
-    const maxFeePerGas = applyGasMultiplier(
-      feeData.maxFeePerGas,
-      this.#feePerGasMultiplier
-    );
-    const maxPriorityFeePerGas = applyGasMultiplier(
-      feeData.maxPriorityFeePerGas,
-      this.#feePerGasMultiplier
-    );
-
-    const gasLimit = await this.#publicClient.estimateGas({
+    return this.#publicClient.estimateGas({
       account,
       to: transaction.to,
       value: transaction.value,
       data: transaction.data,
     });
-    const gas = BigInt(Math.round(Number(gasLimit) * this.#gasLimitMultiplier));
-
-    const txParams = {
-      account: account,
-      chain: chain,
-      data: transaction.data,
-      to: transaction.to,
-      value: transaction.value,
-      gas,
-      maxFeePerGas,
-      maxPriorityFeePerGas,
-    };
-
-    return this.#walletClient.sendTransaction(txParams);
   }
 
   /**
@@ -206,6 +270,55 @@ export class ViemWalletProvider extends EvmWalletProvider {
     return "viem_wallet_provider";
   }
 
+  /**
+   * Creates a provider for the same account on another chain.
+   *
+   * @param chain - The chain to connect to.
+   * @returns The wallet provider for the chain, with the same gas and network configuration.
+   *
+   * @throws CONFIGURATION_ERROR if no RPC URL is configured for the chain.
+   */
+  withChain(chain: Chain): ViemWalletProvider {
+    return new ViemWalletProvider(this.walletClientFor(chain), this.#gasConfig, {
+      rpcUrls: this.rpcUrls,
+    });
+  }
+
+  /**
+   * The RPC URLs, or transports, of the chains the provider can switch to,
+   * including the chains of the providers it was derived from.
+   *
+   * @returns The RPC URLs by chain ID.
+   */
+  protected get rpcUrls(): Record<number, string | Transport> {
+    return this.#rpcUrls;
+  }
+
+  /**
+   * Creates a wallet client for the account of this provider on another chain.
+   *
+   * @param chain - The chain to connect to.
+   * @returns The wallet client, using the RPC URL configured for the chain.
+   *
+   * @throws CONFIGURATION_ERROR if no RPC URL is configured for the chain.
+   */
+  protected walletClientFor(chain: Chain): ViemWalletClient {
+    const rpcUrl = this.#rpcUrls[chain.id];
+
+    if (rpcUrl === undefined) {
+      throw createError(
+        `No RPC URL configured for chain ${chain.id}. Pass one in the rpcUrls option of the wallet provider.`,
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    return createWalletClient({
+      account: this.#walletClient.account!,
+      chain,
+      transport: typeof rpcUrl === "string" ? http(rpcUrl) : rpcUrl,
+    });
+  }
+
   // TODO: Remove below code once Katana is available on Viem and is public
   getChain(): Chain {
     if (!this.#walletClient.chain) {
@@ -235,7 +348,30 @@ export class ViemWalletProvider extends EvmWalletProvider {
    * @returns The transaction receipt.
    */
   async waitForTransactionReceipt(txHash: `0x${string}`): Promise<any> {
-    return await this.#publicClient.waitForTransactionReceipt({ hash: txHash });
+    return this.interceptWaitForTransactionReceipt(txHash, (hash) =>
+      this.#publicClient.waitForTransactionReceipt({ hash })
+    );
+  }
+
+  /**
+   * Simulates a sequence of transactions without broadcasting them.
+   *
+   * @param transactions - The transactions to simulate, in order.
+   * @returns The outcome of the simulation.
+   */
+  async simulateTransactions(
+    transactions: TransactionRequest[]
+  ): Promise<SimulationResult> {
+    const account = this.#walletClient.account;
+    if (!account) {
+      throw new Error("Account not found");
+    }
+
+    return simulateTransactionsWithClient(
+      this.#publicClient,
+      account.address,
+      transactions
+    );
   }
 
   /**
@@ -281,3 +417,15 @@ export class ViemWalletProvider extends EvmWalletProvider {
     return receipt.transactionHash;
   }
 }
+
+/**
+ * Gets what to connect to the chain of a wallet client with: the RPC URL of
+ * its HTTP transport, or else the client itself.
+ *
+ * @param walletClient - The wallet client.
+ * @returns The RPC URL or transport.
+ */
+const clientRpcUrl = (walletClient: ViemWalletClient): string | Transport =>
+  walletClient.transport.type === "http" && walletClient.transport.url
+    ? (walletClient.transport.url as string)
+    : custom(walletClient, { retryCount: 0 });
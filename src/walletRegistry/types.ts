@@ -0,0 +1,67 @@
+import { WalletProvider } from "../walletProviders";
+import { ActionMiddleware } from "../middleware";
+import { PolicyConfig, PolicyEngine } from "../policy";
+import { ApprovalGate, Approver } from "../approval";
+import { AuditJournal, JournalBackend } from "../journal";
+
+/**
+ * A wallet registered with a kit, with the policy and journal scoped to it.
+ */
+export interface WalletRegistration {
+  /**
+   * The wallet provider.
+   */
+  walletProvider: WalletProvider;
+
+  /**
+   * The policy enforced on the writes of this wallet. Replaces the policy of the kit.
+   */
+  policy?: PolicyConfig | PolicyEngine;
+
+  /**
+   * The journal, or the backend of one, recording the actions and transactions
+   * of this wallet. Replaces the journal of the kit.
+   */
+  journal?: AuditJournal | JournalBackend;
+}
+
+/**
+ * The safeguards applied to every registered wallet that does not bring its own.
+ */
+export interface WalletRegistryDefaults {
+  /**
+   * The policy enforced on every write.
+   */
+  policy?: PolicyConfig | PolicyEngine;
+
+  /**
+   * The journal, or the backend of one, recording every action and transaction.
+   */
+  journal?: AuditJournal | JournalBackend;
+
+  /**
+   * The approver that must allow every transaction, of every wallet.
+   */
+  approval?: Approver | ApprovalGate;
+}
+
+/**
+ * A wallet of the registry, ready to run actions.
+ */
+export interface RegisteredWallet {
+  /**
+   * The ID the wallet was registered under, e.g. a Privy wallet ID.
+   */
+  id: string;
+
+  /**
+   * The wallet provider.
+   */
+  walletProvider: WalletProvider;
+
+  /**
+   * The journal and policy middlewares of the wallet, in the order they run,
+   * ahead of the middlewares of the kit.
+   */
+  middleware: ActionMiddleware[];
+}
@@ -0,0 +1,371 @@
+import { Chain } from "viem";
+import { EvmWalletProvider, WalletProvider } from "../walletProviders";
+import { ActionMiddleware } from "../middleware";
+import { PolicyConfig, PolicyEngine } from "../policy";
+import { ApprovalGate } from "../approval";
+import { dryRunInterceptor } from "../dryRun";
+import { AuditJournal, JournalBackend } from "../journal";
+import { createError, ErrorCode } from "../common/errors";
+import {
+  RegisteredWallet,
+  WalletRegistration,
+  WalletRegistryDefaults,
+} from "./types";
+
+/**
+ * A wallet provider equipped with the safeguards of its wallet, with the
+ * function that detaches its interceptors.
+ */
+interface EquippedWallet extends RegisteredWallet {
+  dispose: () => void;
+}
+
+/**
+ * A registered wallet, with its safeguards and its providers on other chains.
+ */
+interface WalletEntry extends EquippedWallet {
+  policy?: PolicyEngine;
+  journal?: AuditJournal;
+  chains: Map<number, EquippedWallet>;
+}
+
+/**
+ * WalletRegistry holds the wallets of a kit by ID, so that a single kit can
+ * serve many users, e.g. one Privy wallet per user.
+ *
+ * Registering a wallet equips it with the journal, policy, dry-run and approval
+ * interceptors, and unregistering it removes them again. Each wallet may bring
+ * its own policy and journal, otherwise the defaults of the registry apply.
+ * Spend limits are tracked per wallet address either way, across networks.
+ *
+ * A wallet can be replaced by a provider on another network, and providers for
+ * further networks can be derived from it, all sharing its policy and journal.
+ */
+export class WalletRegistry {
+  readonly #policy?: PolicyEngine;
+  readonly #journal?: AuditJournal;
+  readonly #approval?: ApprovalGate;
+  readonly #wallets = new Map<string, WalletEntry>();
+
+  /**
+   * Creates a new WalletRegistry.
+   *
+   * @param defaults - The policy, journal and approver applied to every wallet.
+   */
+  constructor(defaults: WalletRegistryDefaults = {}) {
+    this.#policy = toPolicyEngine(defaults.policy);
+    this.#journal = toAuditJournal(defaults.journal);
+    this.#approval =
+      defaults.approval && !(defaults.approval instanceof ApprovalGate)
+        ? new ApprovalGate({ approver: defaults.approval })
+        : defaults.approval;
+  }
+
+  /**
+   * Registers a wallet.
+   *
+   * @param id - The ID to register the wallet under, e.g. a Privy wallet ID.
+   * @param wallet - The wallet provider, or the wallet with its own policy and journal.
+   * @returns The registered wallet.
+   *
+   * @throws CONFIGURATION_ERROR if the ID or the wallet provider is already registered.
+   */
+  register(
+    id: string,
+    wallet: WalletProvider | WalletRegistration
+  ): RegisteredWallet {
+    const registration: WalletRegistration =
+      "walletProvider" in wallet ? wallet : { walletProvider: wallet };
+    const { walletProvider } = registration;
+
+    if (this.#wallets.has(id)) {
+      throw createError(
+        `Wallet "${id}" is already registered`,
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    if (
+      [...this.#wallets.values()].some(
+        (entry) => entry.walletProvider === walletProvider
+      )
+    ) {
+      throw createError(
+        `The wallet provider of "${id}" is already registered under another ID`,
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    const policy = toPolicyEngine(registration.policy) ?? this.#policy;
+    const journal = toAuditJournal(registration.journal) ?? this.#journal;
+
+    const entry: WalletEntry = {
+      ...this.equip(id, walletProvider, policy, journal),
+      policy,
+      journal,
+      chains: new Map(),
+    };
+    this.#wallets.set(id, entry);
+
+    return toRegisteredWallet(entry);
+  }
+
+  /**
+   * Replaces the provider of a registered wallet, e.g. after switching networks.
+   *
+   * The new provider is equipped with the policy and journal of the wallet, the
+   * previous provider and the providers derived from it are detached.
+   *
+   * @param id - The ID of the wallet.
+   * @param walletProvider - The new wallet provider.
+   * @returns The registered wallet.
+   *
+   * @throws WALLET_NOT_FOUND if no wallet is registered under the ID.
+   */
+  replace(id: string, walletProvider: WalletProvider): RegisteredWallet {
+    const entry = this.getEntry(id);
+    const { policy, journal } = entry;
+
+    const replacement: WalletEntry = {
+      ...this.equip(id, walletProvider, policy, journal),
+      policy,
+      journal,
+      chains: new Map(),
+    };
+    disposeEntry(entry);
+    this.#wallets.set(id, replacement);
+
+    return toRegisteredWallet(replacement);
+  }
+
+  /**
+   * Gets a registered wallet on a given chain.
+   *
+   * Providers for other chains are derived with `EvmWalletProvider.withChain`,
+   * equipped with the policy and journal of the wallet and kept until the
+   * wallet is unregistered or replaced.
+   *
+   * @param id - The ID of the wallet.
+   * @param chain - The chain.
+   * @returns The wallet, bound to a provider on the chain.
+   *
+   * @throws WALLET_NOT_FOUND if no wallet is registered under the ID.
+   * @throws NOT_IMPLEMENTED if the wallet cannot switch to the chain.
+   */
+  getOnChain(id: string, chain: Chain): RegisteredWallet {
+    const entry = this.getEntry(id);
+
+    if (entry.walletProvider.getNetwork().chainId === String(chain.id)) {
+      return toRegisteredWallet(entry);
+    }
+
+    let derived = entry.chains.get(chain.id);
+    if (!derived) {
+      if (!(entry.walletProvider instanceof EvmWalletProvider)) {
+        throw createError(
+          `Wallet "${id}" cannot switch to chain ${chain.id}`,
+          ErrorCode.NOT_IMPLEMENTED
+        );
+      }
+
+      derived = this.equip(
+        id,
+        entry.walletProvider.withChain(chain),
+        entry.policy,
+        entry.journal
+      );
+      entry.chains.set(chain.id, derived);
+    }
+
+    return toRegisteredWallet(derived);
+  }
+
+  /**
+   * Unregisters a wallet and removes the interceptors it was equipped with.
+   *
+   * @param id - The ID of the wallet.
+   * @returns Whether a wallet was registered under the ID.
+   */
+  unregister(id: string): boolean {
+    const entry = this.#wallets.get(id);
+    if (!entry) return false;
+
+    disposeEntry(entry);
+    return this.#wallets.delete(id);
+  }
+
+  /**
+   * Checks whether a wallet is registered under an ID.
+   *
+   * @param id - The ID of the wallet.
+   * @returns True if the wallet is registered.
+   */
+  has(id: string): boolean {
+    return this.#wallets.has(id);
+  }
+
+  /**
+   * Gets a registered wallet.
+   *
+   * @param id - The ID of the wallet.
+   * @returns The registered wallet.
+   *
+   * @throws WALLET_NOT_FOUND if no wallet is registered under the ID.
+   */
+  get(id: string): RegisteredWallet {
+    return toRegisteredWallet(this.getEntry(id));
+  }
+
+  /**
+   * Lists the IDs of the registered wallets, in registration order.
+   *
+   * @returns The wallet IDs.
+   */
+  ids(): string[] {
+    return [...this.#wallets.keys()];
+  }
+
+  /**
+   * Gets the registry entry of a wallet.
+   *
+   * @param id - The ID of the wallet.
+   * @returns The entry.
+   *
+   * @throws WALLET_NOT_FOUND if no wallet is registered under the ID.
+   */
+  private getEntry(id: string): WalletEntry {
+    const entry = this.#wallets.get(id);
+
+    if (!entry) {
+      throw createError(
+        `Unknown wallet "${id}". Registered wallets: ${
+          this.ids().join(", ") || "none"
+        }`,
+        ErrorCode.WALLET_NOT_FOUND,
+        { walletId: id }
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * Equips a wallet provider with the journal, policy, dry-run and approval
+   * interceptors, and builds the journal and policy middlewares.
+   *
+   * @param id - The ID of the wallet.
+   * @param walletProvider - The wallet provider.
+   * @param policy - The policy of the wallet.
+   * @param journal - The journal of the wallet.
+   * @returns The equipped wallet.
+   */
+  private equip(
+    id: string,
+    walletProvider: WalletProvider,
+    policy?: PolicyEngine,
+    journal?: AuditJournal
+  ): EquippedWallet {
+    if (this.#approval && !(walletProvider instanceof EvmWalletProvider)) {
+      throw createError(
+        "Approval mode requires an EVM wallet provider.",
+        ErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    const removers: (() => void)[] = [];
+
+    if (walletProvider instanceof EvmWalletProvider) {
+      // Registered before the policy and the approver, so that rejected writes are journaled too.
+      if (journal) {
+        removers.push(
+          walletProvider.addTransactionInterceptor(
+            journal.asTransactionInterceptor()
+          )
+        );
+      }
+
+      if (policy) {
+        removers.push(
+          walletProvider.addTransactionInterceptor(
+            policy.asTransactionInterceptor()
+          )
+        );
+      }
+
+      // Registered after the policy, so that simulated transactions are checked
+      // against it, and before the approver, so that they are never sent for approval.
+      removers.push(
+        walletProvider.addTransactionInterceptor(dryRunInterceptor())
+      );
+
+      // Registered after the policy, so operators only see compliant transactions.
+      if (this.#approval) {
+        removers.push(
+          walletProvider.addTransactionInterceptor(
+            this.#approval.asTransactionInterceptor()
+          )
+        );
+      }
+    }
+
+    // Ahead of the kit middlewares, so that no other middleware sees a rejected write.
+    const middleware: ActionMiddleware[] = [];
+    if (journal) middleware.push(journal.asMiddleware());
+    if (policy) middleware.push(policy.asMiddleware());
+
+    return {
+      id,
+      walletProvider,
+      middleware,
+      dispose: () => removers.forEach((remove) => remove()),
+    };
+  }
+}
+
+/**
+ * Strips the internals of a registry entry.
+ *
+ * @param entry - The registry entry.
+ * @returns The registered wallet.
+ */
+const toRegisteredWallet = ({
+  id,
+  walletProvider,
+  middleware,
+}: EquippedWallet): RegisteredWallet => ({ id, walletProvider, middleware });
+
+/**
+ * Detaches the interceptors of a wallet and of the providers derived from it.
+ *
+ * @param entry - The registry entry.
+ */
+const disposeEntry = (entry: WalletEntry): void => {
+  entry.dispose();
+  entry.chains.forEach((derived) => derived.dispose());
+};
+
+/**
+ * Builds a policy engine from a policy option.
+ *
+ * @param policy - A policy engine or the config of one.
+ * @returns The policy engine, if a policy was given.
+ */
+const toPolicyEngine = (
+  policy?: PolicyConfig | PolicyEngine
+): PolicyEngine | undefined =>
+  policy && !(policy instanceof PolicyEngine)
+    ? new PolicyEngine(policy)
+    : policy;
+
+/**
+ * Builds an audit journal from a journal option.
+ *
+ * @param journal - An audit journal or the backend of one.
+ * @returns The audit journal, if a journal was given.
+ */
+const toAuditJournal = (
+  journal?: AuditJournal | JournalBackend
+): AuditJournal | undefined =>
+  journal && !(journal instanceof AuditJournal)
+    ? new AuditJournal(journal)
+    : journal;